@@ -1,14 +1,71 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { MediaItem, TabType, MediaType, AppSettings } from './types';
-import { IconPhotos, IconVideo, IconHeart, IconSearch, IconSettings, IconPlus } from './components/Icons';
+import { MediaItem, TabType, MediaType, AppSettings, Album, SmartAlbum, AnalysisProviderId, ImageEdits } from './types';
+import { IconPhotos, IconVideo, IconHeart, IconSearch, IconSettings, IconPlus, IconAlbum, IconTrash, IconDownload, IconMap } from './components/Icons';
 import MediaGrid from './components/MediaGrid';
 import DetailModal from './components/DetailModal';
 import UploadModal from './components/UploadModal';
-import { getAllMediaItems, saveMediaItems, deleteMediaItem as dbDeleteMediaItem } from './services/db';
+import AlbumView from './components/AlbumView';
+import SearchResults from './components/SearchResults';
+import SmartAlbumEditor from './components/SmartAlbumEditor';
+import BulkEditModal from './components/BulkEditModal';
+import BatchActionBar from './components/BatchActionBar';
+import BackupModal from './components/BackupModal';
+import DuplicatesModal from './components/DuplicatesModal';
+import UploadQueue, { getUploadProgress } from './components/UploadQueue';
+import MapView from './components/MapView';
+import ForYouView from './components/ForYouView';
+import ImageEditor from './components/ImageEditor';
+import { addTags, collectTags } from './services/metadataService';
+import { ImportResult } from './services/backupService';
+import { archiveItems, canReanalyze, downloadBlob, loadOriginal } from './services/batchService';
+import { backfillThumbnails, generateThumbnail } from './services/thumbnailService';
+import { backfillHashes } from './services/hashService';
+import { backfillMediaInfo, getCaptureDate } from './services/mediaInfoService';
+import { ANALYSIS_PROVIDERS, configureAnalysis, describeAnalysisFallback } from './services/analysisService';
+import { AnalysisSnapshot, configureAnalysisQueue, dropAnalysisJobs, isUnanalyzed, queueAnalysis, resetAnalysisUsage, retryFailedAnalysis, startAnalysisQueue, subscribeAnalysis } from './services/analysisQueueService';
+import { canDetectNetworkType, configureUploads, enqueueFiles, startUploads, subscribeUploads, UploadSnapshot } from './services/uploadService';
+import { filesFromClipboard, filesFromDataTransfer, hasFiles, IngestedFile } from './services/ingestService';
+import { loadSearchIndex, syncSearchIndex, indexItems, removeFromIndex, searchItems, smartAlbumQuery, SearchResult } from './services/searchService';
+import { countEmbedded, findSimilar, semanticSearch, syncEmbeddings } from './services/embeddingService';
+import { buildCurations } from './services/curationService';
+import { captionCards } from './services/captionService';
+import { formatRoute, historyAction, HistoryEntry, parseRoute, readHistoryEntry, SearchMode } from './services/routeService';
+import { getMediaItemsPage, MediaCursor, MediaPage, MediaPatch, addMediaItems, updateMediaItem, updateMediaItems, getThumbnails, saveThumbnail, deleteMediaItems as dbDeleteMediaItems, getAllAlbums, saveAlbum, deleteAlbum as dbDeleteAlbum, getAllSmartAlbums, saveSmartAlbum, deleteSmartAlbum as dbDeleteSmartAlbum } from './services/db';
+
+const PAGE_SIZE = 200;
+const DAY_MS = 86400000;
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+const UPLOAD_SPEED_OPTIONS: AppSettings['uploadSpeedLimit'][] = ['unlimited', '10mbps', '5mbps', '1mbps'];
+const ANALYSIS_PROVIDER_OPTIONS: { id: AnalysisProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini' },
+  { id: 'openai', label: 'OpenAI API' },
+  { id: 'local', label: 'On-device' }
+];
+const SEARCH_MODE_OPTIONS: { id: 'keyword' | 'semantic'; label: string }[] = [
+  { id: 'keyword', label: 'Keywords' },
+  { id: 'semantic', label: 'Meaning' }
+];
+// Edits and analysis results arrive in bursts; embedding waits for them to settle.
+const EMBEDDING_SYNC_DELAY_MS = 2000;
+const SEMANTIC_SEARCH_DELAY_MS = 400;
+const ANALYSIS_CONCURRENCY_OPTIONS = [1, 2, 4];
+// 0 lifts the limit.
+const ANALYSIS_RATE_OPTIONS = [10, 30, 60, 0];
+const settingsFieldClass = "w-full px-4 py-3 rounded-xl bg-slate-100 dark:bg-slate-900 text-slate-900 dark:text-white font-bold text-sm outline-none border-2 border-transparent focus:border-blue-500/20";
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<TabType>('library');
+  // Views come from the URL on load; items named in it are opened once the vault has loaded.
+  const [initialRoute] = useState(() => parseRoute(window.location));
+  const [activeTab, setActiveTab] = useState<TabType>(initialRoute.tab);
   const [mediaItems, setMediaItems] = useState<MediaItem[]>([]);
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [activeAlbumId, setActiveAlbumId] = useState<string | null>(initialRoute.albumId);
+  const [smartAlbums, setSmartAlbums] = useState<SmartAlbum[]>([]);
+  const [activeSmartAlbumId, setActiveSmartAlbumId] = useState<string | null>(initialRoute.smartAlbumId);
+  const [activeCardId, setActiveCardId] = useState<string | null>(initialRoute.cardId);
+  const [captions, setCaptions] = useState<Record<string, string>>({});
+  const [editingSmartAlbum, setEditingSmartAlbum] = useState<{ album: SmartAlbum; isNew: boolean } | null>(null);
   const [isDBLoaded, setIsDBLoaded] = useState(false);
   const [settings, setSettings] = useState<AppSettings>(() => {
     const saved = localStorage.getItem('media-vault-settings');
@@ -18,47 +75,122 @@ const App: React.FC = () => {
       autoTagging: true, 
       storageUsage: 0.12,
       uploadSpeedLimit: 'unlimited',
-      wifiOnly: false
+      wifiOnly: false,
+      trashRetentionDays: 30,
+      timelineDate: 'captured',
+      analysisProvider: 'gemini',
+      analysisModel: '',
+      analysisBaseUrl: '',
+      analysisApiKey: '',
+      analysisEmbeddingModel: '',
+      analysisConcurrency: 2,
+      analysisRequestsPerMinute: 30,
+      forYouCaptions: true
     };
     return saved ? { ...defaultSettings, ...JSON.parse(saved) } : defaultSettings;
   });
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchQuery, setSearchQuery] = useState(initialRoute.query);
+  const [searchMode, setSearchMode] = useState<SearchMode>(initialRoute.searchMode);
+  const [semanticResults, setSemanticResults] = useState<{ results: SearchResult[]; error: string | null }>({ results: [], error: null });
+  // Set by "Find Similar"; the search tab then lists items close to this one instead.
+  const [similarTo, setSimilarTo] = useState<MediaItem | null>(null);
+  // Bumped whenever stored embeddings change, since they live outside React state.
+  const [embeddingVersion, setEmbeddingVersion] = useState(0);
+  // Bumped whenever the search index changes, since it lives outside React state.
+  const [searchIndexVersion, setSearchIndexVersion] = useState(0);
   const [selectedItem, setSelectedItem] = useState<MediaItem | null>(null);
+  const [editingItem, setEditingItem] = useState<MediaItem | null>(null);
   const [showUpload, setShowUpload] = useState(false);
+  // Null outside selection mode.
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  const [showBulkEdit, setShowBulkEdit] = useState(false);
+  const [batchStatus, setBatchStatus] = useState<string | null>(null);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [uploads, setUploads] = useState<UploadSnapshot>({ entries: [], bytesPerSecond: 0, blockedReason: null });
+  const [showUploads, setShowUploads] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [analysisQueue, setAnalysisQueue] = useState<AnalysisSnapshot>({ jobs: [], usage: { requests: 0, tokens: 0, since: Date.now() } });
   
   // Track object URLs for memory management
   const objectUrlsRef = useRef<Set<string>>(new Set());
 
-  // Load from IndexedDB on startup
+  const createObjectUrl = (blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    objectUrlsRef.current.add(url);
+    return url;
+  };
+
+  const revokeObjectUrl = (url?: string | Blob) => {
+    if (typeof url === 'string' && url.startsWith('blob:')) {
+      URL.revokeObjectURL(url);
+      objectUrlsRef.current.delete(url);
+    }
+  };
+
+  const withObjectUrl = (item: MediaItem): MediaItem => ({
+    ...item,
+    url: item.url instanceof Blob ? createObjectUrl(item.url) : item.url,
+    thumbnailUrl: item.thumbnailUrl instanceof Blob ? createObjectUrl(item.thumbnailUrl) : item.thumbnailUrl
+  });
+
+  // Load from IndexedDB on startup, newest first, one page at a time so the grid renders
+  // before the whole vault has been read. Only thumbnails are read here; originals are
+  // fetched on demand by the detail view.
   useEffect(() => {
-    getAllMediaItems().then(items => {
-      const processedItems = items.map(item => {
-        if (item.url instanceof Blob) {
-          const url = URL.createObjectURL(item.url);
-          objectUrlsRef.current.add(url);
-          return { ...item, url };
-        }
-        return item;
-      });
-      setMediaItems(processedItems);
+    let cancelled = false;
+
+    const loadPages = async () => {
+      const loaded: MediaItem[] = [];
+      let cursor: MediaCursor | null = null;
+      do {
+        const page: MediaPage = await getMediaItemsPage(PAGE_SIZE, cursor);
+        const thumbnails = await getThumbnails(page.items.map(item => item.id));
+        if (cancelled) return;
+        const items = page.items.map(item => withObjectUrl({ ...item, thumbnailUrl: thumbnails.get(item.id) }));
+        loaded.push(...items);
+        setMediaItems(prev => [...prev, ...items]);
+        cursor = page.nextCursor;
+      } while (cursor);
       setIsDBLoaded(true);
-    }).catch((err) => {
+
+      await loadSearchIndex()
+        .then(() => syncSearchIndex(loaded))
+        .catch(err => console.error("Search Index Error", err));
+      if (cancelled) return;
+      setSearchIndexVersion(v => v + 1);
+
+      await backfillThumbnails(loaded, (id, thumbnail) => {
+        const thumbnailUrl = createObjectUrl(thumbnail);
+        setMediaItems(prev => prev.map(item => item.id === id ? { ...item, thumbnailUrl } : item));
+      }, () => cancelled);
+
+      await backfillHashes(loaded, (id, patch) => {
+        setMediaItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+      }, () => cancelled);
+
+      await backfillMediaInfo(loaded, (id, metadata) => {
+        setMediaItems(prev => prev.map(item => item.id === id ? { ...item, metadata } : item));
+      }, () => cancelled);
+    };
+
+    loadPages().catch((err) => {
       console.error("DB Load Error", err);
       setIsDBLoaded(true);
     });
+    getAllAlbums().then(setAlbums).catch(err => console.error("Album Load Error", err));
+    getAllSmartAlbums().then(setSmartAlbums).catch(err => console.error("Smart Album Load Error", err));
 
     return () => {
+      cancelled = true;
       objectUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+      objectUrlsRef.current.clear();
     };
   }, []);
 
-  // Sync state to IndexedDB when changed
+  // Items are persisted individually by the handlers below; this only derives storage usage.
   useEffect(() => {
     if (isDBLoaded) {
-      if (mediaItems.length > 0) {
-        saveMediaItems(mediaItems).catch(console.error);
-      }
-      
       const usage = mediaItems.reduce((acc, item) => {
         const sizeVal = item.size ? parseFloat(item.size) / 1024 : (item.type === MediaType.VIDEO ? 0.05 : 0.005);
         return acc + sizeVal;
@@ -79,57 +211,647 @@ const App: React.FC = () => {
     }
   }, [settings]);
 
-  const handleToggleFavorite = (id: string) => {
-    setMediaItems(prev => prev.map(item => item.id === id ? { ...item, isFavorite: !item.isFavorite } : item));
+  const refreshSearchIndex = (update: Promise<void>) => {
+    update
+      .then(() => setSearchIndexVersion(v => v + 1))
+      .catch(err => console.error("Search Index Error", err));
+  };
+
+  const handlePatchItem = (id: string, patch: MediaPatch) => {
+    updateMediaItem(id, patch).catch(console.error);
+    const item = mediaItems.find(i => i.id === id);
+    if (item) refreshSearchIndex(indexItems([{ ...item, ...patch }]));
+    setMediaItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
     if (selectedItem?.id === id) {
-      setSelectedItem(prev => prev ? { ...prev, isFavorite: !prev.isFavorite } : null);
+      setSelectedItem(prev => prev ? { ...prev, ...patch } : null);
     }
   };
 
-  const handleDeleteItem = async (id: string) => {
-    await dbDeleteMediaItem(id);
-    const itemToDelete = mediaItems.find(i => i.id === id);
-    if (itemToDelete && typeof itemToDelete.url === 'string' && itemToDelete.url.startsWith('blob:')) {
-      URL.revokeObjectURL(itemToDelete.url);
-      objectUrlsRef.current.delete(itemToDelete.url);
+  // Only the recipe is stored; the thumbnail is redrawn from the original so the grid shows the edit.
+  const handleSaveEdits = async (item: MediaItem, edits: ImageEdits | undefined) => {
+    handlePatchItem(item.id, { edits });
+    try {
+      const original = await loadOriginal(item);
+      const thumbnail = original && await generateThumbnail(original, item.type, edits);
+      if (!thumbnail) return;
+      await saveThumbnail(item.id, thumbnail);
+      const thumbnailUrl = createObjectUrl(thumbnail);
+      setMediaItems(prev => prev.map(i => i.id === item.id ? { ...i, thumbnailUrl } : i));
+      setSelectedItem(prev => prev?.id === item.id ? { ...prev, thumbnailUrl } : prev);
+      revokeObjectUrl(item.thumbnailUrl);
+    } catch (err) {
+      console.error("Thumbnail Error", err);
+    }
+  };
+
+  const handleBulkPatch = (patches: { id: string; patch: MediaPatch }[]) => {
+    const byId = new Map(patches.map(({ id, patch }) => [id, patch]));
+    updateMediaItems(patches).catch(console.error);
+    const updated = mediaItems.filter(item => byId.has(item.id)).map(item => ({ ...item, ...byId.get(item.id) }));
+    setMediaItems(prev => prev.map(item => byId.has(item.id) ? { ...item, ...byId.get(item.id) } : item));
+    refreshSearchIndex(indexItems(updated));
+    setShowBulkEdit(false);
+    setSelectedIds(null);
+  };
+
+  // Toggling outside selection mode (long press, tile checkbox) starts it with that item.
+  const handleToggleSelect = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleSetSelected = (ids: string[], selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => selected ? next.add(id) : next.delete(id));
+      return next;
+    });
+  };
+
+  const handleToggleFavorite = (id: string) => {
+    const item = mediaItems.find(i => i.id === id);
+    if (item) handlePatchItem(id, { isFavorite: !item.isFavorite, favoritedAt: item.isFavorite ? undefined : Date.now() });
+  };
+
+  const handleDeleteItems = async (ids: string[]) => {
+    const doomed = new Set(ids);
+    await dbDeleteMediaItems(ids);
+    dropAnalysisJobs(ids);
+    refreshSearchIndex(removeFromIndex(ids));
+    albums.filter(album => album.itemIds.some(id => doomed.has(id))).forEach(album => {
+      updateAlbum(album.id, a => ({
+        ...a,
+        itemIds: a.itemIds.filter(itemId => !doomed.has(itemId)),
+        coverItemId: a.coverItemId && doomed.has(a.coverItemId) ? undefined : a.coverItemId
+      }));
+    });
+    mediaItems.filter(item => doomed.has(item.id)).forEach(item => {
+      revokeObjectUrl(item.url);
+      revokeObjectUrl(item.thumbnailUrl);
+    });
+    setMediaItems(prev => prev.filter(item => !doomed.has(item.id)));
+    setSelectedItem(prev => prev && doomed.has(prev.id) ? null : prev);
+  };
+
+  const handleDeleteItem = (id: string) => handleDeleteItems([id]);
+
+  const handleTrashItems = (ids: string[]) => {
+    const deletedAt = Date.now();
+    handleBulkPatch(ids.map(id => ({ id, patch: { deletedAt } })));
+    setSelectedItem(prev => prev && ids.includes(prev.id) ? null : prev);
+  };
+
+  const handleRestoreItems = (ids: string[]) => {
+    handleBulkPatch(ids.map(id => ({ id, patch: { deletedAt: undefined } })));
+  };
+
+  // Purges whatever has outlived the retention period: on startup, when the setting changes and
+  // periodically after that, so a tab left open keeps emptying the trash. The timer calls through
+  // a ref to see the current items.
+  const purgeExpiredRef = useRef(() => {});
+  purgeExpiredRef.current = () => {
+    const cutoff = Date.now() - settings.trashRetentionDays * DAY_MS;
+    const expired = mediaItems.filter(item => item.deletedAt && item.deletedAt < cutoff).map(item => item.id);
+    if (expired.length > 0) handleDeleteItems(expired).catch(err => console.error("Trash Purge Error", err));
+  };
+  useEffect(() => {
+    if (!isDBLoaded) return;
+    purgeExpiredRef.current();
+    const timer = window.setInterval(() => purgeExpiredRef.current(), TRASH_PURGE_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isDBLoaded, settings.trashRetentionDays]);
+
+  const updateAlbum = (id: string, update: (album: Album) => Album) => {
+    const album = albums.find(a => a.id === id);
+    if (!album) return;
+    const next = { ...update(album), updatedAt: Date.now() };
+    saveAlbum(next).catch(console.error);
+    setAlbums(prev => prev.map(a => a.id === id ? next : a));
+  };
+
+  const handleCreateAlbum = (name: string, itemIds: string[] = []) => {
+    const now = Date.now();
+    const album: Album = {
+      id: Math.random().toString(36).substr(2, 9),
+      name,
+      itemIds,
+      createdAt: now,
+      updatedAt: now
+    };
+    saveAlbum(album).catch(console.error);
+    setAlbums(prev => [album, ...prev]);
+  };
+
+  const handleToggleAlbumItem = (albumId: string, itemId: string) => {
+    updateAlbum(albumId, album => album.itemIds.includes(itemId)
+      ? {
+          ...album,
+          itemIds: album.itemIds.filter(id => id !== itemId),
+          coverItemId: album.coverItemId === itemId ? undefined : album.coverItemId
+        }
+      : { ...album, itemIds: [...album.itemIds, itemId] });
+  };
+
+  // Outside an album this only adds; from inside one the items leave the album they came from.
+  const handleMoveToAlbum = (targetId: string, itemIds: string[]) => {
+    const moving = new Set(itemIds);
+    const sourceId = activeTab === 'albums' ? activeAlbumId : null;
+    updateAlbum(targetId, album => ({ ...album, itemIds: [...album.itemIds, ...itemIds.filter(id => !album.itemIds.includes(id))] }));
+    if (sourceId && sourceId !== targetId) {
+      updateAlbum(sourceId, album => ({
+        ...album,
+        itemIds: album.itemIds.filter(id => !moving.has(id)),
+        coverItemId: album.coverItemId && moving.has(album.coverItemId) ? undefined : album.coverItemId
+      }));
+    }
+    setSelectedIds(null);
+  };
+
+  const handleDeleteAlbum = async (id: string) => {
+    await dbDeleteAlbum(id);
+    setAlbums(prev => prev.filter(album => album.id !== id));
+    setActiveAlbumId(null);
+  };
+
+  const handleNewSmartAlbum = () => {
+    const now = Date.now();
+    setEditingSmartAlbum({
+      isNew: true,
+      album: {
+        id: Math.random().toString(36).substr(2, 9),
+        name: '',
+        query: searchQuery.trim(),
+        filters: { types: [], tags: [], extensions: [], favoritesOnly: false },
+        createdAt: now,
+        updatedAt: now
+      }
+    });
+  };
+
+  const handleSaveSmartAlbum = (album: SmartAlbum) => {
+    saveSmartAlbum(album).catch(console.error);
+    setSmartAlbums(prev => prev.some(a => a.id === album.id) ? prev.map(a => a.id === album.id ? album : a) : [...prev, album]);
+    setEditingSmartAlbum(null);
+    setActiveSmartAlbumId(album.id);
+    setActiveTab('smart-album');
+  };
+
+  const handleDeleteSmartAlbum = async (id: string) => {
+    await dbDeleteSmartAlbum(id);
+    setSmartAlbums(prev => prev.filter(album => album.id !== id));
+    setEditingSmartAlbum(null);
+    if (activeSmartAlbumId === id) {
+      setActiveSmartAlbumId(null);
+      setActiveTab('library');
     }
-    setMediaItems(prev => prev.filter(item => item.id !== id));
-    setSelectedItem(null);
   };
 
-  const handleUpload = (newItems: MediaItem[]) => {
-    const processed = newItems.map(item => {
-      if (item.url instanceof Blob) {
-        const url = URL.createObjectURL(item.url);
-        objectUrlsRef.current.add(url);
-        return { ...item, url };
+  // The queue has already stored the item, and added it to its folder's album; replacements
+  // reuse the old id, so album membership carries over as well.
+  const handleUploaded = (item: MediaItem, replacedId?: string, album?: Album) => {
+    const added = withObjectUrl(item);
+    setMediaItems(prev => {
+      const replaced = prev.find(existing => existing.id === replacedId);
+      if (replaced) {
+        revokeObjectUrl(replaced.url);
+        revokeObjectUrl(replaced.thumbnailUrl);
       }
-      return item;
+      return [added, ...prev.filter(existing => existing.id !== replacedId)];
     });
-    setMediaItems(prev => [...processed, ...prev]);
+    refreshSearchIndex(indexItems([item]));
+    if (album) setAlbums(prev => prev.map(a => a.id === album.id ? album : a));
   };
 
+  // Only the analysed fields change, so the in-memory item keeps its object URLs.
+  // Tags are merged rather than replaced, in case one was added here after the queue wrote its result.
+  const handleAnalyzed = (item: MediaItem, patch: MediaPatch) => {
+    const merge = (existing: MediaItem): MediaItem => ({ ...existing, ...patch, tags: addTags(existing.tags, patch.tags || []) });
+    setMediaItems(prev => prev.map(existing => existing.id === item.id ? merge(existing) : existing));
+    setSelectedItem(prev => prev?.id === item.id ? merge(prev) : prev);
+    refreshSearchIndex(indexItems([item]));
+  };
+
+  // Each top-level folder becomes an album, reusing one with the same name, and the folders
+  // nested below it become tags, so an export folder lands organised the way it was on disk.
+  const handleIngest = async (files: IngestedFile[]) => {
+    if (files.length === 0) return;
+    const now = Date.now();
+    const albumIds = new Map<string, string>();
+    const created: Album[] = [];
+    files.forEach(({ folders: [name] }) => {
+      if (!name || albumIds.has(name)) return;
+      const existing = albums.find(album => album.name.toLowerCase() === name.toLowerCase());
+      if (existing) {
+        albumIds.set(name, existing.id);
+        return;
+      }
+      const album: Album = { id: Math.random().toString(36).substr(2, 9), name, itemIds: [], createdAt: now, updatedAt: now };
+      created.push(album);
+      albumIds.set(name, album.id);
+    });
+    // Saved before queueing so the queue always finds the album it adds items to.
+    await Promise.all(created.map(saveAlbum));
+    if (created.length > 0) setAlbums(prev => [...created, ...prev]);
+    await enqueueFiles(files.map(({ file, folders }) => ({
+      file,
+      albumId: folders[0] ? albumIds.get(folders[0]) : undefined,
+      tags: folders.slice(1)
+    })));
+  };
+
+  // Files can be dropped anywhere in the window. dragenter and dragleave fire for every child
+  // element crossed, so the overlay tracks how deep the pointer is rather than the last event.
+  const dragDepthRef = useRef(0);
+
+  useEffect(() => {
+    const handleDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      e.preventDefault();
+      dragDepthRef.current += 1;
+      setIsDraggingFiles(true);
+    };
+    const handleDragOver = (e: DragEvent) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      e.preventDefault();
+      e.dataTransfer!.dropEffect = 'copy';
+    };
+    const handleDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+      if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+    };
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e.dataTransfer)) return;
+      e.preventDefault();
+      dragDepthRef.current = 0;
+      setIsDraggingFiles(false);
+      filesFromDataTransfer(e.dataTransfer!)
+        .then(handleIngest)
+        .catch(err => console.error("Drop Error", err));
+    };
+    // Pasting into a text field keeps its normal behaviour; anywhere else, pasted images
+    // (screenshots, mostly) go straight into the vault.
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA'].includes(target.tagName))) return;
+      if (!e.clipboardData || e.clipboardData.files.length === 0) return;
+      e.preventDefault();
+      handleIngest(filesFromClipboard(e.clipboardData)).catch(err => console.error("Paste Error", err));
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, [albums]);
+
+  useEffect(() => subscribeUploads(setUploads), []);
+
+  useEffect(() => {
+    configureUploads({ speedLimit: settings.uploadSpeedLimit, wifiOnly: settings.wifiOnly, autoTagging: settings.autoTagging });
+  }, [settings.uploadSpeedLimit, settings.wifiOnly, settings.autoTagging]);
+
+  useEffect(() => {
+    configureAnalysis(settings);
+  }, [settings.analysisProvider, settings.analysisModel, settings.analysisBaseUrl, settings.analysisApiKey, settings.analysisEmbeddingModel]);
+
+  // Keeps vectors in step with item text and the chosen provider; switching provider re-embeds
+  // the vault with its model.
+  useEffect(() => {
+    if (!isDBLoaded) return;
+    const timer = setTimeout(() => {
+      syncEmbeddings(mediaItems)
+        .catch(err => console.error("Embedding Error", err))
+        .finally(() => setEmbeddingVersion(v => v + 1));
+    }, EMBEDDING_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [mediaItems, isDBLoaded, settings.analysisProvider, settings.analysisBaseUrl, settings.analysisApiKey, settings.analysisEmbeddingModel]);
+
+  useEffect(() => subscribeAnalysis(setAnalysisQueue), []);
+
+  useEffect(() => {
+    configureAnalysisQueue(settings);
+  }, [settings.analysisConcurrency, settings.analysisRequestsPerMinute]);
+
+  // Resumes whatever was still queued when the page last closed.
+  useEffect(() => {
+    if (!isDBLoaded) return;
+    startUploads(handleUploaded).catch(err => console.error("Upload Queue Error", err));
+    startAnalysisQueue(handleAnalyzed).catch(err => console.error("Analysis Queue Error", err));
+  }, [isDBLoaded]);
+
+  const handleImported = (result: ImportResult) => {
+    const replaced = new Set(result.replacedIds);
+    mediaItems.filter(item => replaced.has(item.id)).forEach(item => {
+      revokeObjectUrl(item.url);
+      revokeObjectUrl(item.thumbnailUrl);
+    });
+    setMediaItems(prev => [...result.added.map(withObjectUrl), ...prev.filter(item => !replaced.has(item.id))]);
+    setAlbums(prev => {
+      const imported = new Map(result.albums.map(album => [album.id, album]));
+      return [...result.albums.filter(album => !prev.some(a => a.id === album.id)), ...prev.map(a => imported.get(a.id) || a)];
+    });
+    refreshSearchIndex(indexItems(result.added));
+  };
+
+  const uploadProgress = getUploadProgress(uploads);
+  const uploadsNeedAttention = uploads.entries.some(entry => entry.status === 'duplicate' || entry.status === 'failed');
+
   // For Unlimited, we show a dynamic progress based on relative growth or just a full-styled bar
   const displayPercentage = Math.min(100, (settings.storageUsage / 10) * 100); 
 
+  const liveItems = useMemo(() => mediaItems.filter(item => !item.deletedAt), [mediaItems]);
+  const trashedItems = useMemo(() => mediaItems.filter(item => item.deletedAt), [mediaItems]);
+
+  const curations = useMemo(() => activeTab === 'for-you' ? buildCurations(liveItems) : [], [activeTab, liveItems]);
+
   const filteredItems = useMemo(() => {
-    let items = [...mediaItems];
+    let items = activeTab === 'trash' ? [...trashedItems] : [...liveItems];
     if (activeTab === 'favorites') items = items.filter(i => i.isFavorite);
+    if (activeTab === 'for-you') {
+      const card = curations.find(c => c.id === activeCardId);
+      const ids = new Set(card?.itemIds);
+      items = items.filter(i => ids.has(i.id));
+    }
     if (activeTab === 'videos') items = items.filter(i => i.type === MediaType.VIDEO);
+    if (activeTab === 'smart-album') {
+      const smartAlbum = smartAlbums.find(a => a.id === activeSmartAlbumId);
+      items = smartAlbum ? searchItems(items, smartAlbumQuery(smartAlbum)).map(result => result.item) : [];
+    }
     
-    if (searchQuery) {
-      items = items.filter(i => 
-        i.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
-        (i.tags && i.tags.some(t => t.toLowerCase().includes(searchQuery.toLowerCase())))
-      );
+    if (searchQuery.trim()) {
+      items = searchItems(items, searchQuery).map(result => result.item);
     }
     return items.sort((a, b) => b.createdAt - a.createdAt);
-  }, [mediaItems, activeTab, searchQuery]);
+  }, [liveItems, trashedItems, activeTab, searchQuery, searchIndexVersion, smartAlbums, activeSmartAlbumId, curations, activeCardId]);
+
+  const allTags = useMemo(() => collectTags(liveItems), [liveItems]);
+
+  const analysisJobs = useMemo(() => new Map(analysisQueue.jobs.map(job => [job.id, job])), [analysisQueue]);
+  const failedAnalysisCount = analysisQueue.jobs.filter(job => job.status === 'failed').length;
+  const unanalyzedItems = useMemo(
+    () => liveItems.filter(item => isUnanalyzed(item) && canReanalyze(item) && !analysisJobs.has(item.id)),
+    [liveItems, analysisJobs]
+  );
+
+  const canSelect = ['library', 'videos', 'favorites', 'smart-album', 'trash'].includes(activeTab) || (activeTab === 'albums' && !!activeAlbumId) || (activeTab === 'for-you' && !!activeCardId);
+
+  useEffect(() => {
+    setSelectedIds(null);
+  }, [activeTab, activeSmartAlbumId, activeAlbumId, activeCardId]);
+
+  useEffect(() => {
+    if (activeTab !== 'for-you') setActiveCardId(null);
+  }, [activeTab]);
+
+  // Captions are cached per card, so revisiting the tab only asks about new or changed cards.
+  useEffect(() => {
+    if (activeTab !== 'for-you' || !settings.forYouCaptions) return;
+    let cancelled = false;
+    captionCards(curations, liveItems, (id, caption) => setCaptions(prev => ({ ...prev, [id]: caption })), () => cancelled)
+      .catch(err => console.error("Caption Error", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTab, curations, settings.forYouCaptions]);
+
+  useEffect(() => {
+    if (!selectedIds) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !selectedItem && !showBulkEdit && !batchStatus) setSelectedIds(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedIds, selectedItem, showBulkEdit, batchStatus]);
+
+  // Opening an item from a grid or results counts as a view, one of the signals For You picks
+  // highlights by. Stepping through the viewer, slideshows and Back/Forward do not.
+  const handleOpenItem = (item: MediaItem) => {
+    if (item.deletedAt) return setSelectedItem(item);
+    const patch = { viewCount: (item.viewCount || 0) + 1 };
+    handlePatchItem(item.id, patch);
+    setSelectedItem({ ...item, ...patch });
+  };
+
+  const selectedItems = useMemo(
+    () => selectedIds ? mediaItems.filter(item => selectedIds.has(item.id)) : [],
+    [mediaItems, selectedIds]
+  );
+
+  const handleBatchFavorite = () => {
+    const favorite = !selectedItems.every(item => item.isFavorite);
+    handleBulkPatch(selectedItems
+      .filter(item => item.isFavorite !== favorite)
+      .map(item => ({ id: item.id, patch: { isFavorite: favorite, favoritedAt: favorite ? Date.now() : undefined } })));
+  };
+
+  const handleBatchDelete = async () => {
+    const ids = selectedItems.map(item => item.id);
+    if (activeTab === 'trash') {
+      if (!window.confirm(`Delete ${ids.length} items forever? This cannot be undone.`)) return;
+      await handleDeleteItems(ids);
+    } else {
+      if (!window.confirm(`Move ${ids.length} items to the trash? They can be restored for ${settings.trashRetentionDays} days.`)) return;
+      handleTrashItems(ids);
+    }
+    setSelectedIds(null);
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!window.confirm(`Delete all ${trashedItems.length} items in the trash forever? This cannot be undone.`)) return;
+    await handleDeleteItems(trashedItems.map(item => item.id));
+  };
+
+  const handleBatchDownload = async () => {
+    const items = selectedItems;
+    setBatchStatus('Packing archive...');
+    try {
+      const archive = await archiveItems(items, (done, total) => setBatchStatus(`Packing ${done} / ${total}`));
+      downloadBlob(archive, `vault-${new Date().toISOString().slice(0, 10)}-${items.length}-items.zip`);
+    } catch (err) {
+      console.error("Archive Error", err);
+    } finally {
+      setBatchStatus(null);
+    }
+  };
+
+  // Progress shows in Settings and on each item's detail view; the queue carries on in the background.
+  const handleBatchReanalyze = () => {
+    const items = selectedItems.filter(canReanalyze);
+    if (items.length === 0) {
+      window.alert('None of the selected items have an original to analyze.');
+      return;
+    }
+    queueAnalysis(items.map(item => item.id)).catch(err => console.error("Analysis Queue Error", err));
+    setSelectedIds(null);
+  };
+
+  const handleAnalyzeUntagged = () => {
+    queueAnalysis(unanalyzedItems.map(item => item.id)).catch(err => console.error("Analysis Queue Error", err));
+  };
+
+  const activeSmartAlbum = smartAlbums.find(a => a.id === activeSmartAlbumId);
+
+  const isSemanticSearch = activeTab === 'search' && searchMode === 'semantic' && !similarTo && !!searchQuery.trim();
+
+  const searchResults = useMemo(
+    () => activeTab === 'search' && searchQuery.trim() && searchMode === 'keyword' ? searchItems(liveItems, searchQuery) : [],
+    [liveItems, activeTab, searchQuery, searchMode, searchIndexVersion]
+  );
+
+  useEffect(() => {
+    if (!isSemanticSearch) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      semanticSearch(searchQuery, liveItems)
+        .then(results => {
+          if (!cancelled) setSemanticResults({ results, error: null });
+        })
+        .catch(err => {
+          console.error("Semantic Search Error", err);
+          if (!cancelled) setSemanticResults({ results: [], error: err instanceof Error ? err.message : String(err) });
+        });
+    }, SEMANTIC_SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isSemanticSearch, searchQuery, liveItems, embeddingVersion]);
+
+  const similarResults = useMemo(
+    () => similarTo ? findSimilar(similarTo, liveItems) : null,
+    [similarTo, liveItems, embeddingVersion]
+  );
+
+  const embeddedCount = useMemo(
+    () => activeTab === 'search' ? countEmbedded(liveItems) : 0,
+    [activeTab, liveItems, embeddingVersion]
+  );
+
+  const semanticNote = semanticResults.error
+    ? `Search by meaning failed: ${semanticResults.error}`
+    : embeddedCount < liveItems.length ? `${embeddedCount} of ${liveItems.length} items indexed so far` : undefined;
+
+  useEffect(() => {
+    if (activeTab !== 'search') setSimilarTo(null);
+  }, [activeTab]);
+
+  const handleFindSimilar = (item: MediaItem) => {
+    setSimilarTo(item);
+    setSelectedItem(null);
+    setActiveTab('search');
+  };
+
+  // The viewer steps through items in the order the current view shows them: ranked results on
+  // the search tab, the grid's timeline everywhere else.
+  const viewerItems = useMemo(() => {
+    if (activeTab === 'search') {
+      const results = similarTo ? similarResults || [] : searchMode === 'semantic' ? semanticResults.results : searchResults;
+      return results.map(result => result.item);
+    }
+    let items = activeTab === 'map' ? liveItems : filteredItems;
+    if (activeTab === 'albums') {
+      const members = new Set(albums.find(a => a.id === activeAlbumId)?.itemIds);
+      items = items.filter(i => members.has(i.id));
+    }
+    const dateOf = (item: MediaItem) => settings.timelineDate === 'captured' ? getCaptureDate(item) : item.createdAt;
+    return [...items].sort((a, b) => dateOf(b) - dateOf(a));
+  }, [activeTab, similarTo, similarResults, searchMode, semanticResults, searchResults, liveItems, filteredItems, albums, activeAlbumId, settings.timelineDate]);
+
+  const viewerIndex = selectedItem ? viewerItems.findIndex(i => i.id === selectedItem.id) : -1;
+
+  const findItem = (id: string | null) => id ? mediaItems.find(i => i.id === id) || null : null;
+
+  useEffect(() => {
+    if (!isDBLoaded) return;
+    setSimilarTo(findItem(initialRoute.similarToId));
+    setSelectedItem(findItem(initialRoute.itemId));
+  }, [isDBLoaded]);
+
+  const currentPath = formatRoute({
+    tab: activeTab,
+    albumId: activeAlbumId,
+    smartAlbumId: activeSmartAlbumId,
+    cardId: activeCardId,
+    query: searchQuery,
+    searchMode,
+    similarToId: similarTo?.id || null,
+    itemId: selectedItem?.id || null
+  });
+  const hasOverlay = showUpload || showUploads || showBackup || showDuplicates || showBulkEdit || !!editingSmartAlbum || !!editingItem;
+  // Mirrors the current history entry, so the address bar is only touched when the view changes.
+  const historyRef = useRef<HistoryEntry>(readHistoryEntry(window.history.state, window.location.pathname + window.location.search));
+  const historySyncedRef = useRef(false);
+
+  // Waits for the vault so a deep-linked item is not dropped from the URL before it can open.
+  useEffect(() => {
+    if (!isDBLoaded) return;
+    const wanted = { path: currentPath, overlay: hasOverlay };
+    const current = historyRef.current;
+    let action = historyAction(current, wanted);
+    // The first write only tidies up the address the app was opened with.
+    if (!historySyncedRef.current && action !== 'none') action = 'replace';
+    historySyncedRef.current = true;
+    if (action === 'none') return;
+    if (action === 'back') {
+      // Corrected by the popstate handler once the browser has gone back.
+      historyRef.current = { ...wanted, previous: null };
+      window.history.back();
+      return;
+    }
+    const entry: HistoryEntry = { ...wanted, previous: action === 'push' ? { path: current.path, overlay: current.overlay } : current.previous };
+    historyRef.current = entry;
+    if (action === 'push') window.history.pushState(entry, '', entry.path);
+    else window.history.replaceState(entry, '', entry.path);
+  }, [isDBLoaded, currentPath, hasOverlay]);
+
+  useEffect(() => {
+    const handlePopState = (e: PopStateEvent) => {
+      historyRef.current = readHistoryEntry(e.state, window.location.pathname + window.location.search);
+      const route = parseRoute(window.location);
+      // The viewer opens over whichever view was showing, so only the item changes for it.
+      if (!route.itemId) {
+        setActiveTab(route.tab);
+        setActiveAlbumId(route.albumId);
+        setActiveSmartAlbumId(route.smartAlbumId);
+        setActiveCardId(route.cardId);
+        setSearchQuery(route.query);
+        setSearchMode(route.searchMode);
+        setSimilarTo(findItem(route.similarToId));
+      }
+      setSelectedItem(findItem(route.itemId));
+      // Dialogs cannot be reopened from a URL, so Back and Forward close them.
+      setShowUpload(false);
+      setShowUploads(false);
+      setShowBackup(false);
+      setShowDuplicates(false);
+      setShowBulkEdit(false);
+      setEditingSmartAlbum(null);
+      setEditingItem(null);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [mediaItems]);
 
   const getHeaderTitle = () => {
     if (activeTab === 'library') return 'PICTURE';
-    if (activeTab === 'for-you') return 'GALLERY';
+    if (activeTab === 'for-you') return 'FOR YOU';
     if (activeTab === 'videos') return 'VIDEO';
+    if (activeTab === 'albums') return albums.find(a => a.id === activeAlbumId) ? 'ALBUM' : 'ALBUMS';
+    if (activeTab === 'smart-album') return activeSmartAlbum?.name || 'SMART ALBUM';
+    if (activeTab === 'map') return 'PLACES';
     return activeTab.replace('-', ' ');
   };
 
@@ -155,6 +877,32 @@ const App: React.FC = () => {
                </div>
                <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Unlimited Vault</span>
             </div>
+            {canSelect && filteredItems.length > 0 && (
+              <button
+                onClick={() => setSelectedIds(prev => prev ? null : new Set())}
+                className={`h-12 px-4 rounded-2xl font-black uppercase tracking-widest text-[10px] transition-all active:scale-90 ${selectedIds ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/30' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}
+              >
+                {selectedIds ? 'Done' : 'Select'}
+              </button>
+            )}
+            {uploads.entries.length > 0 && (
+              <button
+                onClick={() => setShowUploads(true)}
+                title={uploadProgress.eta || uploads.blockedReason || 'Uploads'}
+                className="relative w-12 h-12 rounded-2xl bg-slate-100 dark:bg-slate-800 flex items-center justify-center text-slate-700 dark:text-white transition-all active:scale-90"
+              >
+                <svg className="absolute inset-1.5 w-9 h-9 -rotate-90" viewBox="0 0 36 36">
+                  <circle cx="18" cy="18" r="15" fill="none" strokeWidth="3" className="stroke-slate-200 dark:stroke-slate-700" />
+                  <circle
+                    cx="18" cy="18" r="15" fill="none" strokeWidth="3" strokeLinecap="round"
+                    className={`${uploads.blockedReason ? 'stroke-amber-500' : 'stroke-blue-600'} transition-all duration-300`}
+                    strokeDasharray={`${(uploadProgress.percent / 100) * 94.25} 94.25`}
+                  />
+                </svg>
+                <span className="relative text-[10px] font-black">{uploadProgress.count || uploads.entries.length}</span>
+                {uploadsNeedAttention && <span className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-amber-500 ring-2 ring-white dark:ring-slate-900" />}
+              </button>
+            )}
             <button 
               onClick={() => setShowUpload(true)}
               className="w-12 h-12 rounded-2xl bg-slate-900 dark:bg-white flex items-center justify-center text-white dark:text-slate-900 shadow-xl shadow-slate-900/10 dark:shadow-white/10 hover:scale-105 transition-all active:scale-90 group"
@@ -165,23 +913,53 @@ const App: React.FC = () => {
         </div>
       </header>
 
-      {(activeTab === 'library' || activeTab === 'search' || activeTab === 'videos' || activeTab === 'for-you') && (
+      {(activeTab === 'library' || activeTab === 'search' || activeTab === 'videos') && (
         <div className="px-6 py-4 max-w-7xl mx-auto w-full animate-in fade-in slide-in-from-top-2 duration-700">
           <div className="relative group">
             <IconSearch className="absolute left-5 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400 group-focus-within:text-blue-500 transition-colors" />
             <input 
               type="text"
-              placeholder="Search unlimited vault..."
-              className="w-full pl-14 pr-6 py-4 rounded-[1.25rem] bg-slate-100 dark:bg-slate-800/50 border-2 border-transparent focus:border-blue-500/20 text-slate-900 dark:text-white placeholder-slate-400/80 focus:ring-4 focus:ring-blue-500/5 outline-none transition-all font-medium"
+              placeholder="Search unlimited vault... try tag:beach type:video"
+              className={`w-full pl-14 ${searchQuery.trim() ? 'pr-36' : 'pr-6'} py-4 rounded-[1.25rem] bg-slate-100 dark:bg-slate-800/50 border-2 border-transparent focus:border-blue-500/20 text-slate-900 dark:text-white placeholder-slate-400/80 focus:ring-4 focus:ring-blue-500/5 outline-none transition-all font-medium`}
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                setSimilarTo(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && searchQuery.trim()) setActiveTab('search');
+              }}
             />
+            {searchQuery.trim() && (
+              <button
+                onClick={handleNewSmartAlbum}
+                className="absolute right-3 top-1/2 -translate-y-1/2 px-4 py-2 rounded-xl bg-white dark:bg-slate-900 text-[10px] font-black text-blue-600 uppercase tracking-widest shadow-sm hover:shadow-md transition-all active:scale-95"
+              >
+                Save Search
+              </button>
+            )}
           </div>
+          {activeTab === 'search' && (
+            <div className="flex gap-1.5 p-1 mt-3 w-fit bg-slate-100 dark:bg-slate-800/50 rounded-xl">
+              {SEARCH_MODE_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => {
+                    setSearchMode(option.id);
+                    setSimilarTo(null);
+                  }}
+                  className={`px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${searchMode === option.id && !similarTo ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' : 'text-slate-400'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
-      <main className="flex-grow p-4 pb-28 md:p-8 md:pb-28 max-w-7xl mx-auto w-full">
-        {!isDBLoaded ? (
+      <main className={`flex-grow p-4 md:p-8 max-w-7xl mx-auto w-full ${smartAlbums.length > 0 ? 'pb-40 md:pb-40' : 'pb-28 md:pb-28'}`}>
+        {!isDBLoaded && mediaItems.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-40 animate-pulse">
             <div className="w-12 h-12 rounded-full border-4 border-blue-500/20 border-t-blue-500 animate-spin mb-4" />
             <p className="text-slate-400 font-black uppercase text-[10px] tracking-widest">Opening Storage...</p>
@@ -208,6 +986,23 @@ const App: React.FC = () => {
                      <div className={`w-5 h-5 bg-white rounded-full shadow-md transition-transform duration-500 ease-spring ${settings.theme === 'dark' ? 'translate-x-6' : ''}`} />
                    </button>
                  </div>
+                 <div className="p-6 flex items-center justify-between">
+                   <div className="flex items-center gap-5">
+                     <div className="w-12 h-12 rounded-2xl bg-sky-50 dark:bg-sky-900/20 flex items-center justify-center text-sky-600 dark:text-sky-400 shadow-inner">
+                       <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"/></svg>
+                     </div>
+                     <div>
+                       <p className="font-black text-slate-900 dark:text-white text-lg tracking-tight">Timeline by Capture Date</p>
+                       <p className="text-sm text-slate-500 dark:text-slate-400 font-medium">{settings.timelineDate === 'captured' ? 'When the photo was taken' : 'When it was uploaded'}</p>
+                     </div>
+                   </div>
+                   <button 
+                    onClick={() => setSettings(s => ({...s, timelineDate: s.timelineDate === 'captured' ? 'uploaded' : 'captured'}))}
+                    className={`w-14 h-8 rounded-full p-1.5 transition-all duration-500 ${settings.timelineDate === 'captured' ? 'bg-blue-600 shadow-lg shadow-blue-500/40' : 'bg-slate-200'}`}
+                   >
+                     <div className={`w-5 h-5 bg-white rounded-full shadow-md transition-transform duration-500 ${settings.timelineDate === 'captured' ? 'translate-x-6' : ''}`} />
+                   </button>
+                 </div>
                </div>
              </section>
 
@@ -231,6 +1026,272 @@ const App: React.FC = () => {
                      <div className={`w-5 h-5 bg-white rounded-full shadow-md transition-transform duration-500 ${settings.autoTagging ? 'translate-x-6' : ''}`} />
                    </button>
                  </div>
+                 <div className="p-6 flex items-center justify-between">
+                   <div className="flex items-center gap-5">
+                     <div className="w-12 h-12 rounded-2xl bg-pink-50 dark:bg-pink-900/20 flex items-center justify-center text-pink-600 dark:text-pink-400 shadow-inner">
+                       <IconHeart className="w-6 h-6" />
+                     </div>
+                     <div>
+                       <p className="font-black text-slate-900 dark:text-white text-lg tracking-tight">For You Captions</p>
+                       <p className="text-sm text-slate-500 dark:text-slate-400 font-medium">Written by the provider; not on-device</p>
+                     </div>
+                   </div>
+                   <button 
+                    onClick={() => setSettings(s => ({...s, forYouCaptions: !s.forYouCaptions}))}
+                    className={`w-14 h-8 rounded-full p-1.5 transition-all duration-500 ${settings.forYouCaptions ? 'bg-pink-600 shadow-lg shadow-pink-500/40' : 'bg-slate-200'}`}
+                   >
+                     <div className={`w-5 h-5 bg-white rounded-full shadow-md transition-transform duration-500 ${settings.forYouCaptions ? 'translate-x-6' : ''}`} />
+                   </button>
+                 </div>
+                 <div className="p-6 space-y-5">
+                   <div className="flex items-center justify-between gap-4">
+                     <div className="flex items-center gap-5">
+                       <div className="w-12 h-12 rounded-2xl bg-indigo-50 dark:bg-indigo-900/20 flex items-center justify-center text-indigo-600 dark:text-indigo-400 shadow-inner">
+                         <IconSettings className="w-6 h-6" />
+                       </div>
+                       <div>
+                         <p className="font-black text-slate-900 dark:text-white text-lg tracking-tight">Provider</p>
+                         <p className="text-sm text-slate-500 dark:text-slate-400 font-medium">
+                           {describeAnalysisFallback(settings) || (settings.analysisProvider === 'local' ? 'File names, EXIF and colors, offline' : `Using ${settings.analysisModel.trim() || ANALYSIS_PROVIDERS[settings.analysisProvider].defaultModel}`)}
+                         </p>
+                       </div>
+                     </div>
+                     <div className="flex gap-1.5 p-1 bg-slate-100 dark:bg-slate-900 rounded-xl">
+                       {ANALYSIS_PROVIDER_OPTIONS.map(option => (
+                         <button
+                           key={option.id}
+                           onClick={() => setSettings(s => s.analysisProvider === option.id ? s : ({...s, analysisProvider: option.id, analysisModel: '', analysisEmbeddingModel: ''}))}
+                           className={`px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${settings.analysisProvider === option.id ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' : 'text-slate-400'}`}
+                         >
+                           {option.label}
+                         </button>
+                       ))}
+                     </div>
+                   </div>
+                   {settings.analysisProvider !== 'local' && (
+                     <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                       {settings.analysisProvider === 'openai' && (
+                         <input
+                           className={`${settingsFieldClass} md:col-span-2`}
+                           value={settings.analysisBaseUrl}
+                           onChange={(e) => setSettings(s => ({...s, analysisBaseUrl: e.target.value}))}
+                           placeholder="Server URL, e.g. http://localhost:11434/v1"
+                           spellCheck={false}
+                         />
+                       )}
+                       <input
+                         className={settingsFieldClass}
+                         value={settings.analysisModel}
+                         onChange={(e) => setSettings(s => ({...s, analysisModel: e.target.value}))}
+                         placeholder={`Model (${ANALYSIS_PROVIDERS[settings.analysisProvider].defaultModel})`}
+                         spellCheck={false}
+                       />
+                       <input
+                         className={settingsFieldClass}
+                         value={settings.analysisEmbeddingModel}
+                         onChange={(e) => setSettings(s => ({...s, analysisEmbeddingModel: e.target.value}))}
+                         placeholder={`Embedding model (${ANALYSIS_PROVIDERS[settings.analysisProvider].defaultEmbeddingModel})`}
+                         spellCheck={false}
+                       />
+                       <input
+                         type="password"
+                         className={`${settingsFieldClass} md:col-span-2`}
+                         value={settings.analysisApiKey}
+                         onChange={(e) => setSettings(s => ({...s, analysisApiKey: e.target.value}))}
+                         placeholder={settings.analysisProvider === 'gemini' ? 'API key (optional)' : 'API key, if the server needs one'}
+                         autoComplete="off"
+                       />
+                     </div>
+                   )}
+                 </div>
+                 <div className="p-6 flex items-center justify-between gap-4">
+                   <div className="flex items-center gap-5">
+                     <div className="w-12 h-12 rounded-2xl bg-purple-50 dark:bg-purple-900/20 flex items-center justify-center text-purple-600 dark:text-purple-400 shadow-inner">
+                       <IconSearch className="w-6 h-6" />
+                     </div>
+                     <div>
+                       <p className="font-black text-slate-900 dark:text-white text-lg tracking-tight">Analysis Queue</p>
+                       <p className="text-sm text-slate-500 dark:text-slate-400 font-medium">
+                         {analysisQueue.jobs.length === 0
+                           ? `${unanalyzedItems.length} items not analyzed yet`
+                           : `${analysisQueue.jobs.length - failedAnalysisCount} pending · ${failedAnalysisCount} failed`}
+                       </p>
+                     </div>
+                   </div>
+                   <div className="flex gap-2">
+                     {failedAnalysisCount > 0 && (
+                       <button
+                         onClick={() => retryFailedAnalysis().catch(err => console.error("Analysis Queue Error", err))}
+                         className="px-4 py-2 rounded-xl bg-slate-100 dark:bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300"
+                       >
+                         Retry Failed
+                       </button>
+                     )}
+                     <button
+                       onClick={handleAnalyzeUntagged}
+                       disabled={unanalyzedItems.length === 0}
+                       className="px-4 py-2 rounded-xl bg-purple-600 text-white text-[10px] font-black uppercase tracking-widest shadow-lg shadow-purple-500/30 disabled:opacity-40 disabled:shadow-none"
+                     >
+                       Analyze Untagged
+                     </button>
+                   </div>
+                 </div>
+                 <div className="p-6 flex items-center justify-between gap-4">
+                   <div>
+                     <p className="font-black text-slate-900 dark:text-white text-lg tracking-tight">Parallel Requests</p>
+                     <p className="text-sm text-slate-500 dark:text-slate-400 font-medium">Items analyzed at once</p>
+                   </div>
+                   <div className="flex gap-1.5 p-1 bg-slate-100 dark:bg-slate-900 rounded-xl">
+                     {ANALYSIS_CONCURRENCY_OPTIONS.map(count => (
+                       <button
+                         key={count}
+                         onClick={() => setSettings(s => ({...s, analysisConcurrency: count}))}
+                         className={`px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${settings.analysisConcurrency === count ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' : 'text-slate-400'}`}
+                       >
+                         {count}
+                       </button>
+                     ))}
+                   </div>
+                 </div>
+                 <div className="p-6 flex items-center justify-between gap-4">
+                   <div>
+                     <p className="font-black text-slate-900 dark:text-white text-lg tracking-tight">Requests per Minute</p>
+                     <p className="text-sm text-slate-500 dark:text-slate-400 font-medium">Keeps remote providers under their rate limit</p>
+                   </div>
+                   <div className="flex gap-1.5 p-1 bg-slate-100 dark:bg-slate-900 rounded-xl">
+                     {ANALYSIS_RATE_OPTIONS.map(rate => (
+                       <button
+                         key={rate}
+                         onClick={() => setSettings(s => ({...s, analysisRequestsPerMinute: rate}))}
+                         className={`px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${settings.analysisRequestsPerMinute === rate ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' : 'text-slate-400'}`}
+                       >
+                         {rate === 0 ? 'Max' : rate}
+                       </button>
+                     ))}
+                   </div>
+                 </div>
+                 <div className="p-6 flex items-center justify-between gap-4">
+                   <div>
+                     <p className="font-black text-slate-900 dark:text-white text-lg tracking-tight">Usage</p>
+                     <p className="text-sm text-slate-500 dark:text-slate-400 font-medium">
+                       {analysisQueue.usage.requests.toLocaleString()} requests · {analysisQueue.usage.tokens.toLocaleString()} tokens since {new Date(analysisQueue.usage.since).toLocaleDateString()}
+                     </p>
+                   </div>
+                   <button
+                     onClick={resetAnalysisUsage}
+                     className="px-4 py-2 rounded-xl bg-slate-100 dark:bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300"
+                   >
+                     Reset
+                   </button>
+                 </div>
+                 <button onClick={() => setShowDuplicates(true)} className="w-full p-6 flex items-center justify-between text-left hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors">
+                   <div className="flex items-center gap-5">
+                     <div className="w-12 h-12 rounded-2xl bg-amber-50 dark:bg-amber-900/20 flex items-center justify-center text-amber-600 dark:text-amber-400 shadow-inner">
+                       <IconPhotos className="w-6 h-6" />
+                     </div>
+                     <div>
+                       <p className="font-black text-slate-900 dark:text-white text-lg tracking-tight">Find Duplicates</p>
+                       <p className="text-sm text-slate-500 dark:text-slate-400 font-medium">Identical files and similar photos</p>
+                     </div>
+                   </div>
+                 </button>
+               </div>
+             </section>
+
+             <section>
+               <h3 className="text-slate-400 font-black text-[10px] uppercase tracking-[0.2em] mb-6 opacity-60">Uploads</h3>
+               <div className="bg-white dark:bg-slate-800/50 rounded-[2rem] overflow-hidden divide-y divide-slate-100 dark:divide-slate-700/50 shadow-2xl shadow-slate-200/50 dark:shadow-none border border-slate-100 dark:border-slate-800">
+                 <div className="p-6 flex items-center justify-between gap-4">
+                   <div className="flex items-center gap-5">
+                     <div className="w-12 h-12 rounded-2xl bg-blue-50 dark:bg-blue-900/20 flex items-center justify-center text-blue-600 dark:text-blue-400 shadow-inner">
+                       <IconPlus className="w-6 h-6" />
+                     </div>
+                     <div>
+                       <p className="font-black text-slate-900 dark:text-white text-lg tracking-tight">Speed Limit</p>
+                       <p className="text-sm text-slate-500 dark:text-slate-400 font-medium">Shared by all uploads</p>
+                     </div>
+                   </div>
+                   <div className="flex gap-1.5 p-1 bg-slate-100 dark:bg-slate-900 rounded-xl">
+                     {UPLOAD_SPEED_OPTIONS.map(limit => (
+                       <button
+                         key={limit}
+                         onClick={() => setSettings(s => ({...s, uploadSpeedLimit: limit}))}
+                         className={`px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${settings.uploadSpeedLimit === limit ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' : 'text-slate-400'}`}
+                       >
+                         {limit === 'unlimited' ? 'Max' : limit.replace('mbps', 'M')}
+                       </button>
+                     ))}
+                   </div>
+                 </div>
+                 <div className="p-6 flex items-center justify-between">
+                   <div className="flex items-center gap-5">
+                     <div className="w-12 h-12 rounded-2xl bg-teal-50 dark:bg-teal-900/20 flex items-center justify-center text-teal-600 dark:text-teal-400 shadow-inner">
+                       <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M8.111 16.404a5.5 5.5 0 017.778 0M12 20h.01m-7.08-7.071c3.904-3.905 10.236-3.905 14.141 0M1.394 9.393c5.857-5.857 15.355-5.857 21.213 0"/></svg>
+                     </div>
+                     <div>
+                       <p className="font-black text-slate-900 dark:text-white text-lg tracking-tight">Wi-Fi Only</p>
+                       <p className="text-sm text-slate-500 dark:text-slate-400 font-medium">
+                         {canDetectNetworkType() ? 'Hold uploads on cellular data' : 'This browser cannot tell Wi-Fi from cellular'}
+                       </p>
+                     </div>
+                   </div>
+                   <button 
+                    onClick={() => setSettings(s => ({...s, wifiOnly: !s.wifiOnly}))}
+                    className={`w-14 h-8 rounded-full p-1.5 transition-all duration-500 ${settings.wifiOnly ? 'bg-teal-600 shadow-lg shadow-teal-500/40' : 'bg-slate-200'}`}
+                   >
+                     <div className={`w-5 h-5 bg-white rounded-full shadow-md transition-transform duration-500 ${settings.wifiOnly ? 'translate-x-6' : ''}`} />
+                   </button>
+                 </div>
+               </div>
+             </section>
+
+             <section>
+               <h3 className="text-slate-400 font-black text-[10px] uppercase tracking-[0.2em] mb-6 opacity-60">Trash</h3>
+               <div className="bg-white dark:bg-slate-800/50 rounded-[2rem] overflow-hidden divide-y divide-slate-100 dark:divide-slate-700/50 shadow-2xl shadow-slate-200/50 dark:shadow-none border border-slate-100 dark:border-slate-800">
+                 <div className="p-6 flex items-center justify-between gap-4">
+                   <div className="flex items-center gap-5">
+                     <div className="w-12 h-12 rounded-2xl bg-rose-50 dark:bg-rose-900/20 flex items-center justify-center text-rose-600 dark:text-rose-400 shadow-inner">
+                       <IconTrash className="w-6 h-6" />
+                     </div>
+                     <div>
+                       <p className="font-black text-slate-900 dark:text-white text-lg tracking-tight">Keep Deleted Items</p>
+                       <p className="text-sm text-slate-500 dark:text-slate-400 font-medium">Then remove them for good</p>
+                     </div>
+                   </div>
+                   <div className="flex gap-1.5 p-1 bg-slate-100 dark:bg-slate-900 rounded-xl">
+                     {TRASH_RETENTION_OPTIONS.map(days => (
+                       <button
+                         key={days}
+                         onClick={() => setSettings(s => ({...s, trashRetentionDays: days}))}
+                         className={`px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${settings.trashRetentionDays === days ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' : 'text-slate-400'}`}
+                       >
+                         {days}d
+                       </button>
+                     ))}
+                   </div>
+                 </div>
+                 <button onClick={() => setActiveTab('trash')} className="w-full p-6 flex items-center justify-between text-left hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors">
+                   <p className="font-black text-slate-900 dark:text-white tracking-tight">Open Trash</p>
+                   <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{trashedItems.length} items</span>
+                 </button>
+               </div>
+             </section>
+
+             <section>
+               <h3 className="text-slate-400 font-black text-[10px] uppercase tracking-[0.2em] mb-6 opacity-60">Backup</h3>
+               <div className="bg-white dark:bg-slate-800/50 rounded-[2rem] overflow-hidden shadow-2xl shadow-slate-200/50 dark:shadow-none border border-slate-100 dark:border-slate-800">
+                 <button onClick={() => setShowBackup(true)} className="w-full p-6 flex items-center justify-between text-left hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors">
+                   <div className="flex items-center gap-5">
+                     <div className="w-12 h-12 rounded-2xl bg-emerald-50 dark:bg-emerald-900/20 flex items-center justify-center text-emerald-600 dark:text-emerald-400 shadow-inner">
+                       <IconDownload className="w-6 h-6" />
+                     </div>
+                     <div>
+                       <p className="font-black text-slate-900 dark:text-white text-lg tracking-tight">Export & Import</p>
+                       <p className="text-sm text-slate-500 dark:text-slate-400 font-medium">Move your vault between machines</p>
+                     </div>
+                   </div>
+                   <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{mediaItems.length} items</span>
+                 </button>
                </div>
              </section>
 
@@ -261,18 +1322,150 @@ const App: React.FC = () => {
                </div>
              </section>
            </div>
+        ) : activeTab === 'search' ? (
+          similarTo ? (
+            <SearchResults
+              query=""
+              label={`Similar to "${similarTo.title}"`}
+              results={similarResults || []}
+              note={similarResults ? undefined : 'This item has not been indexed yet. Try again in a moment.'}
+              onItemClick={handleOpenItem}
+            />
+          ) : searchMode === 'semantic' ? (
+            <SearchResults query={searchQuery} results={semanticResults.results} note={semanticNote} onItemClick={handleOpenItem} />
+          ) : (
+            <SearchResults query={searchQuery} results={searchResults} onItemClick={handleOpenItem} />
+          )
+        ) : activeTab === 'smart-album' ? (
+          <div className="animate-in fade-in slide-in-from-bottom-2 duration-500">
+            <div className="flex items-center justify-between gap-4 mb-10">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest truncate">
+                Smart album{activeSmartAlbum?.query ? ` · "${activeSmartAlbum.query}"` : ''}
+              </p>
+              {activeSmartAlbum && (
+                <button
+                  onClick={() => setEditingSmartAlbum({ album: activeSmartAlbum, isNew: false })}
+                  className="px-4 py-3 rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-slate-900 dark:hover:text-white transition-all font-black uppercase tracking-widest text-[10px]"
+                >
+                  Edit Filters
+                </button>
+              )}
+            </div>
+            <MediaGrid 
+              items={filteredItems} 
+              gridSize={settings.gridSize} 
+              timelineDate={settings.timelineDate}
+              onItemClick={handleOpenItem}
+              onToggleFavorite={handleToggleFavorite}
+              activeTab={activeTab}
+              isDetailOpen={!!selectedItem}
+              selectedIds={selectedIds || undefined}
+              onToggleSelect={handleToggleSelect}
+              onSetSelected={handleSetSelected}
+            />
+          </div>
+        ) : activeTab === 'trash' ? (
+          <div className="animate-in fade-in slide-in-from-bottom-2 duration-500">
+            <div className="flex items-center justify-between gap-4 mb-10">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                Items are deleted forever after {settings.trashRetentionDays} days
+              </p>
+              {trashedItems.length > 0 && (
+                <button
+                  onClick={handleEmptyTrash}
+                  className="flex items-center gap-2 px-4 py-3 rounded-2xl bg-slate-50 hover:bg-rose-50 hover:text-rose-600 dark:bg-slate-800 dark:hover:bg-rose-900/20 text-slate-400 transition-all font-black uppercase tracking-widest text-[10px]"
+                >
+                  <IconTrash className="w-4 h-4" />
+                  Empty Trash
+                </button>
+              )}
+            </div>
+            <MediaGrid 
+              items={filteredItems} 
+              gridSize={settings.gridSize} 
+              timelineDate={settings.timelineDate}
+              onItemClick={handleOpenItem}
+              onToggleFavorite={handleToggleFavorite}
+              activeTab={activeTab}
+              isDetailOpen={!!selectedItem}
+              selectedIds={selectedIds || undefined}
+              onToggleSelect={handleToggleSelect}
+              onSetSelected={handleSetSelected}
+            />
+          </div>
+        ) : activeTab === 'for-you' ? (
+          <ForYouView
+            cards={curations}
+            items={liveItems}
+            captions={settings.forYouCaptions ? captions : {}}
+            activeCardId={activeCardId}
+            gridSize={settings.gridSize}
+            timelineDate={settings.timelineDate}
+            onOpenCard={setActiveCardId}
+            onItemClick={handleOpenItem}
+            onToggleFavorite={handleToggleFavorite}
+            isDetailOpen={!!selectedItem}
+            selectedIds={selectedIds || undefined}
+            onToggleSelect={handleToggleSelect}
+            onSetSelected={handleSetSelected}
+          />
+        ) : activeTab === 'map' ? (
+          <MapView
+            items={liveItems}
+            gridSize={settings.gridSize}
+            timelineDate={settings.timelineDate}
+            onItemClick={handleOpenItem}
+            onToggleFavorite={handleToggleFavorite}
+            isDetailOpen={!!selectedItem}
+          />
+        ) : activeTab === 'albums' ? (
+          <AlbumView
+            albums={albums}
+            items={filteredItems}
+            activeAlbumId={activeAlbumId}
+            gridSize={settings.gridSize}
+            timelineDate={settings.timelineDate}
+            onOpenAlbum={setActiveAlbumId}
+            onCreateAlbum={(name) => handleCreateAlbum(name)}
+            onRenameAlbum={(id, name) => updateAlbum(id, album => ({ ...album, name }))}
+            onDeleteAlbum={handleDeleteAlbum}
+            onItemClick={handleOpenItem}
+            onToggleFavorite={handleToggleFavorite}
+            isDetailOpen={!!selectedItem}
+            selectedIds={selectedIds || undefined}
+            onToggleSelect={handleToggleSelect}
+            onSetSelected={handleSetSelected}
+          />
         ) : (
           <MediaGrid 
             items={filteredItems} 
             gridSize={settings.gridSize} 
-            onItemClick={setSelectedItem}
+            timelineDate={settings.timelineDate}
+            onItemClick={handleOpenItem}
             onToggleFavorite={handleToggleFavorite}
             activeTab={activeTab}
+            isDetailOpen={!!selectedItem}
+            selectedIds={selectedIds || undefined}
+            onToggleSelect={handleToggleSelect}
+            onSetSelected={handleSetSelected}
           />
         )}
       </main>
 
       <nav className="fixed bottom-0 left-0 right-0 z-50 bg-white/60 dark:bg-slate-950/70 backdrop-blur-3xl border-t border-slate-200/50 dark:border-slate-800/50 safe-area-bottom">
+        {smartAlbums.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto max-w-2xl mx-auto px-4 pt-3 custom-scrollbar">
+            {smartAlbums.map(album => (
+              <button
+                key={album.id}
+                onClick={() => { setActiveTab('smart-album'); setActiveSmartAlbumId(album.id); }}
+                className={`shrink-0 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${activeTab === 'smart-album' && activeSmartAlbumId === album.id ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/30' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}
+              >
+                {album.name}
+              </button>
+            ))}
+          </div>
+        )}
         <div className="flex justify-around items-center max-w-2xl mx-auto h-20 px-4">
           <button 
             onClick={() => setActiveTab('library')}
@@ -293,7 +1486,21 @@ const App: React.FC = () => {
             className={`flex flex-col items-center gap-1.5 transition-all duration-300 ${activeTab === 'for-you' ? 'text-blue-600 -translate-y-1' : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-200'}`}
           >
             <svg className={`w-6 h-6 transition-transform ${activeTab === 'for-you' ? 'scale-110 text-blue-600' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-7.714 2.143L11 21l-2.286-6.857L1 12l7.714-2.143L11 3z" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5"/></svg>
-            <span className="text-[10px] font-black uppercase tracking-tighter">All</span>
+            <span className="text-[10px] font-black uppercase tracking-tighter">For You</span>
+          </button>
+          <button 
+            onClick={() => { setActiveTab('albums'); setActiveAlbumId(null); }}
+            className={`flex flex-col items-center gap-1.5 transition-all duration-300 ${activeTab === 'albums' ? 'text-blue-600 -translate-y-1' : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-200'}`}
+          >
+            <IconAlbum className={`w-6 h-6 transition-transform ${activeTab === 'albums' ? 'scale-110' : ''}`} />
+            <span className="text-[10px] font-black uppercase tracking-tighter">Albums</span>
+          </button>
+          <button 
+            onClick={() => setActiveTab('map')}
+            className={`flex flex-col items-center gap-1.5 transition-all duration-300 ${activeTab === 'map' ? 'text-blue-600 -translate-y-1' : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-200'}`}
+          >
+            <IconMap className={`w-6 h-6 transition-transform ${activeTab === 'map' ? 'scale-110' : ''}`} />
+            <span className="text-[10px] font-black uppercase tracking-tighter">Map</span>
           </button>
           <button 
             onClick={() => setActiveTab('favorites')}
@@ -311,8 +1518,111 @@ const App: React.FC = () => {
           </button>
         </div>
       </nav>
-      <DetailModal item={selectedItem} onClose={() => setSelectedItem(null)} onDelete={handleDeleteItem} onToggleFavorite={handleToggleFavorite} />
-      {showUpload && <UploadModal onClose={() => setShowUpload(false)} onUpload={handleUpload} appSettings={settings} />}
+      {selectedIds && (
+        <BatchActionBar
+          count={selectedItems.length}
+          allFavorite={selectedItems.length > 0 && selectedItems.every(item => item.isFavorite)}
+          albums={albums}
+          busyLabel={batchStatus}
+          sourceAlbumId={activeTab === 'albums' ? activeAlbumId : null}
+          onFavorite={handleBatchFavorite}
+          onDelete={handleBatchDelete}
+          onDownload={handleBatchDownload}
+          onEdit={() => setShowBulkEdit(true)}
+          onMoveToAlbum={(albumId) => handleMoveToAlbum(albumId, selectedItems.map(item => item.id))}
+          onCreateAlbum={(name) => {
+            handleCreateAlbum(name, selectedItems.map(item => item.id));
+            setSelectedIds(null);
+          }}
+          onReanalyze={handleBatchReanalyze}
+          onRestore={activeTab === 'trash' ? () => {
+            handleRestoreItems(selectedItems.map(item => item.id));
+            setSelectedIds(null);
+          } : undefined}
+          onDone={() => setSelectedIds(null)}
+        />
+      )}
+      {showBulkEdit && selectedIds && (
+        <BulkEditModal
+          items={selectedItems}
+          allTags={allTags}
+          onApply={handleBulkPatch}
+          onClose={() => setShowBulkEdit(false)}
+        />
+      )}
+      <DetailModal 
+        item={selectedItem} 
+        albums={albums}
+        allTags={allTags}
+        onClose={() => setSelectedItem(null)} 
+        onUpdate={handlePatchItem}
+        onDelete={(id) => handleTrashItems([id])}
+        onRestore={(id) => handleRestoreItems([id])}
+        onPurge={handleDeleteItem}
+        trashRetentionDays={settings.trashRetentionDays}
+        onToggleFavorite={handleToggleFavorite} 
+        onToggleAlbum={handleToggleAlbumItem}
+        onCreateAlbum={(name, itemId) => handleCreateAlbum(name, itemId ? [itemId] : [])}
+        onSetAlbumCover={(albumId, itemId) => updateAlbum(albumId, album => ({ ...album, coverItemId: itemId }))}
+        analysisJob={selectedItem ? analysisJobs.get(selectedItem.id) : undefined}
+        onAnalyze={(id) => queueAnalysis([id]).catch(err => console.error("Analysis Queue Error", err))}
+        onFindSimilar={handleFindSimilar}
+        onEdit={setEditingItem}
+        previousItem={viewerIndex > 0 ? viewerItems[viewerIndex - 1] : undefined}
+        nextItem={viewerIndex >= 0 ? viewerItems[viewerIndex + 1] : undefined}
+        onNavigate={setSelectedItem}
+        position={viewerIndex >= 0 ? { index: viewerIndex, total: viewerItems.length } : undefined}
+      />
+      {editingItem && (
+        <ImageEditor
+          item={editingItem}
+          onSave={(edits) => {
+            handleSaveEdits(editingItem, edits);
+            setEditingItem(null);
+          }}
+          onClose={() => setEditingItem(null)}
+        />
+      )}
+      {editingSmartAlbum && (
+        <SmartAlbumEditor
+          album={editingSmartAlbum.album}
+          isNew={editingSmartAlbum.isNew}
+          countMatches={(album) => searchItems(liveItems, smartAlbumQuery(album)).length}
+          onSave={handleSaveSmartAlbum}
+          onDelete={handleDeleteSmartAlbum}
+          onClose={() => setEditingSmartAlbum(null)}
+        />
+      )}
+      {showBackup && (
+        <BackupModal
+          items={mediaItems}
+          albums={albums}
+          onImported={handleImported}
+          onClose={() => setShowBackup(false)}
+        />
+      )}
+      {showDuplicates && (
+        <DuplicatesModal
+          items={liveItems}
+          onTrash={handleTrashItems}
+          onClose={() => setShowDuplicates(false)}
+        />
+      )}
+      {showUpload && <UploadModal onIngest={handleIngest} onClose={() => setShowUpload(false)} />}
+      {showUploads && <UploadQueue uploads={uploads} onClose={() => setShowUploads(false)} />}
+      {isDraggingFiles && (
+        <div className="fixed inset-0 z-[60] p-6 bg-blue-600/20 backdrop-blur-sm pointer-events-none">
+          <div className="w-full h-full rounded-[3rem] border-4 border-dashed border-blue-500 flex flex-col items-center justify-center gap-6 text-center">
+            <div className="w-24 h-24 bg-blue-600 rounded-[2rem] flex items-center justify-center text-white shadow-2xl shadow-blue-500/40">
+              <IconPlus className="w-12 h-12" />
+            </div>
+            <div>
+              <h2 className="text-3xl font-black text-slate-900 dark:text-white tracking-tighter">Drop to Upload</h2>
+              <p className="text-slate-600 dark:text-slate-300 font-medium italic mt-1">Folders become albums, subfolders become tags.</p>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Album, AppSettings, MediaItem, MediaType } from '../types';
+import { IconAlbum, IconPlus, IconTrash } from './Icons';
+import MediaGrid from './MediaGrid';
+
+interface AlbumViewProps {
+  albums: Album[];
+  items: MediaItem[];
+  activeAlbumId: string | null;
+  gridSize: 'small' | 'medium' | 'large';
+  timelineDate?: AppSettings['timelineDate'];
+  onOpenAlbum: (id: string | null) => void;
+  onCreateAlbum: (name: string) => void;
+  onRenameAlbum: (id: string, name: string) => void;
+  onDeleteAlbum: (id: string) => void;
+  onItemClick: (item: MediaItem) => void;
+  onToggleFavorite: (id: string) => void;
+  isDetailOpen?: boolean;
+  selectedIds?: Set<string>;
+  onToggleSelect?: (id: string) => void;
+  onSetSelected?: (ids: string[], selected: boolean) => void;
+}
+
+export const getAlbumCover = (album: Album, items: MediaItem[]): MediaItem | undefined => {
+  const members = items.filter(i => album.itemIds.includes(i.id));
+  return members.find(i => i.id === album.coverItemId) || members.find(i => i.type === MediaType.IMAGE) || members[0];
+};
+
+const AlbumCover: React.FC<{ item?: MediaItem }> = ({ item }) => {
+  const preview = typeof item?.thumbnailUrl === 'string' ? item.thumbnailUrl : item?.type === MediaType.IMAGE ? item.url as string : '';
+  if (item && preview) {
+    return <img src={preview} alt={item.title} className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110" loading="lazy" />;
+  }
+  return (
+    <div className="w-full h-full flex items-center justify-center text-slate-300 dark:text-slate-600">
+      <IconAlbum className="w-12 h-12" />
+    </div>
+  );
+};
+
+const AlbumView: React.FC<AlbumViewProps> = ({
+  albums, items, activeAlbumId, gridSize, timelineDate, onOpenAlbum, onCreateAlbum, onRenameAlbum, onDeleteAlbum, onItemClick, onToggleFavorite, isDetailOpen, selectedIds, onToggleSelect, onSetSelected
+}) => {
+  const [newAlbumName, setNewAlbumName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const activeAlbum = albums.find(a => a.id === activeAlbumId);
+
+  if (activeAlbum) {
+    const albumItems = items.filter(i => activeAlbum.itemIds.includes(i.id));
+    return (
+      <div className="animate-in fade-in slide-in-from-bottom-2 duration-500">
+        <div className="flex items-center justify-between gap-4 mb-10">
+          <div className="flex items-center gap-4 min-w-0">
+            <button
+              onClick={() => onOpenAlbum(null)}
+              className="p-3 rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-slate-900 dark:hover:text-white transition-all active:scale-90"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15 19l-7-7 7-7"/></svg>
+            </button>
+            <input
+              className="min-w-0 text-2xl font-black text-slate-900 dark:text-white tracking-tight bg-transparent outline-none border-b-2 border-transparent focus:border-blue-500/30"
+              defaultValue={activeAlbum.name}
+              key={activeAlbum.id}
+              onBlur={(e) => {
+                const name = e.target.value.trim();
+                if (name && name !== activeAlbum.name) onRenameAlbum(activeAlbum.id, name);
+              }}
+            />
+          </div>
+          <button
+            onClick={() => {
+              if (window.confirm(`Delete album "${activeAlbum.name}"? The media inside stays in your vault.`)) {
+                onDeleteAlbum(activeAlbum.id);
+              }
+            }}
+            className="flex items-center gap-2 px-4 py-3 rounded-2xl bg-slate-50 hover:bg-rose-50 hover:text-rose-600 dark:bg-slate-800 dark:hover:bg-rose-900/20 text-slate-400 transition-all font-black uppercase tracking-widest text-[10px]"
+          >
+            <IconTrash className="w-4 h-4" />
+            Delete Album
+          </button>
+        </div>
+        <MediaGrid
+          items={albumItems}
+          gridSize={gridSize}
+          timelineDate={timelineDate}
+          onItemClick={onItemClick}
+          onToggleFavorite={onToggleFavorite}
+          activeTab="albums"
+          isDetailOpen={isDetailOpen}
+          selectedIds={selectedIds}
+          onToggleSelect={onToggleSelect}
+          onSetSelected={onSetSelected}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 md:gap-6 animate-in fade-in slide-in-from-bottom-2 duration-500">
+      <div className="aspect-square rounded-[2rem] border-2 border-dashed border-slate-200 dark:border-slate-700 flex flex-col items-center justify-center p-4">
+        {isCreating ? (
+          <form
+            className="w-full space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              const name = newAlbumName.trim();
+              if (!name) return;
+              onCreateAlbum(name);
+              setNewAlbumName('');
+              setIsCreating(false);
+            }}
+          >
+            <input
+              autoFocus
+              placeholder="Album name"
+              className="w-full px-4 py-3 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-white font-bold text-sm outline-none"
+              value={newAlbumName}
+              onChange={(e) => setNewAlbumName(e.target.value)}
+            />
+            <button type="submit" className="w-full py-3 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-black uppercase tracking-widest text-[10px]">
+              Create
+            </button>
+          </form>
+        ) : (
+          <button onClick={() => setIsCreating(true)} className="flex flex-col items-center gap-3 text-slate-400 hover:text-blue-600 transition-colors">
+            <IconPlus className="w-8 h-8" />
+            <span className="text-[10px] font-black uppercase tracking-widest">New Album</span>
+          </button>
+        )}
+      </div>
+
+      {albums.map(album => (
+        <button key={album.id} onClick={() => onOpenAlbum(album.id)} className="text-left group">
+          <div className="aspect-square rounded-[2rem] overflow-hidden bg-slate-100 dark:bg-slate-800 shadow-sm group-hover:shadow-xl transition-all group-active:scale-95">
+            <AlbumCover item={getAlbumCover(album, items)} />
+          </div>
+          <p className="mt-3 ml-1 font-black text-slate-900 dark:text-white tracking-tight truncate">{album.name}</p>
+          <p className="ml-1 text-[10px] font-bold text-slate-400 uppercase tracking-widest">{items.filter(i => album.itemIds.includes(i.id)).length} items</p>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default AlbumView;
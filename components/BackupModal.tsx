@@ -0,0 +1,134 @@
+import React, { useRef, useState } from 'react';
+import { Album, MediaItem } from '../types';
+import { IconDownload, IconPlus } from './Icons';
+import { downloadBlob } from '../services/batchService';
+import { exportVault, importVault, ImportResult, ImportStrategy, TransferProgress } from '../services/backupService';
+
+interface BackupModalProps {
+  items: MediaItem[];
+  albums: Album[];
+  onImported: (result: ImportResult) => void;
+  onClose: () => void;
+}
+
+const STRATEGIES: { value: ImportStrategy; label: string; hint: string }[] = [
+  { value: 'merge', label: 'Merge', hint: 'Import everything and keep both copies when ids clash.' },
+  { value: 'dedupe', label: 'Skip duplicates', hint: 'Leave out items that are already in this vault.' },
+  { value: 'overwrite', label: 'Overwrite', hint: 'Replace items and albums that exist here with the archive version.' }
+];
+
+const labelClass = "block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2";
+
+const BackupModal: React.FC<BackupModalProps> = ({ items, albums, onImported, onClose }) => {
+  const [strategy, setStrategy] = useState<ImportStrategy>('dedupe');
+  const [progress, setProgress] = useState<TransferProgress | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isBusy = !!progress;
+
+  const run = async (task: () => Promise<string>) => {
+    setError(null);
+    setSummary(null);
+    setProgress({ phase: 'Starting', done: 0, total: 0 });
+    try {
+      setSummary(await task());
+    } catch (err) {
+      console.error("Backup Error", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleExport = () => run(async () => {
+    const archive = await exportVault(items, albums, setProgress);
+    downloadBlob(archive, `vault-backup-${new Date().toISOString().slice(0, 10)}.zip`);
+    return `Exported ${items.length} items and ${albums.length} albums.`;
+  });
+
+  const handleImport = (file: File) => run(async () => {
+    const result = await importVault(file, items, albums, strategy, setProgress);
+    onImported(result);
+    return `Imported ${result.added.length} items${result.replacedIds.length ? ` (${result.replacedIds.length} replaced)` : ''}, skipped ${result.skipped}, restored ${result.albums.length} albums.`;
+  });
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-xl transition-all">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-lg max-h-full overflow-y-auto custom-scrollbar rounded-[3rem] shadow-2xl border border-slate-200 dark:border-slate-800 p-10 space-y-8">
+        <div>
+          <h2 className="text-3xl font-black text-slate-900 dark:text-white tracking-tighter">Backup</h2>
+          <p className="text-slate-500 dark:text-slate-400 font-medium italic mt-1">One ZIP with every original and a manifest of your metadata and albums.</p>
+        </div>
+
+        <button
+          onClick={handleExport}
+          disabled={isBusy || items.length === 0}
+          className="w-full flex items-center justify-center gap-2 py-5 rounded-[1.5rem] font-black bg-slate-900 dark:bg-white text-white dark:text-slate-900 disabled:opacity-40 hover:scale-[1.02] active:scale-95 transition-all shadow-xl uppercase tracking-widest text-sm"
+        >
+          <IconDownload className="w-5 h-5" />
+          Export {items.length} items
+        </button>
+
+        <div>
+          <label className={labelClass}>When importing</label>
+          <div className="space-y-2">
+            {STRATEGIES.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setStrategy(option.value)}
+                disabled={isBusy}
+                className={`w-full text-left px-4 py-3 rounded-xl transition-all ${strategy === option.value ? 'bg-blue-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300'}`}
+              >
+                <span className="block text-[10px] font-black uppercase tracking-widest">{option.label}</span>
+                <span className={`block text-xs font-medium mt-0.5 ${strategy === option.value ? 'text-blue-100' : 'text-slate-400'}`}>{option.hint}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <input
+          type="file"
+          ref={fileInputRef}
+          className="hidden"
+          accept=".zip,application/zip"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleImport(file);
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+          className="w-full flex items-center justify-center gap-2 py-5 rounded-[1.5rem] font-black bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-white disabled:opacity-40 hover:scale-[1.02] active:scale-95 transition-all uppercase tracking-widest text-sm"
+        >
+          <IconPlus className="w-5 h-5" />
+          Import Archive
+        </button>
+
+        {progress && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-400">
+              <span>{progress.phase}</span>
+              {progress.total > 0 && <span>{progress.done} / {progress.total}</span>}
+            </div>
+            <div className="w-full h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-600 transition-all duration-300" style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+        )}
+        {summary && <p className="text-sm font-bold text-emerald-600">{summary}</p>}
+        {error && <p className="text-sm font-bold text-rose-600">{error}</p>}
+
+        <button onClick={onClose} disabled={isBusy} className="w-full text-[10px] font-black text-slate-400 hover:text-slate-600 disabled:opacity-40 uppercase tracking-[0.2em]">
+          {summary ? 'Done' : 'Close'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BackupModal;
\ No newline at end of file
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Album } from '../types';
+import { IconHeart, IconTrash, IconDownload, IconAlbum, IconPlus } from './Icons';
+
+interface BatchActionBarProps {
+  count: number;
+  allFavorite: boolean;
+  albums: Album[];
+  // Set while a long-running action (archive, analysis) is in progress; locks the other actions.
+  busyLabel: string | null;
+  // Album the selection is being viewed from, if any; moving takes items out of it.
+  sourceAlbumId?: string | null;
+  onFavorite: () => void;
+  onDelete: () => void;
+  onDownload: () => void;
+  onEdit: () => void;
+  onMoveToAlbum: (albumId: string) => void;
+  onCreateAlbum: (name: string) => void;
+  onReanalyze: () => void;
+  // Present when the selection is in the trash, which only offers restore and delete forever.
+  onRestore?: () => void;
+  onDone: () => void;
+}
+
+const actionClass = "w-10 h-10 rounded-xl flex items-center justify-center hover:bg-white/10 dark:hover:bg-slate-900/10 disabled:opacity-30 transition-all active:scale-90";
+
+const BatchActionBar: React.FC<BatchActionBarProps> = ({
+  count, allFavorite, albums, busyLabel, sourceAlbumId, onFavorite, onDelete, onDownload, onEdit, onMoveToAlbum, onCreateAlbum, onReanalyze, onRestore, onDone
+}) => {
+  const [showAlbums, setShowAlbums] = useState(false);
+  const [newAlbumName, setNewAlbumName] = useState('');
+  const disabled = count === 0 || !!busyLabel;
+
+  return (
+    <div className="fixed left-1/2 -translate-x-1/2 bottom-28 z-50 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      {showAlbums && !disabled && (
+        <div className="absolute bottom-full mb-3 left-0 right-0 p-3 bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border border-slate-100 dark:border-slate-700 space-y-1 max-h-72 overflow-y-auto custom-scrollbar">
+          {albums.filter(album => album.id !== sourceAlbumId).map(album => (
+            <button
+              key={album.id}
+              onClick={() => {
+                onMoveToAlbum(album.id);
+                setShowAlbums(false);
+              }}
+              className="w-full flex items-center justify-between gap-3 px-3 py-2 rounded-xl text-left text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+            >
+              <span className="truncate">{album.name}</span>
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{album.itemIds.length}</span>
+            </button>
+          ))}
+          <form
+            className="flex gap-2 pt-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              const name = newAlbumName.trim();
+              if (!name) return;
+              onCreateAlbum(name);
+              setNewAlbumName('');
+              setShowAlbums(false);
+            }}
+          >
+            <input
+              placeholder="New album"
+              className="flex-grow min-w-0 px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-900 text-slate-900 dark:text-white font-bold text-sm outline-none"
+              value={newAlbumName}
+              onChange={(e) => setNewAlbumName(e.target.value)}
+            />
+            <button type="submit" className="w-9 h-9 shrink-0 rounded-xl bg-blue-600 text-white flex items-center justify-center">
+              <IconPlus className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+      )}
+
+      <div className="flex items-center gap-1 pl-5 pr-2 py-2 rounded-2xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 shadow-2xl">
+        <span className="text-[10px] font-black uppercase tracking-widest whitespace-nowrap mr-2">
+          {busyLabel || `${count} selected`}
+        </span>
+        {onRestore ? (
+          <button
+            onClick={onRestore}
+            disabled={disabled}
+            className="px-4 py-2.5 rounded-xl bg-blue-600 text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-40 transition-all active:scale-95"
+          >
+            Restore
+          </button>
+        ) : (
+          <>
+            <button onClick={onFavorite} disabled={disabled} title={allFavorite ? 'Unfavorite' : 'Favorite'} className={actionClass}>
+              <IconHeart className={`w-5 h-5 ${allFavorite && count > 0 ? 'text-rose-500 fill-rose-500' : ''}`} filled={allFavorite && count > 0} />
+            </button>
+            <button onClick={() => setShowAlbums(v => !v)} disabled={disabled} title={sourceAlbumId ? 'Move to album' : 'Add to album'} className={actionClass}>
+              <IconAlbum className="w-5 h-5" />
+            </button>
+            <button onClick={onDownload} disabled={disabled} title="Download as archive" className={actionClass}>
+              <IconDownload className="w-5 h-5" />
+            </button>
+            <button onClick={onReanalyze} disabled={disabled} title="Re-run AI analysis" className={actionClass}>
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-7.714 2.143L11 21l-2.286-6.857L1 12l7.714-2.143L11 3z" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5"/></svg>
+            </button>
+            <button
+              onClick={onEdit}
+              disabled={disabled}
+              title="Add tags or rename"
+              className="ml-1 px-4 py-2.5 rounded-xl bg-blue-600 text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-40 transition-all active:scale-95"
+            >
+              Edit
+            </button>
+          </>
+        )}
+        <button onClick={onDelete} disabled={disabled} title={onRestore ? 'Delete forever' : 'Move to trash'} className={`${actionClass} hover:text-rose-400`}>
+          <IconTrash className="w-5 h-5" />
+        </button>
+        <button
+          onClick={onDone}
+          disabled={!!busyLabel}
+          className="px-3 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest opacity-60 hover:opacity-100 disabled:opacity-30"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchActionBar;
\ No newline at end of file
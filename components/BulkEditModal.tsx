@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { MediaItem } from '../types';
+import { MediaPatch } from '../services/db';
+import { BulkEditOperations, buildBulkPatch, collectTags } from '../services/metadataService';
+import TagInput from './TagInput';
+
+interface BulkEditModalProps {
+  items: MediaItem[];
+  allTags: string[];
+  onApply: (patches: { id: string; patch: MediaPatch }[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_COUNT = 3;
+
+const labelClass = "block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2";
+
+const BulkEditModal: React.FC<BulkEditModalProps> = ({ items, allTags, onApply, onClose }) => {
+  const [ops, setOps] = useState<BulkEditOperations>({ addTags: [], removeTags: [], renamePattern: '' });
+
+  const patches = items
+    .map((item, index) => ({ id: item.id, patch: buildBulkPatch(item, ops, index) }))
+    .filter((entry): entry is { id: string; patch: MediaPatch } => entry.patch !== null);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-xl transition-all">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-lg max-h-full overflow-y-auto custom-scrollbar rounded-[3rem] shadow-2xl border border-slate-200 dark:border-slate-800 p-10 space-y-6">
+        <div>
+          <h2 className="text-3xl font-black text-slate-900 dark:text-white tracking-tighter">Bulk Edit</h2>
+          <p className="text-slate-500 dark:text-slate-400 font-medium italic mt-1">{items.length} items selected</p>
+        </div>
+
+        <div>
+          <label className={labelClass}>Add tags</label>
+          <TagInput tags={ops.addTags} suggestions={allTags} onChange={(addTags) => setOps(o => ({ ...o, addTags }))} />
+        </div>
+
+        <div>
+          <label className={labelClass}>Remove tags</label>
+          <TagInput tags={ops.removeTags} suggestions={collectTags(items)} onChange={(removeTags) => setOps(o => ({ ...o, removeTags }))} />
+        </div>
+
+        <div>
+          <label className={labelClass}>Rename pattern</label>
+          <input
+            className="w-full px-4 py-3 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-white font-bold text-sm outline-none border-2 border-transparent focus:border-blue-500/20"
+            value={ops.renamePattern}
+            onChange={(e) => setOps(o => ({ ...o, renamePattern: e.target.value }))}
+            placeholder="ClientX_{date}_{n:3}"
+          />
+          <p className="mt-2 text-[10px] font-bold text-slate-400 tracking-wide">
+            Tokens: {'{title}'} {'{name}'} {'{ext}'} {'{date}'} {'{n}'} {'{n:3}'}
+          </p>
+          {ops.renamePattern.trim() && (
+            <ul className="mt-3 space-y-1">
+              {items.slice(0, PREVIEW_COUNT).map((item, index) => (
+                <li key={item.id} className="text-xs font-medium text-slate-500 truncate">
+                  {item.title} → <span className="font-black text-slate-900 dark:text-white">{buildBulkPatch(item, { ...ops, addTags: [], removeTags: [] }, index)?.title ?? item.title}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <button
+            onClick={() => onApply(patches)}
+            disabled={patches.length === 0}
+            className="w-full py-5 rounded-[1.5rem] font-black bg-slate-900 dark:bg-white text-white dark:text-slate-900 disabled:opacity-40 hover:scale-[1.02] active:scale-95 transition-all shadow-xl uppercase tracking-widest text-sm"
+          >
+            Apply to {patches.length} items
+          </button>
+          <button onClick={onClose} className="w-full text-[10px] font-black text-slate-400 hover:text-slate-600 uppercase tracking-[0.2em] pt-2">Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkEditModal;
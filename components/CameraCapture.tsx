@@ -0,0 +1,194 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { IconPhotos, IconVideo } from './Icons';
+import { browserCamera, CameraDevices, canRecordVideo, capturePhoto, closeCamera, describeCameraError, listCameras, openCamera, recordVideo, stopStream, VideoRecording } from '../services/cameraService';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => Promise<void>;
+  onCancel: () => void;
+  devices?: CameraDevices;
+}
+
+const formatElapsed = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// Live preview with photo and video modes. Every shot is shown back for a retake before it is
+// handed on, so nothing reaches the vault by accident.
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel, devices = browserCamera }) => {
+  const [mode, setMode] = useState<'photo' | 'video'>('photo');
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | undefined>(undefined);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [recording, setRecording] = useState<VideoRecording | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [captured, setCaptured] = useState<{ file: File; url: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // The camera stays off while a shot is being reviewed, so its light does not linger.
+  useEffect(() => {
+    if (captured) return;
+    let cancelled = false;
+    let opened: MediaStream | null = null;
+    setError(null);
+    openCamera(deviceId, devices)
+      .then(async next => {
+        if (cancelled) return stopStream(next);
+        opened = next;
+        setStream(next);
+        setCameras(await listCameras(devices));
+      })
+      .catch(err => {
+        console.error("Camera Error", err);
+        if (!cancelled) setError(describeCameraError(err));
+      });
+    return () => {
+      cancelled = true;
+      stopStream(opened);
+      setStream(null);
+    };
+  }, [deviceId, captured, devices]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  useEffect(() => {
+    if (!recording) return;
+    setElapsed(0);
+    const timer = setInterval(() => setElapsed(prev => prev + 1), 1000);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  useEffect(() => () => {
+    if (captured) URL.revokeObjectURL(captured.url);
+  }, [captured]);
+
+  // Switching mid-take would end the recording, so the button is hidden while recording.
+  const handleSwitchCamera = () => {
+    const activeId = stream?.getVideoTracks()[0]?.getSettings().deviceId;
+    const index = cameras.findIndex(camera => camera.deviceId === activeId);
+    setDeviceId(cameras[(index + 1) % cameras.length].deviceId);
+  };
+
+  const handleShutter = async () => {
+    if (!stream || !videoRef.current) return;
+    try {
+      if (mode === 'photo') {
+        const file = await capturePhoto(videoRef.current);
+        setCaptured({ file, url: URL.createObjectURL(file) });
+      } else if (recording) {
+        recording.stop();
+        const file = await recording.result;
+        setRecording(null);
+        setCaptured({ file, url: URL.createObjectURL(file) });
+      } else {
+        setRecording(recordVideo(stream, devices));
+      }
+    } catch (err) {
+      console.error("Capture Error", err);
+      setRecording(null);
+      setError(mode === 'photo' ? 'Could not take the photo.' : 'Could not record the video.');
+    }
+  };
+
+  const handleUse = async () => {
+    if (!captured) return;
+    setSaving(true);
+    try {
+      await onCapture(captured.file);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    closeCamera(stream, recording);
+    onCancel();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="relative aspect-[3/4] sm:aspect-video rounded-[2rem] overflow-hidden bg-slate-950">
+        {captured ? (
+          mode === 'photo' ? (
+            <img src={captured.url} alt="Captured photo" className="w-full h-full object-contain" />
+          ) : (
+            <video src={captured.url} controls playsInline className="w-full h-full object-contain" />
+          )
+        ) : (
+          <video ref={videoRef} autoPlay muted playsInline className="w-full h-full object-cover" />
+        )}
+
+        {error && !captured && (
+          <div className="absolute inset-0 flex items-center justify-center p-8 text-center text-xs font-bold text-rose-300 uppercase tracking-tight">
+            {error}
+          </div>
+        )}
+
+        {recording && (
+          <div className="absolute top-4 left-4 flex items-center gap-2 px-3 py-1.5 rounded-xl bg-rose-600 text-white text-[10px] font-black uppercase tracking-widest">
+            <span className="w-2 h-2 rounded-full bg-white animate-pulse" />
+            {formatElapsed(elapsed)}
+          </div>
+        )}
+
+        {!captured && !recording && cameras.length > 1 && (
+          <button
+            onClick={handleSwitchCamera}
+            className="absolute top-4 right-4 px-3 py-2 rounded-xl bg-slate-950/60 text-white text-[10px] font-black uppercase tracking-widest backdrop-blur-md active:scale-95 transition-all"
+          >
+            Switch
+          </button>
+        )}
+      </div>
+
+      {captured ? (
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={() => setCaptured(null)}
+            disabled={saving}
+            className="py-4 rounded-[1.25rem] font-black bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 active:scale-95 transition-all uppercase tracking-widest text-[10px] disabled:opacity-50"
+          >
+            Retake
+          </button>
+          <button
+            onClick={handleUse}
+            disabled={saving}
+            className="py-4 rounded-[1.25rem] font-black bg-blue-600 text-white hover:bg-blue-700 active:scale-95 transition-all shadow-lg shadow-blue-500/20 uppercase tracking-widest text-[10px] disabled:opacity-50"
+          >
+            {saving ? 'Adding' : mode === 'photo' ? 'Use Photo' : 'Use Video'}
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex gap-1.5 p-1 bg-slate-100 dark:bg-slate-800 rounded-xl">
+            {(['photo', 'video'] as const).filter(option => option === 'photo' || canRecordVideo(devices)).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                disabled={!!recording}
+                className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${mode === option ? 'bg-white dark:bg-slate-950 text-blue-600 shadow-sm' : 'text-slate-400'}`}
+              >
+                {option === 'photo' ? <IconPhotos className="w-3.5 h-3.5" /> : <IconVideo className="w-3.5 h-3.5" />}
+                {option}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleShutter}
+            disabled={!stream}
+            aria-label={mode === 'photo' ? 'Take photo' : recording ? 'Stop recording' : 'Start recording'}
+            className="w-16 h-16 shrink-0 rounded-full border-4 border-slate-200 dark:border-slate-700 flex items-center justify-center active:scale-90 transition-all disabled:opacity-40"
+          >
+            <span className={`block transition-all ${mode === 'photo' ? 'w-11 h-11 rounded-full bg-slate-900 dark:bg-white' : recording ? 'w-6 h-6 rounded-md bg-rose-600' : 'w-11 h-11 rounded-full bg-rose-600'}`} />
+          </button>
+        </div>
+      )}
+
+      <button onClick={handleCancel} className="w-full text-[10px] font-black text-slate-400 hover:text-slate-600 uppercase tracking-[0.2em]">Back</button>
+    </div>
+  );
+};
+
+export default CameraCapture;
\ No newline at end of file
@@ -1,23 +1,270 @@
-import React from 'react';
-import { MediaItem, MediaType } from '../types';
-import { IconHeart, IconTrash, IconDownload, IconFile } from './Icons';
+import React, { useState, useEffect, useRef } from 'react';
+import { MediaItem, MediaMetadata, MediaType, Album, AnalysisJob, ImageEdits } from '../types';
+import { IconHeart, IconTrash, IconDownload, IconFile, IconAlbum, IconPlus, IconSearch } from './Icons';
+import { getMediaBlob, MediaPatch } from '../services/db';
+import { canReanalyze, getDownloadName } from '../services/batchService';
+import { ANALYSIS_PROVIDERS } from '../services/analysisService';
+import { renderEditedBlob } from '../services/editService';
+import TagInput from './TagInput';
+import ZoomableImage from './ZoomableImage';
 
 interface DetailModalProps {
   item: MediaItem | null;
+  albums: Album[];
+  allTags: string[];
   onClose: () => void;
+  onUpdate: (id: string, patch: MediaPatch) => void;
+  // Moves the item to the trash; trashed items offer restore and permanent deletion instead.
   onDelete: (id: string) => void;
+  onRestore: (id: string) => void;
+  onPurge: (id: string) => void;
+  trashRetentionDays: number;
   onToggleFavorite: (id: string) => void;
+  onToggleAlbum: (albumId: string, itemId: string) => void;
+  onCreateAlbum: (name: string, itemId?: string) => void;
+  onSetAlbumCover: (albumId: string, itemId: string) => void;
+  // The item's entry in the analysis queue, if it has one.
+  analysisJob?: AnalysisJob;
+  onAnalyze: (id: string) => void;
+  onFindSimilar: (item: MediaItem) => void;
+  onEdit: (item: MediaItem) => void;
+  // Neighbours in the order the current view shows them, absent at either end. Their originals
+  // are loaded ahead so stepping through feels instant.
+  previousItem?: MediaItem;
+  nextItem?: MediaItem;
+  onNavigate: (item: MediaItem) => void;
+  // Zero-based position of the item in the current view, when it is part of one.
+  position?: { index: number; total: number };
 }
 
-const DetailModal: React.FC<DetailModalProps> = ({ item, onClose, onDelete, onToggleFavorite }) => {
+const SLIDE_MS = 5000;
+// Edited images are rendered for the viewer at up to this size, enough to zoom into.
+const EDITED_VIEW_EDGE = 2560;
+// Horizontal travel that counts as a swipe, and how much more horizontal than vertical it must be.
+const SWIPE_PX = 60;
+const SWIPE_SLOPE = 1.5;
+
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+const describeMetadata = (metadata: MediaMetadata): { label: string; value: string }[] => {
+  const rows: { label: string; value: string }[] = [];
+  if (metadata.capturedAt) {
+    rows.push({ label: 'Taken', value: new Date(metadata.capturedAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' }) });
+  }
+  if (metadata.camera) rows.push({ label: 'Camera', value: metadata.camera });
+  if (metadata.lens) rows.push({ label: 'Lens', value: metadata.lens });
+  const exposure = [
+    metadata.exposureTime && (metadata.exposureTime < 1 ? `1/${Math.round(1 / metadata.exposureTime)}s` : `${metadata.exposureTime}s`),
+    metadata.fNumber && `f/${metadata.fNumber.toFixed(1)}`,
+    metadata.iso && `ISO ${metadata.iso}`,
+    metadata.focalLength && `${Math.round(metadata.focalLength)}mm`
+  ].filter(Boolean);
+  if (exposure.length) rows.push({ label: 'Exposure', value: exposure.join(' · ') });
+  if (metadata.width && metadata.height) rows.push({ label: 'Dimensions', value: `${metadata.width} × ${metadata.height}` });
+  if (metadata.duration) rows.push({ label: 'Duration', value: formatDuration(metadata.duration) });
+  const codecs = [metadata.videoCodec, metadata.audioCodec].filter(Boolean);
+  if (codecs.length) rows.push({ label: 'Codecs', value: codecs.join(' / ') });
+  if (metadata.gps) rows.push({ label: 'Location', value: `${metadata.gps.latitude.toFixed(5)}, ${metadata.gps.longitude.toFixed(5)}` });
+  return rows;
+};
+
+const describeAnalysis = (item: MediaItem, job?: AnalysisJob) => {
+  if (job?.status === 'running') return 'Analyzing…';
+  if (job?.status === 'failed') return `Analysis failed: ${job.error || 'unknown error'}`;
+  if (job) return job.error ? `Queued to retry: ${job.error}` : 'Queued for analysis';
+  if (!item.analyzedAt) return 'Not analyzed';
+  const date = new Date(item.analyzedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return `Analyzed ${date}${item.analyzedBy ? ` via ${ANALYSIS_PROVIDERS[item.analyzedBy].label}` : ''}`;
+};
+
+const DetailModal: React.FC<DetailModalProps> = ({ item, albums, allTags, onClose, onUpdate, onDelete, onRestore, onPurge, trashRetentionDays, onToggleFavorite, onToggleAlbum, onCreateAlbum, onSetAlbumCover, analysisJob, onAnalyze, onFindSimilar, onEdit, previousItem, nextItem, onNavigate, position }) => {
+  const [showAlbums, setShowAlbums] = useState(false);
+  const [newAlbumName, setNewAlbumName] = useState('');
+  // Object URLs of originals by blob id, for the open item and its neighbours.
+  const [originals, setOriginals] = useState<Record<string, string>>({});
+  const ownedUrls = useRef(new Map<string, string>());
+  const wantedBlobs = useRef(new Set<string>());
+  const loadingBlobs = useRef(new Set<string>());
+  const [titleDraft, setTitleDraft] = useState('');
+  const [descriptionDraft, setDescriptionDraft] = useState('');
+  const [showInfo, setShowInfo] = useState(true);
+  const [slideshow, setSlideshow] = useState(false);
+  const [zoomed, setZoomed] = useState(false);
+  const [edited, setEdited] = useState<{ edits: ImageEdits; url: string } | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const swipeRef = useRef<{ x: number; y: number; multiTouch: boolean } | null>(null);
+
+  useEffect(() => {
+    setTitleDraft(item?.title || '');
+    setDescriptionDraft(item?.description || '');
+  }, [item?.id, item?.title, item?.description]);
+
+  useEffect(() => {
+    setZoomed(false);
+  }, [item?.id]);
+
+  // The grid only holds thumbnails, so originals are read from storage while the viewer is open:
+  // the open item's always, and its neighbours' when they are images, decoded ahead of time.
+  // Anything that falls out of that window is released.
+  useEffect(() => {
+    const targets = [item, ...[previousItem, nextItem].filter(other => other?.type === MediaType.IMAGE)]
+      .filter((target): target is MediaItem => !!target?.blobId && !(typeof target.url === 'string' && target.url));
+    wantedBlobs.current = new Set(targets.map(target => target.blobId!));
+
+    let released = false;
+    ownedUrls.current.forEach((url, blobId) => {
+      if (wantedBlobs.current.has(blobId)) return;
+      URL.revokeObjectURL(url);
+      ownedUrls.current.delete(blobId);
+      released = true;
+    });
+    if (released) {
+      setOriginals(prev => Object.fromEntries(Object.entries(prev).filter(([blobId]) => wantedBlobs.current.has(blobId))));
+    }
+
+    targets.forEach(target => {
+      const blobId = target.blobId!;
+      if (ownedUrls.current.has(blobId) || loadingBlobs.current.has(blobId)) return;
+      loadingBlobs.current.add(blobId);
+      getMediaBlob(blobId).then(blob => {
+        if (!blob || !wantedBlobs.current.has(blobId)) return;
+        const objectUrl = URL.createObjectURL(blob);
+        ownedUrls.current.set(blobId, objectUrl);
+        setOriginals(prev => ({ ...prev, [blobId]: objectUrl }));
+        if (target.id !== item?.id) {
+          const preload = new Image();
+          preload.src = objectUrl;
+          preload.decode().catch(() => {});
+        }
+      }).catch(console.error).finally(() => loadingBlobs.current.delete(blobId));
+    });
+  }, [item?.id, item?.url, item?.blobId, previousItem?.id, nextItem?.id]);
+
+  useEffect(() => () => {
+    wantedBlobs.current = new Set();
+    ownedUrls.current.forEach(url => URL.revokeObjectURL(url));
+    ownedUrls.current.clear();
+  }, []);
+
+  const startSlideshow = () => {
+    setSlideshow(true);
+    if (document.fullscreenEnabled && !document.fullscreenElement) rootRef.current?.requestFullscreen().catch(() => {});
+  };
+
+  const stopSlideshow = () => {
+    setSlideshow(false);
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+  };
+
+  const goPrevious = () => {
+    if (previousItem) onNavigate(previousItem);
+  };
+
+  const goNext = () => {
+    if (nextItem) onNavigate(nextItem);
+  };
+
+  // Read by the slideshow timer and the video's end, which should not restart as props change.
+  const advanceRef = useRef(() => {});
+  advanceRef.current = () => nextItem ? onNavigate(nextItem) : stopSlideshow();
+
+  const isOpen = !!item;
+  useEffect(() => {
+    if (!isOpen) stopSlideshow();
+  }, [isOpen]);
+
+  // Leaving fullscreen with the browser's own controls ends the slideshow too.
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) setSlideshow(false);
+    };
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  // Videos advance when they end instead.
+  useEffect(() => {
+    if (!slideshow || !item || item.type === MediaType.VIDEO) return;
+    const timer = setTimeout(() => advanceRef.current(), SLIDE_MS);
+    return () => clearTimeout(timer);
+  }, [slideshow, item?.id]);
+
+  useEffect(() => {
+    if (!item) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (e.key === 'Escape') {
+        if (slideshow) stopSlideshow();
+        else onClose();
+      } else if (e.key === 'ArrowLeft') {
+        goPrevious();
+      } else if (e.key === 'ArrowRight') {
+        goNext();
+      } else if (e.key === ' ') {
+        e.preventDefault();
+        if (slideshow) stopSlideshow();
+        else startSlideshow();
+      } else if (e.key === 'i') {
+        setShowInfo(v => !v);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [item, previousItem, nextItem, slideshow, onClose, onNavigate]);
+
+  const originalUrl = !item ? '' : typeof item.url === 'string' && item.url ? item.url : item.blobId ? originals[item.blobId] || '' : '';
+
+  // Edits are applied on the fly; until the render is ready, the (already edited) thumbnail shows.
+  useEffect(() => {
+    const edits = item?.edits;
+    if (!edits || item.type !== MediaType.IMAGE || !originalUrl) return;
+    let objectUrl = '';
+    let cancelled = false;
+    fetch(originalUrl)
+      .then(res => res.blob())
+      .then(original => renderEditedBlob(original, edits, EDITED_VIEW_EDGE))
+      .then(blob => {
+        if (!blob || cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setEdited({ edits, url: objectUrl });
+      })
+      .catch(console.error);
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [originalUrl, item?.edits]);
+
   if (!item) return null;
 
+  const thumbnailUrl = typeof item.thumbnailUrl === 'string' ? item.thumbnailUrl : undefined;
+  const imageUrl = item.edits ? (edited?.edits === item.edits ? edited.url : thumbnailUrl) : originalUrl || thumbnailUrl;
+  const metadataRows = item.metadata ? describeMetadata(item.metadata) : [];
+
+  const commitTitle = () => {
+    const title = titleDraft.trim();
+    if (!title) setTitleDraft(item.title);
+    else if (title !== item.title) onUpdate(item.id, { title });
+  };
+
+  const commitDescription = () => {
+    const description = descriptionDraft.trim();
+    if (description !== (item.description || '')) onUpdate(item.id, { description });
+  };
+
   const handleDownload = () => {
-    if (!item.url) return;
+    if (!originalUrl) return;
     
     const link = document.createElement('a');
-    link.href = item.url as string;
-    link.download = item.originalFileName || `${item.title.replace(/\s+/g, '_')}_vault.${item.extension || 'file'}`;
+    link.href = originalUrl;
+    link.download = getDownloadName(item);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -32,15 +279,46 @@ const DetailModal: React.FC<DetailModalProps> = ({ item, onClose, onDelete, onTo
     return { bg: 'bg-slate-800', text: 'Project File' };
   };
 
+  const handleTouchStart = (e: React.TouchEvent) => {
+    if (e.touches.length === 1) swipeRef.current = { x: e.touches[0].clientX, y: e.touches[0].clientY, multiTouch: false };
+    else if (swipeRef.current) swipeRef.current.multiTouch = true;
+  };
+
+  // Pinches and pans of a zoomed image are not swipes.
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    const start = swipeRef.current;
+    if (!start || e.touches.length > 0) return;
+    swipeRef.current = null;
+    if (start.multiTouch || zoomed) return;
+    const dx = e.changedTouches[0].clientX - start.x;
+    const dy = e.changedTouches[0].clientY - start.y;
+    if (Math.abs(dx) < SWIPE_PX || Math.abs(dx) < Math.abs(dy) * SWIPE_SLOPE) return;
+    if (dx < 0) goNext();
+    else goPrevious();
+  };
+
+  const stageButton = "p-3 rounded-full bg-white/10 text-white hover:bg-white/20 transition-all active:scale-90 backdrop-blur-xl border border-white/10";
+
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/95 backdrop-blur-md transition-all duration-300">
-      <div className="relative max-w-5xl w-full h-full flex flex-col md:flex-row bg-white dark:bg-slate-900 rounded-[2.5rem] overflow-hidden shadow-2xl border border-white/10">
-        {/* Media Side */}
-        <div className="flex-grow bg-black flex items-center justify-center relative min-h-[40vh] md:min-h-0">
+    <div ref={rootRef} className="fixed inset-0 z-50 flex flex-col md:flex-row bg-black overflow-y-auto md:overflow-hidden animate-in fade-in duration-300">
+      {/* Media Side */}
+      <div
+        className="relative flex-grow shrink-0 md:shrink min-h-[75vh] md:min-h-0 flex items-center justify-center overflow-hidden"
+        onTouchStart={handleTouchStart}
+        onTouchEnd={handleTouchEnd}
+      >
+        <div key={item.id} className={`w-full h-full flex items-center justify-center animate-in fade-in ${slideshow ? 'duration-1000' : 'duration-300'}`}>
           {item.type === MediaType.IMAGE ? (
-            <img src={item.url as string} alt={item.title} className="max-w-full max-h-full object-contain p-4" />
+            <ZoomableImage src={imageUrl} alt={item.title} onZoomChange={setZoomed} />
           ) : item.type === MediaType.VIDEO ? (
-            <video src={item.url as string} controls className="max-w-full max-h-full" />
+            <video
+              src={originalUrl || undefined}
+              poster={thumbnailUrl}
+              controls={!slideshow}
+              autoPlay={slideshow}
+              onEnded={() => slideshow && advanceRef.current()}
+              className="max-w-full max-h-full"
+            />
           ) : (
             <div className={`w-full h-full flex flex-col items-center justify-center p-12 text-center ${getBrandStyles(item.extension).bg}`}>
                <IconFile className="w-32 h-32 text-white/20 mb-6" />
@@ -55,16 +333,55 @@ const DetailModal: React.FC<DetailModalProps> = ({ item, onClose, onDelete, onTo
                </div>
             </div>
           )}
-          <button 
-            onClick={onClose}
-            className="absolute top-6 left-6 p-3 rounded-full bg-white/10 text-white hover:bg-white/20 transition-all active:scale-90 backdrop-blur-xl border border-white/10"
+        </div>
+
+        {slideshow ? (
+          <button
+            onClick={stopSlideshow}
+            className="absolute top-6 left-6 px-4 py-3 rounded-full bg-white/5 text-white/40 hover:text-white hover:bg-white/20 transition-all backdrop-blur-xl font-black uppercase tracking-widest text-[10px]"
           >
-            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15 19l-7-7 7-7"/></svg>
+            Exit Slideshow
           </button>
-        </div>
+        ) : (
+          <>
+            <button onClick={onClose} className={`absolute top-6 left-6 ${stageButton}`}>
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15 19l-7-7 7-7"/></svg>
+            </button>
+            {position && (
+              <div className="absolute top-8 left-1/2 -translate-x-1/2 px-4 py-2 rounded-full bg-white/10 text-white/80 backdrop-blur-xl border border-white/10 text-[10px] font-black uppercase tracking-widest pointer-events-none">
+                {position.index + 1} / {position.total}
+              </div>
+            )}
+            <div className="absolute top-6 right-6 flex gap-3">
+              {item.type === MediaType.IMAGE && !item.deletedAt && (
+                <button onClick={() => onEdit(item)} title="Edit" className={stageButton}>
+                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 013.536 3.536L12.536 16.536a2 2 0 01-.878.513L8 18l.951-3.658A2 2 0 019.464 13.464z"/></svg>
+                </button>
+              )}
+              <button onClick={startSlideshow} title="Slideshow (Space)" className={stageButton}>
+                <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5.5v13a1 1 0 001.5.86l11-6.5a1 1 0 000-1.72l-11-6.5A1 1 0 008 5.5z"/></svg>
+              </button>
+              <button onClick={() => setShowInfo(v => !v)} title="Info (I)" className={`${stageButton} ${showInfo ? 'bg-white/25' : ''}`}>
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 16v-4m0-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"/></svg>
+              </button>
+            </div>
+            {previousItem && (
+              <button onClick={goPrevious} title="Previous (←)" className={`hidden md:block absolute left-6 top-1/2 -translate-y-1/2 ${stageButton}`}>
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15 19l-7-7 7-7"/></svg>
+              </button>
+            )}
+            {nextItem && (
+              <button onClick={goNext} title="Next (→)" className={`hidden md:block absolute right-6 top-1/2 -translate-y-1/2 ${stageButton}`}>
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M9 5l7 7-7 7"/></svg>
+              </button>
+            )}
+          </>
+        )}
+      </div>
 
-        {/* Info Side */}
-        <div className="w-full md:w-[380px] flex flex-col bg-white dark:bg-slate-900 p-10">
+      {/* Info Side */}
+      {showInfo && !slideshow && (
+        <div className="w-full md:w-[380px] shrink-0 flex flex-col bg-white dark:bg-slate-900 p-10 md:overflow-y-auto custom-scrollbar">
           <div className="mb-10">
             <div className="flex items-center gap-3 mb-4">
               <span className="px-3 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 rounded-lg text-[10px] font-black uppercase tracking-widest">
@@ -73,24 +390,133 @@ const DetailModal: React.FC<DetailModalProps> = ({ item, onClose, onDelete, onTo
               <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
                 {item.size || '0 MB'}
               </span>
+              {item.edits && (
+                <span className="px-3 py-1 bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400 rounded-lg text-[10px] font-black uppercase tracking-widest">
+                  Edited
+                </span>
+              )}
             </div>
-            <h2 className="text-3xl font-black text-slate-900 dark:text-white mb-4 tracking-tighter leading-tight break-words">{item.title}</h2>
+            <textarea
+              rows={1}
+              className="w-full resize-none text-3xl font-black text-slate-900 dark:text-white mb-4 tracking-tighter leading-tight break-words bg-transparent outline-none rounded-xl border-2 border-transparent hover:border-slate-100 dark:hover:border-slate-800 focus:border-blue-500/20 [field-sizing:content]"
+              value={titleDraft}
+              onChange={(e) => setTitleDraft(e.target.value)}
+              onBlur={commitTitle}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  e.currentTarget.blur();
+                }
+              }}
+            />
             <p className="text-slate-400 font-bold text-xs uppercase tracking-widest mb-6">
               Stored on {new Date(item.createdAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
             </p>
-            {item.description && (
-              <p className="text-slate-600 dark:text-slate-400 leading-relaxed mb-8 font-medium italic">"{item.description}"</p>
+            <textarea
+              rows={3}
+              placeholder="Add a description"
+              className="w-full resize-none text-slate-600 dark:text-slate-400 leading-relaxed mb-6 font-medium italic bg-transparent outline-none rounded-xl border-2 border-transparent hover:border-slate-100 dark:hover:border-slate-800 focus:border-blue-500/20 placeholder-slate-300 dark:placeholder-slate-600"
+              value={descriptionDraft}
+              onChange={(e) => setDescriptionDraft(e.target.value)}
+              onBlur={commitDescription}
+            />
+            <TagInput
+              tags={item.tags}
+              suggestions={allTags}
+              onChange={(tags) => onUpdate(item.id, { tags })}
+            />
+            {!item.deletedAt && canReanalyze(item) && (
+              <div className="mt-6 flex items-center justify-between gap-4">
+                <p className={`text-[10px] font-black uppercase tracking-widest min-w-0 break-words ${analysisJob?.status === 'failed' ? 'text-rose-500' : 'text-slate-400'}`}>
+                  {describeAnalysis(item, analysisJob)}
+                </p>
+                {(!analysisJob || analysisJob.status === 'failed') && (
+                  <button
+                    onClick={() => onAnalyze(item.id)}
+                    className="shrink-0 px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 transition-all active:scale-95"
+                  >
+                    {analysisJob ? 'Retry' : item.analyzedAt ? 'Re-analyze' : 'Analyze'}
+                  </button>
+                )}
+              </div>
+            )}
+            {metadataRows.length > 0 && (
+              <dl className="mt-8 space-y-3">
+                {metadataRows.map(row => (
+                  <div key={row.label} className="flex items-baseline justify-between gap-4">
+                    <dt className="text-[10px] font-black text-slate-400 uppercase tracking-widest shrink-0">{row.label}</dt>
+                    <dd className="text-sm font-bold text-slate-700 dark:text-slate-300 text-right break-words min-w-0">{row.value}</dd>
+                  </div>
+                ))}
+              </dl>
             )}
-            <div className="flex flex-wrap gap-2">
-              {item.tags.map(tag => (
-                <span key={tag} className="px-4 py-1.5 bg-slate-100 dark:bg-slate-800 rounded-xl text-[10px] font-black text-slate-500 dark:text-slate-500 uppercase tracking-widest">
-                  #{tag}
-                </span>
-              ))}
-            </div>
           </div>
 
           <div className="mt-auto space-y-4">
+            {showAlbums && (
+              <div className="max-h-60 overflow-y-auto custom-scrollbar rounded-2xl bg-slate-50 dark:bg-slate-800/50 p-3 space-y-1">
+                {albums.map(album => {
+                  const isMember = album.itemIds.includes(item.id);
+                  const isCover = album.coverItemId === item.id;
+                  return (
+                    <div key={album.id} className="flex items-center gap-2">
+                      <button
+                        onClick={() => onToggleAlbum(album.id, item.id)}
+                        className={`flex-grow flex items-center gap-3 px-3 py-2.5 rounded-xl text-left text-sm font-bold transition-all ${isMember ? 'bg-blue-600 text-white' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+                      >
+                        <IconAlbum className="w-4 h-4 shrink-0" />
+                        <span className="truncate">{album.name}</span>
+                      </button>
+                      {isMember && item.type !== MediaType.DOCUMENT && (
+                        <button
+                          onClick={() => onSetAlbumCover(album.id, item.id)}
+                          disabled={isCover}
+                          className={`px-3 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${isCover ? 'text-emerald-600' : 'text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}
+                        >
+                          {isCover ? 'Cover' : 'Set Cover'}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+                <form
+                  className="flex items-center gap-2 pt-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    const name = newAlbumName.trim();
+                    if (!name) return;
+                    onCreateAlbum(name, item.id);
+                    setNewAlbumName('');
+                  }}
+                >
+                  <input
+                    placeholder="New album"
+                    className="flex-grow min-w-0 px-3 py-2.5 rounded-xl bg-white dark:bg-slate-900 text-sm font-bold text-slate-900 dark:text-white outline-none"
+                    value={newAlbumName}
+                    onChange={(e) => setNewAlbumName(e.target.value)}
+                  />
+                  <button type="submit" className="p-2.5 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900">
+                    <IconPlus className="w-4 h-4" />
+                  </button>
+                </form>
+              </div>
+            )}
+            <button
+              onClick={() => setShowAlbums(v => !v)}
+              className="w-full flex items-center justify-center gap-2 py-4 rounded-2xl bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400 font-black uppercase tracking-widest text-[10px] transition-all active:scale-95"
+            >
+              <IconAlbum className="w-4 h-4" />
+              Add to Album
+            </button>
+            {!item.deletedAt && (
+              <button
+                onClick={() => onFindSimilar(item)}
+                className="w-full flex items-center justify-center gap-2 py-4 rounded-2xl bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400 font-black uppercase tracking-widest text-[10px] transition-all active:scale-95"
+              >
+                <IconSearch className="w-4 h-4" />
+                Find Similar
+              </button>
+            )}
             <div className="grid grid-cols-2 gap-4">
               <button 
                 onClick={() => onToggleFavorite(item.id)}
@@ -111,19 +537,45 @@ const DetailModal: React.FC<DetailModalProps> = ({ item, onClose, onDelete, onTo
                 Download
               </button>
             </div>
-            <button 
-              onClick={() => {
-                onDelete(item.id);
-                onClose();
-              }}
-              className="w-full flex items-center justify-center gap-2 py-4 rounded-2xl bg-slate-50 hover:bg-rose-50 hover:text-rose-600 dark:bg-slate-900 dark:hover:bg-rose-900/20 text-slate-300 dark:text-slate-700 transition-all font-black uppercase tracking-widest text-[10px]"
-            >
-              <IconTrash className="w-4 h-4" />
-              Remove Permanently
-            </button>
+            {item.deletedAt ? (
+              <>
+                <button
+                  onClick={() => {
+                    onRestore(item.id);
+                    onClose();
+                  }}
+                  className="w-full py-4 rounded-2xl bg-blue-600 text-white hover:bg-blue-500 transition-all font-black uppercase tracking-widest text-[10px] shadow-lg shadow-blue-500/20"
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={() => {
+                    if (!window.confirm(`Delete "${item.title}" forever? This cannot be undone.`)) return;
+                    onPurge(item.id);
+                    onClose();
+                  }}
+                  className="w-full flex items-center justify-center gap-2 py-4 rounded-2xl bg-slate-50 hover:bg-rose-50 hover:text-rose-600 dark:bg-slate-900 dark:hover:bg-rose-900/20 text-slate-300 dark:text-slate-700 transition-all font-black uppercase tracking-widest text-[10px]"
+                >
+                  <IconTrash className="w-4 h-4" />
+                  Delete Forever
+                </button>
+              </>
+            ) : (
+              <button 
+                onClick={() => {
+                  if (!window.confirm(`Move "${item.title}" to the trash? It can be restored for ${trashRetentionDays} days.`)) return;
+                  onDelete(item.id);
+                  onClose();
+                }}
+                className="w-full flex items-center justify-center gap-2 py-4 rounded-2xl bg-slate-50 hover:bg-rose-50 hover:text-rose-600 dark:bg-slate-900 dark:hover:bg-rose-900/20 text-slate-300 dark:text-slate-700 transition-all font-black uppercase tracking-widest text-[10px]"
+              >
+                <IconTrash className="w-4 h-4" />
+                Move to Trash
+              </button>
+            )}
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
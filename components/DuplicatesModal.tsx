@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import { MediaItem, MediaType } from '../types';
+import { IconFile, IconTrash } from './Icons';
+import { findDuplicates, needsHash } from '../services/hashService';
+
+interface DuplicatesModalProps {
+  items: MediaItem[];
+  onTrash: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+const DuplicatesModal: React.FC<DuplicatesModalProps> = ({ items, onTrash, onClose }) => {
+  const groups = useMemo(() => findDuplicates(items), [items]);
+  const pending = useMemo(() => items.filter(needsHash).length, [items]);
+  // Which copy to keep per group, keyed by the group's first item; defaults to the oldest.
+  const [keep, setKeep] = useState<Record<string, string>>({});
+
+  const keptId = (groupItems: MediaItem[]) =>
+    keep[groupItems[0].id] || [...groupItems].sort((a, b) => a.createdAt - b.createdAt)[0].id;
+
+  const extrasOf = (groupItems: MediaItem[]) => {
+    const kept = keptId(groupItems);
+    return groupItems.filter(item => item.id !== kept).map(item => item.id);
+  };
+
+  const exactExtras = groups.filter(group => group.kind === 'exact').flatMap(group => extrasOf(group.items));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-xl transition-all">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-2xl max-h-full overflow-y-auto custom-scrollbar rounded-[3rem] shadow-2xl border border-slate-200 dark:border-slate-800 p-10 space-y-8">
+        <div>
+          <h2 className="text-3xl font-black text-slate-900 dark:text-white tracking-tighter">Duplicates</h2>
+          <p className="text-slate-500 dark:text-slate-400 font-medium italic mt-1">
+            {groups.length === 0 ? 'No duplicates found.' : `${groups.length} groups. Tap the copy to keep; the rest go to the trash.`}
+          </p>
+          {pending > 0 && (
+            <p className="mt-2 text-[10px] font-black text-blue-600 uppercase tracking-widest">Still fingerprinting {pending} items</p>
+          )}
+        </div>
+
+        {exactExtras.length > 0 && (
+          <button
+            onClick={() => onTrash(exactExtras)}
+            className="w-full py-5 rounded-[1.5rem] font-black bg-slate-900 dark:bg-white text-white dark:text-slate-900 hover:scale-[1.02] active:scale-95 transition-all shadow-xl uppercase tracking-widest text-sm"
+          >
+            Trash {exactExtras.length} identical copies
+          </button>
+        )}
+
+        {groups.map(group => {
+          const kept = keptId(group.items);
+          return (
+            <section key={`${group.kind}-${group.items[0].id}`} className="space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <span className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest ${group.kind === 'exact' ? 'bg-rose-100 text-rose-600 dark:bg-rose-900/30' : 'bg-amber-100 text-amber-600 dark:bg-amber-900/30'}`}>
+                  {group.kind === 'exact' ? 'Identical' : 'Similar'}
+                </span>
+                <button
+                  onClick={() => onTrash(extrasOf(group.items))}
+                  className="flex items-center gap-2 text-[10px] font-black text-slate-400 hover:text-rose-600 uppercase tracking-widest transition-colors"
+                >
+                  <IconTrash className="w-4 h-4" />
+                  Trash {group.items.length - 1}
+                </button>
+              </div>
+              <div className="grid grid-cols-3 md:grid-cols-4 gap-3">
+                {group.items.map(item => (
+                  <button
+                    key={item.id}
+                    onClick={() => setKeep(prev => ({ ...prev, [group.items[0].id]: item.id }))}
+                    className={`text-left rounded-2xl overflow-hidden transition-all ${item.id === kept ? 'ring-4 ring-blue-500' : 'opacity-60 hover:opacity-100'}`}
+                  >
+                    <div className="aspect-square bg-slate-100 dark:bg-slate-800 flex items-center justify-center">
+                      {typeof item.thumbnailUrl === 'string' ? (
+                        <img src={item.thumbnailUrl} alt={item.title} className="w-full h-full object-cover" loading="lazy" />
+                      ) : item.type === MediaType.IMAGE && typeof item.url === 'string' && item.url ? (
+                        <img src={item.url} alt={item.title} className="w-full h-full object-cover" loading="lazy" />
+                      ) : (
+                        <IconFile className="w-8 h-8 text-slate-300" />
+                      )}
+                    </div>
+                    <div className="p-2">
+                      <p className="text-xs font-bold text-slate-900 dark:text-white truncate">{item.title}</p>
+                      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                        {item.id === kept ? 'Keep' : `${item.size || ''} · ${new Date(item.createdAt).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </section>
+          );
+        })}
+
+        <button onClick={onClose} className="w-full text-[10px] font-black text-slate-400 hover:text-slate-600 uppercase tracking-[0.2em]">Close</button>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatesModal;
\ No newline at end of file
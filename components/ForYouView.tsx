@@ -0,0 +1,117 @@
+import React, { useMemo } from 'react';
+import { AppSettings, MediaItem, MediaType } from '../types';
+import { IconPhotos } from './Icons';
+import MediaGrid from './MediaGrid';
+import { CurationCard, CurationKind } from '../services/curationService';
+
+interface ForYouViewProps {
+  cards: CurationCard[];
+  items: MediaItem[];
+  // Written captions by card id; cards without one show their subtitle alone.
+  captions: Record<string, string>;
+  activeCardId: string | null;
+  gridSize: 'small' | 'medium' | 'large';
+  timelineDate?: AppSettings['timelineDate'];
+  onOpenCard: (id: string | null) => void;
+  onItemClick: (item: MediaItem) => void;
+  onToggleFavorite: (id: string) => void;
+  isDetailOpen?: boolean;
+  selectedIds?: Set<string>;
+  onToggleSelect?: (id: string) => void;
+  onSetSelected?: (ids: string[], selected: boolean) => void;
+}
+
+const KIND_LABELS: Record<CurationKind, string> = {
+  'on-this-day': 'Memories',
+  trip: 'Trip',
+  'recent-favorites': 'Favorites',
+  'best-of-month': 'Highlights'
+};
+
+const CardCover: React.FC<{ item?: MediaItem }> = ({ item }) => {
+  const preview = typeof item?.thumbnailUrl === 'string' ? item.thumbnailUrl : item?.type === MediaType.IMAGE ? item.url as string : '';
+  if (item && preview) {
+    return <img src={preview} alt={item.title} className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105" loading="lazy" />;
+  }
+  return (
+    <div className="w-full h-full flex items-center justify-center text-slate-300 dark:text-slate-600">
+      <IconPhotos className="w-12 h-12" />
+    </div>
+  );
+};
+
+const ForYouView: React.FC<ForYouViewProps> = ({
+  cards, items, captions, activeCardId, gridSize, timelineDate, onOpenCard, onItemClick, onToggleFavorite, isDetailOpen, selectedIds, onToggleSelect, onSetSelected
+}) => {
+  const byId = useMemo(() => new Map(items.map(item => [item.id, item])), [items]);
+  const activeCard = cards.find(card => card.id === activeCardId);
+
+  if (activeCard) {
+    const cardItems = activeCard.itemIds.map(id => byId.get(id)).filter((item): item is MediaItem => !!item);
+    return (
+      <div className="animate-in fade-in slide-in-from-bottom-2 duration-500">
+        <div className="flex items-center gap-4 mb-10 min-w-0">
+          <button
+            onClick={() => onOpenCard(null)}
+            className="p-3 rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-slate-900 dark:hover:text-white transition-all active:scale-90"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15 19l-7-7 7-7"/></svg>
+          </button>
+          <div className="min-w-0">
+            <p className="text-2xl font-black text-slate-900 dark:text-white tracking-tight truncate">{activeCard.title}</p>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest truncate">
+              {captions[activeCard.id] ? `${captions[activeCard.id]} · ${activeCard.subtitle}` : activeCard.subtitle}
+            </p>
+          </div>
+        </div>
+        <MediaGrid
+          items={cardItems}
+          gridSize={gridSize}
+          timelineDate={timelineDate}
+          onItemClick={onItemClick}
+          onToggleFavorite={onToggleFavorite}
+          activeTab="for-you"
+          isDetailOpen={isDetailOpen}
+          selectedIds={selectedIds}
+          onToggleSelect={onToggleSelect}
+          onSetSelected={onSetSelected}
+        />
+      </div>
+    );
+  }
+
+  if (cards.length === 0) {
+    return (
+      <div className="py-24 text-center animate-in fade-in duration-500">
+        <div className="w-24 h-24 bg-slate-100 dark:bg-slate-800 rounded-[2.5rem] flex items-center justify-center mx-auto mb-6 text-slate-300 shadow-inner">
+          <IconPhotos className="w-12 h-12" />
+        </div>
+        <h4 className="text-xl font-black text-slate-900 dark:text-white mb-2 tracking-tight">Nothing curated yet</h4>
+        <p className="text-slate-500 dark:text-slate-400 font-medium px-8 max-w-sm mx-auto">
+          Memories, trips and highlights appear here as your vault grows. Liking and opening items helps pick the best.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 animate-in fade-in slide-in-from-bottom-2 duration-500">
+      {cards.map(card => (
+        <button key={card.id} onClick={() => onOpenCard(card.id)} className="group relative aspect-[16/10] rounded-[2.5rem] overflow-hidden bg-slate-100 dark:bg-slate-800 text-left shadow-sm hover:shadow-2xl transition-all active:scale-[0.98]">
+          <CardCover item={byId.get(card.coverId)} />
+          <div className="absolute inset-0 bg-gradient-to-t from-slate-950/85 via-slate-950/10 to-transparent" />
+          <div className="absolute inset-x-0 bottom-0 p-6 md:p-8">
+            <p className="text-[10px] font-black text-white/60 uppercase tracking-widest mb-1">{KIND_LABELS[card.kind]}</p>
+            <p className="text-2xl font-black text-white tracking-tight truncate">{card.title}</p>
+            {captions[card.id] && (
+              <p className="text-sm text-white/85 font-medium italic mt-1 line-clamp-2">{captions[card.id]}</p>
+            )}
+            <p className="text-[10px] font-bold text-white/60 uppercase tracking-widest mt-2">{card.subtitle}</p>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ForYouView;
\ No newline at end of file
@@ -0,0 +1,361 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageEdits, MediaItem } from '../types';
+import { IconDownload } from './Icons';
+import { hasEdits, IMAGE_FILTERS, NO_EDITS, orientedSize, renderEditedBlob, renderEdits } from '../services/editService';
+import { downloadBlob, getDownloadName, loadOriginal } from '../services/batchService';
+
+interface ImageEditorProps {
+  item: MediaItem;
+  // Undefined reverts the item to its original.
+  onSave: (edits: ImageEdits | undefined) => void;
+  onClose: () => void;
+}
+
+type Panel = 'crop' | 'adjust' | 'filters';
+type CropRect = NonNullable<ImageEdits['crop']>;
+type CropHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const PANEL_OPTIONS: { id: Panel; label: string }[] = [
+  { id: 'crop', label: 'Crop' },
+  { id: 'adjust', label: 'Adjust' },
+  { id: 'filters', label: 'Filters' }
+];
+
+// Width over height; 'original' follows the (rotated) image itself.
+const ASPECT_OPTIONS: { id: string; label: string; ratio: number | 'original' | null }[] = [
+  { id: 'free', label: 'Free', ratio: null },
+  { id: 'original', label: 'Original', ratio: 'original' },
+  { id: '1:1', label: '1:1', ratio: 1 },
+  { id: '4:5', label: '4:5', ratio: 4 / 5 },
+  { id: '16:9', label: '16:9', ratio: 16 / 9 },
+  { id: '9:16', label: '9:16', ratio: 9 / 16 }
+];
+
+const ADJUSTMENTS: { key: 'exposure' | 'contrast' | 'saturation' | 'temperature'; label: string }[] = [
+  { key: 'exposure', label: 'Exposure' },
+  { key: 'contrast', label: 'Contrast' },
+  { key: 'saturation', label: 'Saturation' },
+  { key: 'temperature', label: 'Temperature' }
+];
+
+// The preview is drawn from a downscaled copy so sliders stay responsive on large originals.
+const PREVIEW_EDGE = 1600;
+const MIN_CROP = 0.05;
+const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// The largest centred crop with the given width-to-height ratio, in fractions of the frame.
+const fitCrop = (ratio: number, frame: { width: number; height: number }): CropRect => {
+  const fractionRatio = (ratio * frame.height) / frame.width;
+  const width = Math.min(1, fractionRatio);
+  const height = width / fractionRatio;
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+// Drags one corner while the opposite one stays put; `ratio` is width over height in fractions.
+const resizeCrop = (start: CropRect, handle: CropHandle, dx: number, dy: number, ratio: number | null): CropRect => {
+  const west = handle.includes('w');
+  const north = handle.includes('n');
+  const anchorX = west ? start.x + start.width : start.x;
+  const anchorY = north ? start.y + start.height : start.y;
+  const maxWidth = west ? anchorX : 1 - anchorX;
+  const maxHeight = north ? anchorY : 1 - anchorY;
+  let width = clamp(start.width + (west ? -dx : dx), MIN_CROP, maxWidth);
+  let height = clamp(start.height + (north ? -dy : dy), MIN_CROP, maxHeight);
+  if (ratio) {
+    height = width / ratio;
+    if (height > maxHeight) {
+      height = maxHeight;
+      width = height * ratio;
+    }
+  }
+  return { x: west ? anchorX - width : anchorX, y: north ? anchorY - height : anchorY, width, height };
+};
+
+const exportType = (item: MediaItem) => {
+  const ext = item.extension?.toLowerCase();
+  if (ext === 'png') return { type: 'image/png', ext: 'png' };
+  if (ext === 'webp') return { type: 'image/webp', ext: 'webp' };
+  return { type: 'image/jpeg', ext: 'jpg' };
+};
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ item, onSave, onClose }) => {
+  const [source, setSource] = useState<HTMLCanvasElement | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [edits, setEdits] = useState<ImageEdits>(item.edits || NO_EDITS);
+  const [panel, setPanel] = useState<Panel>('crop');
+  const [aspectId, setAspectId] = useState('free');
+  const [isExporting, setIsExporting] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ handle: CropHandle; clientX: number; clientY: number; start: CropRect } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const original = await loadOriginal(item);
+      if (!original) throw new Error('Original not found');
+      const bitmap = await createImageBitmap(original, { imageOrientation: 'from-image' });
+      try {
+        const copy = renderEdits(bitmap, bitmap.width, bitmap.height, NO_EDITS, PREVIEW_EDGE);
+        if (!copy) throw new Error('Canvas unavailable');
+        if (!cancelled) setSource(copy);
+      } finally {
+        bitmap.close();
+      }
+    };
+    load().catch(err => {
+      console.error("Editor Load Error", err);
+      if (!cancelled) setLoadError(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [item.id]);
+
+  // The crop panel shows the whole frame with the crop drawn over it.
+  useEffect(() => {
+    if (!source || !canvasRef.current) return;
+    renderEdits(source, source.width, source.height, panel === 'crop' ? { ...edits, crop: undefined } : edits, PREVIEW_EDGE, canvasRef.current);
+  }, [source, edits, panel]);
+
+  // Keys stay with the editor, rather than also reaching the viewer underneath.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.stopPropagation();
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [onClose]);
+
+  const frame = source ? orientedSize(source.width, source.height, edits.rotation) : { width: 1, height: 1 };
+  const crop = edits.crop || FULL_CROP;
+  const aspect = ASPECT_OPTIONS.find(option => option.id === aspectId)!;
+  const pixelRatio = aspect.ratio === 'original' ? frame.width / frame.height : aspect.ratio;
+  const fractionRatio = pixelRatio ? (pixelRatio * frame.height) / frame.width : null;
+
+  const update = (patch: Partial<ImageEdits>) => setEdits(prev => ({ ...prev, ...patch }));
+
+  const chooseAspect = (id: string) => {
+    setAspectId(id);
+    const option = ASPECT_OPTIONS.find(o => o.id === id)!;
+    if (option.ratio === null) return;
+    update({ crop: option.ratio === 'original' ? undefined : fitCrop(option.ratio, frame) });
+  };
+
+  // Turning the frame invalidates a crop drawn on it; mirroring just mirrors the crop too.
+  const rotate = (quarterTurns: number) => {
+    update({ rotation: ((edits.rotation + quarterTurns * 90 + 360) % 360) as ImageEdits['rotation'], crop: undefined });
+    setAspectId('free');
+  };
+
+  const flip = (axis: 'horizontal' | 'vertical') => {
+    const mirrored = edits.crop && (axis === 'horizontal'
+      ? { ...edits.crop, x: 1 - edits.crop.x - edits.crop.width }
+      : { ...edits.crop, y: 1 - edits.crop.y - edits.crop.height });
+    update(axis === 'horizontal'
+      ? { flipHorizontal: !edits.flipHorizontal, crop: mirrored }
+      : { flipVertical: !edits.flipVertical, crop: mirrored });
+  };
+
+  const handleCropPointerDown = (handle: CropHandle) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { handle, clientX: e.clientX, clientY: e.clientY, start: crop };
+  };
+
+  const handleCropPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const bounds = overlayRef.current?.getBoundingClientRect();
+    if (!drag || !bounds) return;
+    const dx = (e.clientX - drag.clientX) / bounds.width;
+    const dy = (e.clientY - drag.clientY) / bounds.height;
+    const { start } = drag;
+    update({
+      crop: drag.handle === 'move'
+        ? { ...start, x: clamp(start.x + dx, 0, 1 - start.width), y: clamp(start.y + dy, 0, 1 - start.height) }
+        : resizeCrop(start, drag.handle, dx, dy, fractionRatio)
+    });
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const original = await loadOriginal(item);
+      if (!original) throw new Error('Original not found');
+      const { type, ext } = exportType(item);
+      const edited = await renderEditedBlob(original, edits, Infinity, type);
+      if (!edited) throw new Error('Could not encode the edited image');
+      downloadBlob(edited, `${getDownloadName(item).replace(/\.[^.]+$/, '')}-edited.${ext}`);
+    } catch (err) {
+      console.error("Export Error", err);
+      window.alert('The edited copy could not be exported.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex flex-col md:flex-row bg-black overflow-y-auto md:overflow-hidden animate-in fade-in duration-300">
+      <div className="relative flex-grow shrink-0 md:shrink min-h-[60vh] md:min-h-0 flex items-center justify-center p-6 md:p-12">
+        {loadError ? (
+          <p className="text-white/60 font-black uppercase tracking-widest text-xs">The original could not be read</p>
+        ) : !source ? (
+          <p className="text-white/40 font-black uppercase tracking-widest text-xs animate-pulse">Loading original…</p>
+        ) : null}
+        <div className={`relative ${source ? '' : 'hidden'}`}>
+          <canvas ref={canvasRef} className="block max-w-full max-h-[55vh] md:max-h-[85vh]" />
+          {panel === 'crop' && source && (
+            <div
+              ref={overlayRef}
+              className="absolute inset-0 overflow-hidden touch-none"
+              onPointerMove={handleCropPointerMove}
+              onPointerUp={() => {
+                dragRef.current = null;
+              }}
+            >
+              <div
+                className="absolute border-2 border-white cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                style={{ left: `${crop.x * 100}%`, top: `${crop.y * 100}%`, width: `${crop.width * 100}%`, height: `${crop.height * 100}%` }}
+                onPointerDown={handleCropPointerDown('move')}
+              >
+                {(['nw', 'ne', 'sw', 'se'] as CropHandle[]).map(handle => (
+                  <div
+                    key={handle}
+                    onPointerDown={handleCropPointerDown(handle)}
+                    className={`absolute w-5 h-5 bg-white rounded-full shadow-lg ${handle.includes('n') ? '-top-2.5' : '-bottom-2.5'} ${handle.includes('w') ? '-left-2.5' : '-right-2.5'} ${handle === 'nw' || handle === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="w-full md:w-[380px] shrink-0 flex flex-col bg-white dark:bg-slate-900 p-10 md:overflow-y-auto custom-scrollbar">
+        <h2 className="text-3xl font-black text-slate-900 dark:text-white tracking-tighter mb-2">Edit</h2>
+        <p className="text-slate-400 font-bold text-xs uppercase tracking-widest mb-8">The original is kept untouched</p>
+
+        <div className="flex gap-1.5 p-1 bg-slate-100 dark:bg-slate-900 rounded-xl mb-8">
+          {PANEL_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setPanel(option.id)}
+              className={`flex-1 px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${panel === option.id ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' : 'text-slate-400'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {panel === 'crop' ? (
+          <div className="space-y-8">
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Aspect</p>
+              <div className="grid grid-cols-3 gap-2">
+                {ASPECT_OPTIONS.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => chooseAspect(option.id)}
+                    className={`py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 ${aspectId === option.id ? 'bg-blue-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400'}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Rotate & Flip</p>
+              <div className="grid grid-cols-2 gap-2">
+                {[
+                  { label: 'Rotate Left', action: () => rotate(-1) },
+                  { label: 'Rotate Right', action: () => rotate(1) },
+                  { label: 'Flip Horizontal', action: () => flip('horizontal') },
+                  { label: 'Flip Vertical', action: () => flip('vertical') }
+                ].map(control => (
+                  <button
+                    key={control.label}
+                    onClick={control.action}
+                    className="py-3 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400 text-[10px] font-black uppercase tracking-widest transition-all active:scale-95"
+                  >
+                    {control.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        ) : panel === 'adjust' ? (
+          <div className="space-y-6">
+            {ADJUSTMENTS.map(({ key, label }) => (
+              <label key={key} className="block">
+                <span className="flex items-center justify-between mb-2">
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</span>
+                  <span className="text-sm font-bold text-slate-700 dark:text-slate-300 tabular-nums">{edits[key] > 0 ? `+${edits[key]}` : edits[key]}</span>
+                </span>
+                <input
+                  type="range"
+                  min={-100}
+                  max={100}
+                  value={edits[key]}
+                  onChange={(e) => update({ [key]: Number(e.target.value) })}
+                  onDoubleClick={() => update({ [key]: 0 })}
+                  className="w-full accent-blue-600"
+                />
+              </label>
+            ))}
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-2">
+            {IMAGE_FILTERS.map(filter => (
+              <button
+                key={filter.id}
+                onClick={() => update({ filter: filter.id })}
+                className={`py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 ${edits.filter === filter.id ? 'bg-blue-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400'}`}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-auto pt-10 space-y-4">
+          <button
+            onClick={handleExport}
+            disabled={!source || isExporting}
+            className="w-full flex items-center justify-center gap-2 py-4 rounded-2xl bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400 font-black uppercase tracking-widest text-[10px] transition-all active:scale-95 disabled:opacity-50"
+          >
+            <IconDownload className="w-4 h-4" />
+            {isExporting ? 'Exporting…' : 'Export Edited Copy'}
+          </button>
+          <div className="grid grid-cols-2 gap-4">
+            <button
+              onClick={onClose}
+              className="py-4 rounded-2xl bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400 font-black uppercase tracking-widest text-[10px] transition-all active:scale-95"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(hasEdits(edits) ? edits : undefined)}
+              disabled={!source}
+              className="py-4 rounded-2xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-black uppercase tracking-widest text-[10px] transition-all active:scale-95 shadow-xl shadow-slate-900/10 dark:shadow-white/10 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+          {item.edits && (
+            <button
+              onClick={() => onSave(undefined)}
+              className="w-full py-4 rounded-2xl bg-slate-50 hover:bg-rose-50 hover:text-rose-600 dark:bg-slate-900 dark:hover:bg-rose-900/20 text-slate-300 dark:text-slate-700 transition-all font-black uppercase tracking-widest text-[10px]"
+            >
+              Revert to Original
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditor;
\ No newline at end of file
@@ -0,0 +1,252 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { AppSettings, MediaItem, MediaType } from '../types';
+import { IconPlus } from './Icons';
+import MediaGrid from './MediaGrid';
+import { LAND, WATER } from '../services/worldOutline';
+import { clusterBounds, clusterItems, hasLocation, MAP_HEIGHT, MAP_WIDTH, MapCluster, ringToPath } from '../services/geoService';
+
+interface MapViewProps {
+  items: MediaItem[];
+  gridSize: 'small' | 'medium' | 'large';
+  timelineDate?: AppSettings['timelineDate'];
+  onItemClick: (item: MediaItem) => void;
+  onToggleFavorite: (id: string) => void;
+  isDetailOpen?: boolean;
+}
+
+interface Viewport {
+  x: number;
+  y: number;
+  width: number;
+}
+
+const WORLD: Viewport = { x: 0, y: 0, width: MAP_WIDTH };
+const MIN_WIDTH = MAP_WIDTH / 256;
+// Cluster cells and marker sizes are fractions of the visible width so they stay the same
+// size on screen at every zoom level.
+const CLUSTER_CELL = 0.07;
+const MARKER_RADIUS = 0.016;
+const DRAG_SLOP = 4;
+
+// The outline never changes, so its paths are built once per session.
+const LAND_PATHS = LAND.map(ringToPath);
+const WATER_PATHS = WATER.map(ringToPath);
+
+const clampViewport = ({ x, y, width }: Viewport): Viewport => {
+  const w = Math.min(MAP_WIDTH, Math.max(MIN_WIDTH, width));
+  const h = w / 2;
+  return {
+    x: Math.min(MAP_WIDTH - w, Math.max(0, x)),
+    y: Math.min(MAP_HEIGHT - h, Math.max(0, y)),
+    width: w
+  };
+};
+
+const getPreviewUrl = (item: MediaItem) =>
+  typeof item.thumbnailUrl === 'string' ? item.thumbnailUrl : item.type === MediaType.IMAGE && typeof item.url === 'string' ? item.url : '';
+
+const MapView: React.FC<MapViewProps> = ({ items, gridSize, timelineDate, onItemClick, onToggleFavorite, isDetailOpen }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ clientX: number; clientY: number; start: Viewport; moved: boolean } | null>(null);
+  // useId output contains characters that are not valid inside url(#…) references.
+  const clipPrefix = `map${useId().replace(/[^\w-]/g, '')}`;
+  const [viewport, setViewport] = useState<Viewport>(WORLD);
+  // Ids rather than a cluster, since clusters are rebuilt whenever the zoom changes.
+  const [pickedIds, setPickedIds] = useState<Set<string> | null>(null);
+
+  const located = useMemo(() => items.filter(hasLocation), [items]);
+  const clusters = useMemo(() => clusterItems(located, viewport.width * CLUSTER_CELL), [located, viewport.width]);
+  const picked = useMemo(() => pickedIds ? located.filter(item => pickedIds.has(item.id)) : located, [located, pickedIds]);
+
+  const height = viewport.width / 2;
+  const radius = viewport.width * MARKER_RADIUS;
+
+  // Client coordinates to map units; the SVG keeps a 2:1 aspect ratio, so one scale fits both axes.
+  const toMap = (clientX: number, clientY: number) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: viewport.x + ((clientX - rect.left) / rect.width) * viewport.width,
+      y: viewport.y + ((clientY - rect.top) / rect.height) * height
+    };
+  };
+
+  const zoomAround = (factor: number, center = { x: viewport.x + viewport.width / 2, y: viewport.y + height / 2 }) => {
+    setViewport(prev => {
+      const width = Math.min(MAP_WIDTH, Math.max(MIN_WIDTH, prev.width * factor));
+      const scale = width / prev.width;
+      return clampViewport({
+        x: center.x - (center.x - prev.x) * scale,
+        y: center.y - (center.y - prev.y) * scale,
+        width
+      });
+    });
+  };
+
+  // React attaches wheel listeners as passive, which would let the page scroll while zooming.
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      setViewport(prev => {
+        const width = Math.min(MAP_WIDTH, Math.max(MIN_WIDTH, prev.width * Math.exp(e.deltaY * 0.002)));
+        const px = (e.clientX - rect.left) / rect.width;
+        const py = (e.clientY - rect.top) / rect.height;
+        return clampViewport({
+          x: prev.x + px * (prev.width - width),
+          y: prev.y + py * (prev.width - width) / 2,
+          width
+        });
+      });
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    dragRef.current = { clientX: e.clientX, clientY: e.clientY, start: viewport, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.clientX;
+    const dy = e.clientY - drag.clientY;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_SLOP) return;
+    if (!drag.moved) e.currentTarget.setPointerCapture(e.pointerId);
+    drag.moved = true;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = drag.start.width / rect.width;
+    setViewport(clampViewport({ x: drag.start.x - dx * scale, y: drag.start.y - dy * scale, width: drag.start.width }));
+  };
+
+  const handlePointerUp = () => {
+    // Cleared after the click that follows pointerup, so a pan never also opens a cluster.
+    setTimeout(() => { dragRef.current = null; });
+  };
+
+  const handleClusterClick = (cluster: MapCluster) => {
+    if (dragRef.current?.moved) return;
+    if (cluster.items.length === 1) return onItemClick(cluster.items[0]);
+    setPickedIds(new Set(cluster.items.map(item => item.id)));
+    const { minX, minY, maxX, maxY } = clusterBounds(cluster);
+    // Fit the members with some margin; if they share one spot, just zoom in a few steps.
+    const width = Math.max(maxX - minX, (maxY - minY) * 2) * 1.6 || viewport.width / 8;
+    setViewport(clampViewport({
+      x: (minX + maxX) / 2 - width / 2,
+      y: (minY + maxY) / 2 - width / 4,
+      width
+    }));
+  };
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-2 duration-500 space-y-10">
+      <div className="relative rounded-[2rem] overflow-hidden border border-slate-100 dark:border-slate-800 shadow-2xl shadow-slate-200/50 dark:shadow-none bg-sky-50 dark:bg-slate-900">
+        <svg
+          ref={svgRef}
+          viewBox={`${viewport.x} ${viewport.y} ${viewport.width} ${height}`}
+          className="w-full aspect-[2/1] touch-none select-none cursor-grab active:cursor-grabbing"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onDoubleClick={(e) => zoomAround(0.5, toMap(e.clientX, e.clientY))}
+        >
+          {LAND_PATHS.map((d, i) => (
+            <path key={`land-${i}`} d={d} className="fill-slate-200 dark:fill-slate-700" />
+          ))}
+          {WATER_PATHS.map((d, i) => (
+            <path key={`water-${i}`} d={d} className="fill-sky-50 dark:fill-slate-900" />
+          ))}
+          {clusters.map(cluster => {
+            const r = radius * (cluster.items.length > 1 ? 1 + Math.min(1, Math.log10(cluster.items.length) / 2) : 1);
+            const preview = getPreviewUrl(cluster.items[0]);
+            const clipId = `${clipPrefix}-${cluster.id}`;
+            return (
+              <g key={cluster.id} onClick={() => handleClusterClick(cluster)} onDoubleClick={(e) => e.stopPropagation()} className="cursor-pointer">
+                <circle cx={cluster.x} cy={cluster.y} r={r * 1.15} className="fill-white dark:fill-slate-950" />
+                {preview ? (
+                  <>
+                    <clipPath id={clipId}>
+                      <circle cx={cluster.x} cy={cluster.y} r={r} />
+                    </clipPath>
+                    <image href={preview} x={cluster.x - r} y={cluster.y - r} width={r * 2} height={r * 2} preserveAspectRatio="xMidYMid slice" clipPath={`url(#${clipId})`} />
+                  </>
+                ) : (
+                  <circle cx={cluster.x} cy={cluster.y} r={r} className="fill-blue-600" />
+                )}
+                {cluster.items.length > 1 && (
+                  <>
+                    <circle cx={cluster.x + r * 0.8} cy={cluster.y - r * 0.8} r={radius * 0.7} className="fill-blue-600" />
+                    <text
+                      x={cluster.x + r * 0.8}
+                      y={cluster.y - r * 0.8}
+                      fontSize={radius * 0.75}
+                      textAnchor="middle"
+                      dominantBaseline="central"
+                      className="fill-white font-black"
+                    >
+                      {cluster.items.length > 99 ? '99+' : cluster.items.length}
+                    </text>
+                  </>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+
+        <div className="absolute right-4 bottom-4 flex flex-col gap-2">
+          <button
+            onClick={() => zoomAround(0.5)}
+            className="w-10 h-10 rounded-xl bg-white/90 dark:bg-slate-800/90 backdrop-blur-xl flex items-center justify-center text-slate-700 dark:text-white shadow-lg active:scale-90 transition-all"
+          >
+            <IconPlus className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => zoomAround(2)}
+            className="w-10 h-10 rounded-xl bg-white/90 dark:bg-slate-800/90 backdrop-blur-xl flex items-center justify-center text-slate-700 dark:text-white shadow-lg active:scale-90 transition-all"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeWidth="2.5" d="M5 12h14"/></svg>
+          </button>
+        </div>
+        {viewport.width < MAP_WIDTH && (
+          <button
+            onClick={() => {
+              setViewport(WORLD);
+              setPickedIds(null);
+            }}
+            className="absolute left-4 bottom-4 px-4 py-2.5 rounded-xl bg-white/90 dark:bg-slate-800/90 backdrop-blur-xl text-[10px] font-black uppercase tracking-widest text-slate-700 dark:text-white shadow-lg active:scale-90 transition-all"
+          >
+            World
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          {pickedIds ? `${picked.length} items in this spot` : `${located.length} of ${items.length} items have a location`}
+        </p>
+        {pickedIds && (
+          <button
+            onClick={() => setPickedIds(null)}
+            className="text-[10px] font-black text-blue-600 uppercase tracking-widest hover:text-blue-500"
+          >
+            Show all
+          </button>
+        )}
+      </div>
+      <MediaGrid
+        items={picked}
+        gridSize={gridSize}
+        timelineDate={timelineDate}
+        onItemClick={onItemClick}
+        onToggleFavorite={onToggleFavorite}
+        activeTab="map"
+        isDetailOpen={isDetailOpen}
+      />
+    </div>
+  );
+};
+
+export default MapView;
\ No newline at end of file
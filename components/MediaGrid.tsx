@@ -1,23 +1,51 @@
-import React from 'react';
-import { MediaItem, MediaType } from '../types';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { AppSettings, MediaItem, MediaType } from '../types';
 import { IconHeart, IconVideo, IconPhotos, IconFile } from './Icons';
+import { getCaptureDate } from '../services/mediaInfoService';
 
 interface MediaGridProps {
   items: MediaItem[];
   onItemClick: (item: MediaItem) => void;
   onToggleFavorite: (id: string) => void;
   gridSize: 'small' | 'medium' | 'large';
+  timelineDate?: AppSettings['timelineDate'];
   activeTab?: string;
+  isDetailOpen?: boolean;
+  // Present while the grid is in selection mode; tile clicks then toggle selection.
+  selectedIds?: Set<string>;
+  // Enables selection: the tile checkbox or a long press toggles an item (entering selection
+  // mode if needed), shift-click selects a range and date headers gain a select-all toggle.
+  onToggleSelect?: (id: string) => void;
+  onSetSelected?: (ids: string[], selected: boolean) => void;
 }
 
-const MediaGrid: React.FC<MediaGridProps> = ({ items, onItemClick, onToggleFavorite, gridSize, activeTab }) => {
-  const getGridCols = () => {
-    switch(gridSize) {
-      case 'small': return 'grid-cols-4 md:grid-cols-6 lg:grid-cols-8';
-      case 'medium': return 'grid-cols-3 md:grid-cols-4 lg:grid-cols-6';
-      case 'large': return 'grid-cols-2 md:grid-cols-3 lg:grid-cols-4';
-    }
-  };
+// Column counts per grid size at the base, md (768px) and lg (1024px) breakpoints.
+const GRID_COLUMNS: Record<MediaGridProps['gridSize'], [number, number, number]> = {
+  small: [4, 6, 8],
+  medium: [3, 4, 6],
+  large: [2, 3, 4]
+};
+
+// Fixed pixel metrics the layout is computed from; keep in sync with the classes below.
+const HEADER_HEIGHT = 44; // h3 line height + mb-6
+const SECTION_GAP = 48; // space-y-12 between date groups
+const OVERSCAN_PX = 800;
+const LONG_PRESS_MS = 450;
+const LONG_PRESS_SLOP = 10;
+
+type GridRow =
+  | { kind: 'header'; key: string; top: number; height: number; label: string; items: MediaItem[] }
+  | { kind: 'tiles'; key: string; top: number; height: number; items: MediaItem[] };
+
+const MediaGrid: React.FC<MediaGridProps> = ({ items, onItemClick, onToggleFavorite, gridSize, timelineDate = 'captured', activeTab, isDetailOpen, selectedIds, onToggleSelect, onSetSelected }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const savedScrollRef = useRef(0);
+  // Last item toggled by hand; shift-click selects everything between it and the clicked item.
+  const anchorIdRef = useRef<string | null>(null);
+  const longPressRef = useRef<{ timer: number; x: number; y: number; fired: boolean } | null>(null);
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [viewportWidth, setViewportWidth] = useState(() => window.innerWidth);
+  const [visibleRange, setVisibleRange] = useState({ start: 0, end: window.innerHeight + OVERSCAN_PX });
 
   const getBrandStyles = (ext?: string) => {
     const e = ext?.toLowerCase();
@@ -29,13 +57,23 @@ const MediaGrid: React.FC<MediaGridProps> = ({ items, onItemClick, onToggleFavor
     return { bg: 'bg-slate-200 dark:bg-slate-700', text: e?.toUpperCase() || 'FILE', color: 'text-slate-600 dark:text-slate-300' };
   };
 
+  // Tiles only ever show the thumbnail. Images without one yet fall back to an in-memory
+  // original (fresh uploads, data: URLs); videos never do, since decoding them per tile is what
+  // made large grids stall.
+  const getPreviewUrl = (item: MediaItem): string | undefined => {
+    if (typeof item.thumbnailUrl === 'string') return item.thumbnailUrl;
+    if (item.type === MediaType.IMAGE && typeof item.url === 'string' && item.url) return item.url;
+    return undefined;
+  };
+
   const groupItemsByDate = () => {
     const groups: { [key: string]: MediaItem[] } = {};
     const today = new Date().toLocaleDateString();
     const yesterday = new Date(Date.now() - 86400000).toLocaleDateString();
 
-    items.sort((a, b) => b.createdAt - a.createdAt).forEach(item => {
-      const date = new Date(item.createdAt);
+    const dateOf = (item: MediaItem) => timelineDate === 'captured' ? getCaptureDate(item) : item.createdAt;
+    [...items].sort((a, b) => dateOf(b) - dateOf(a)).forEach(item => {
+      const date = new Date(dateOf(item));
       const dateStr = date.toLocaleDateString();
       let key = dateStr;
       
@@ -51,87 +89,283 @@ const MediaGrid: React.FC<MediaGridProps> = ({ items, onItemClick, onToggleFavor
     return groups;
   };
 
-  const groupedItems = groupItemsByDate();
+  const groupedItems = useMemo(groupItemsByDate, [items, timelineDate]);
+  const orderedItems = useMemo(() => Object.values(groupedItems).flat(), [groupedItems]);
+
+  const isSelecting = !!selectedIds;
+
+  useEffect(() => {
+    if (!isSelecting) anchorIdRef.current = null;
+  }, [isSelecting]);
+
+  const toggleSelect = (id: string) => {
+    anchorIdRef.current = id;
+    onToggleSelect?.(id);
+  };
+
+  const selectRangeTo = (id: string) => {
+    const from = orderedItems.findIndex(item => item.id === anchorIdRef.current);
+    const to = orderedItems.findIndex(item => item.id === id);
+    if (from < 0 || to < 0 || !onSetSelected) return toggleSelect(id);
+    const [start, end] = from < to ? [from, to] : [to, from];
+    onSetSelected(orderedItems.slice(start, end + 1).map(item => item.id), true);
+    anchorIdRef.current = id;
+  };
+
+  const handleTileClick = (e: React.MouseEvent, item: MediaItem) => {
+    if (longPressRef.current?.fired) {
+      longPressRef.current = null;
+      return;
+    }
+    if (!selectedIds || !onToggleSelect) return onItemClick(item);
+    if (e.shiftKey && anchorIdRef.current) selectRangeTo(item.id);
+    else toggleSelect(item.id);
+  };
+
+  const cancelLongPress = () => {
+    if (longPressRef.current && !longPressRef.current.fired) {
+      clearTimeout(longPressRef.current.timer);
+      longPressRef.current = null;
+    }
+  };
+
+  const startLongPress = (e: React.PointerEvent, item: MediaItem) => {
+    if (!onToggleSelect || e.button !== 0) return;
+    cancelLongPress();
+    const press = {
+      x: e.clientX,
+      y: e.clientY,
+      fired: false,
+      timer: window.setTimeout(() => {
+        press.fired = true;
+        navigator.vibrate?.(15);
+        toggleSelect(item.id);
+      }, LONG_PRESS_MS)
+    };
+    longPressRef.current = press;
+  };
+
+  const moveLongPress = (e: React.PointerEvent) => {
+    const press = longPressRef.current;
+    if (press && Math.hypot(e.clientX - press.x, e.clientY - press.y) > LONG_PRESS_SLOP) cancelLongPress();
+  };
+
+  const breakpoint = viewportWidth >= 1024 ? 2 : viewportWidth >= 768 ? 1 : 0;
+  const columns = GRID_COLUMNS[gridSize][breakpoint];
+  const gap = breakpoint > 0 ? 12 : 8;
+  const tileSize = containerWidth > 0 ? (containerWidth - gap * (columns - 1)) / columns : 0;
+
+  // Flattens the date groups into absolutely positioned rows so only the ones near the
+  // viewport need to be mounted.
+  const { rows, totalHeight } = useMemo(() => {
+    const rows: GridRow[] = [];
+    let top = 0;
+    Object.entries(groupedItems).forEach(([label, dateItems], groupIndex) => {
+      if (groupIndex > 0) top += SECTION_GAP;
+      rows.push({ kind: 'header', key: `h-${label}`, top, height: HEADER_HEIGHT, label, items: dateItems });
+      top += HEADER_HEIGHT;
+      for (let i = 0; i < dateItems.length; i += columns) {
+        if (i > 0) top += gap;
+        rows.push({ kind: 'tiles', key: `r-${label}-${i}`, top, height: tileSize, items: dateItems.slice(i, i + columns) });
+        top += tileSize;
+      }
+    });
+    return { rows, totalHeight: top };
+  }, [groupedItems, columns, gap, tileSize]);
+
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setContainerWidth(el.clientWidth));
+    observer.observe(el);
+    setContainerWidth(el.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    let frame = 0;
+    const measure = () => {
+      frame = 0;
+      const el = containerRef.current;
+      if (!el) return;
+      const offset = -el.getBoundingClientRect().top;
+      setVisibleRange({ start: offset - OVERSCAN_PX, end: offset + window.innerHeight + OVERSCAN_PX });
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(measure);
+    };
+    const handleResize = () => {
+      setViewportWidth(window.innerWidth);
+      schedule();
+    };
+    measure();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', handleResize);
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', handleResize);
+    };
+  }, [totalHeight]);
+
+  // Hold the page still behind the detail view and come back to the same spot afterwards,
+  // even if the item list changed in the meantime.
+  useEffect(() => {
+    if (!isDetailOpen) return;
+    savedScrollRef.current = window.scrollY;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = '';
+      window.scrollTo(0, savedScrollRef.current);
+    };
+  }, [isDetailOpen]);
+
+  const firstVisible = useMemo(() => {
+    let lo = 0;
+    let hi = rows.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (rows[mid].top + rows[mid].height < visibleRange.start) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }, [rows, visibleRange.start]);
+
+  const visibleRows: GridRow[] = [];
+  for (let i = firstVisible; i < rows.length && rows[i].top <= visibleRange.end; i++) {
+    visibleRows.push(rows[i]);
+  }
+
+  const renderTile = (item: MediaItem) => (
+    <div 
+      key={item.id} 
+      className="relative aspect-square overflow-hidden bg-slate-100 dark:bg-slate-800 cursor-pointer group rounded-xl md:rounded-2xl transition-all hover:shadow-xl hover:z-20 active:scale-95 shadow-sm select-none [-webkit-touch-callout:none]"
+      onClick={(e) => handleTileClick(e, item)}
+      onPointerDown={(e) => startLongPress(e, item)}
+      onPointerMove={moveLongPress}
+      onPointerUp={cancelLongPress}
+      onPointerCancel={cancelLongPress}
+      onPointerLeave={cancelLongPress}
+      onContextMenu={(e) => onToggleSelect && e.preventDefault()}
+    >
+      {item.type === MediaType.IMAGE ? (
+        getPreviewUrl(item) ? (
+          <img 
+            src={getPreviewUrl(item)} 
+            alt={item.title} 
+            className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110"
+            loading="lazy"
+            decoding="async"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-slate-300 dark:text-slate-600 animate-pulse">
+            <IconPhotos className="w-8 h-8" />
+          </div>
+        )
+      ) : item.type === MediaType.VIDEO ? (
+        <div className="relative w-full h-full bg-black">
+           {getPreviewUrl(item) && (
+             <img 
+               src={getPreviewUrl(item)} 
+               alt={item.title} 
+               className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" 
+               loading="lazy"
+               decoding="async"
+             />
+           )}
+           <div className="absolute inset-0 flex items-center justify-center">
+              <div className="w-10 h-10 rounded-full bg-black/40 backdrop-blur-md flex items-center justify-center border border-white/20 group-hover:scale-110 transition-transform">
+                <svg className="w-5 h-5 text-white fill-current translate-x-0.5" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+              </div>
+           </div>
+           <div className="absolute top-3 right-3 p-1.5 bg-black/40 backdrop-blur-md rounded-lg">
+             <IconVideo className="w-3.5 h-3.5 text-white" />
+           </div>
+        </div>
+      ) : (
+        <div className={`w-full h-full flex flex-col items-center justify-center p-4 transition-all duration-300 ${getBrandStyles(item.extension).bg}`}>
+          <div className={`text-2xl font-black mb-1 ${getBrandStyles(item.extension).color}`}>
+            {getBrandStyles(item.extension).text}
+          </div>
+          <IconFile className={`w-8 h-8 opacity-50 ${getBrandStyles(item.extension).color}`} />
+          <div className={`absolute top-3 right-3 p-1.5 bg-black/10 backdrop-blur-sm rounded-lg`}>
+             <IconFile className="w-3.5 h-3.5 text-white" />
+          </div>
+        </div>
+      )}
+      <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
+      {selectedIds?.has(item.id) && (
+        <div className="absolute inset-0 rounded-xl md:rounded-2xl ring-4 ring-inset ring-blue-500 pointer-events-none" />
+      )}
+      {onToggleSelect && (
+        <button
+          className={`absolute top-3 left-3 w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all ${selectedIds?.has(item.id) ? 'bg-blue-600 border-blue-600' : 'bg-black/20 border-white/80'} ${selectedIds ? '' : 'opacity-0 group-hover:opacity-100'}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            if (e.shiftKey && selectedIds && anchorIdRef.current) selectRangeTo(item.id);
+            else toggleSelect(item.id);
+          }}
+        >
+          {selectedIds?.has(item.id) && (
+            <svg className="w-3.5 h-3.5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3.5" d="M5 13l4 4L19 7"/></svg>
+          )}
+        </button>
+      )}
+      <div className="absolute bottom-3 left-3 right-3 flex justify-between items-center translate-y-2 opacity-0 group-hover:translate-y-0 group-hover:opacity-100 transition-all duration-300">
+        <span className="text-[10px] font-bold text-white truncate max-w-[70%] drop-shadow-md">{item.title}</span>
+        <button 
+          className={`p-2 rounded-full backdrop-blur-md transition-all ${item.isFavorite ? 'bg-white/20' : 'bg-black/20'}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleFavorite(item.id);
+          }}
+        >
+          <IconHeart 
+            className={`w-4 h-4 ${item.isFavorite ? 'text-rose-500 fill-rose-500' : 'text-white'}`} 
+            filled={item.isFavorite}
+          />
+        </button>
+      </div>
+    </div>
+
+  );
 
   return (
-    <div className="relative pl-6 md:pl-8 space-y-12 animate-in fade-in slide-in-from-bottom-2 duration-500">
+    <div className="relative pl-6 md:pl-8 animate-in fade-in slide-in-from-bottom-2 duration-500">
       <div className="absolute left-1 md:left-2 top-2 bottom-0 w-0.5 bg-slate-200 dark:bg-slate-800 rounded-full" />
 
-      {Object.entries(groupedItems).map(([date, dateItems]) => (
-        <section key={date} className="relative">
-          <div className="absolute -left-[23px] md:-left-[27px] top-1 w-3 h-3 rounded-full bg-blue-500 ring-4 ring-white dark:ring-slate-900 z-10 shadow-sm" />
-          
-          <h3 className="text-sm font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-6 ml-1 flex items-center gap-3">
-            {date}
-            <span className="flex-grow h-px bg-slate-100 dark:bg-slate-800/50" />
-            <span className="text-[10px] lowercase font-medium opacity-60">{dateItems.length} items</span>
-          </h3>
-
-          <div className={`grid ${getGridCols()} gap-2 md:gap-3`}>
-            {dateItems.map((item) => (
-              <div 
-                key={item.id} 
-                className="relative aspect-square overflow-hidden bg-slate-100 dark:bg-slate-800 cursor-pointer group rounded-xl md:rounded-2xl transition-all hover:shadow-xl hover:z-20 active:scale-95 shadow-sm"
-                onClick={() => onItemClick(item)}
-              >
-                {item.type === MediaType.IMAGE ? (
-                  <img 
-                    src={item.url as string} 
-                    alt={item.title} 
-                    className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110"
-                    loading="lazy"
-                  />
-                ) : item.type === MediaType.VIDEO ? (
-                  <div className="relative w-full h-full bg-black">
-                     <video 
-                        src={item.url as string} 
-                        className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" 
-                        muted 
-                        loop 
-                        autoPlay 
-                        playsInline 
-                      />
-                     <div className="absolute inset-0 flex items-center justify-center">
-                        <div className="w-10 h-10 rounded-full bg-black/40 backdrop-blur-md flex items-center justify-center border border-white/20 group-hover:scale-110 transition-transform">
-                          <svg className="w-5 h-5 text-white fill-current translate-x-0.5" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
-                        </div>
-                     </div>
-                     <div className="absolute top-3 right-3 p-1.5 bg-black/40 backdrop-blur-md rounded-lg">
-                       <IconVideo className="w-3.5 h-3.5 text-white" />
-                     </div>
-                  </div>
-                ) : (
-                  <div className={`w-full h-full flex flex-col items-center justify-center p-4 transition-all duration-300 ${getBrandStyles(item.extension).bg}`}>
-                    <div className={`text-2xl font-black mb-1 ${getBrandStyles(item.extension).color}`}>
-                      {getBrandStyles(item.extension).text}
-                    </div>
-                    <IconFile className={`w-8 h-8 opacity-50 ${getBrandStyles(item.extension).color}`} />
-                    <div className={`absolute top-3 right-3 p-1.5 bg-black/10 backdrop-blur-sm rounded-lg`}>
-                       <IconFile className="w-3.5 h-3.5 text-white" />
-                    </div>
-                  </div>
-                )}
-                <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
-                <div className="absolute bottom-3 left-3 right-3 flex justify-between items-center translate-y-2 opacity-0 group-hover:translate-y-0 group-hover:opacity-100 transition-all duration-300">
-                  <span className="text-[10px] font-bold text-white truncate max-w-[70%] drop-shadow-md">{item.title}</span>
-                  <button 
-                    className={`p-2 rounded-full backdrop-blur-md transition-all ${item.isFavorite ? 'bg-white/20' : 'bg-black/20'}`}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onToggleFavorite(item.id);
-                    }}
+      <div ref={containerRef} className="relative" style={{ height: totalHeight }}>
+        {tileSize > 0 && visibleRows.map(row => row.kind === 'header' ? (
+          <div key={row.key} className="absolute left-0 right-0" style={{ top: row.top, height: row.height }}>
+            <div className="absolute -left-[23px] md:-left-[27px] top-1 w-3 h-3 rounded-full bg-blue-500 ring-4 ring-white dark:ring-slate-900 z-10 shadow-sm" />
+            
+            <h3 className="text-sm font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-6 ml-1 flex items-center gap-3">
+              {row.label}
+              <span className="flex-grow h-px bg-slate-100 dark:bg-slate-800/50" />
+              <span className="text-[10px] lowercase font-medium opacity-60">{row.items.length} items</span>
+              {selectedIds && onSetSelected && (() => {
+                const allSelected = row.items.every(item => selectedIds.has(item.id));
+                return (
+                  <button
+                    onClick={() => onSetSelected(row.items.map(item => item.id), !allSelected)}
+                    className="text-[10px] font-black text-blue-600 uppercase tracking-widest hover:text-blue-500"
                   >
-                    <IconHeart 
-                      className={`w-4 h-4 ${item.isFavorite ? 'text-rose-500 fill-rose-500' : 'text-white'}`} 
-                      filled={item.isFavorite}
-                    />
+                    {allSelected ? 'Deselect' : 'Select all'}
                   </button>
-                </div>
-              </div>
-            ))}
+                );
+              })()}
+            </h3>
+          </div>
+        ) : (
+          <div
+            key={row.key}
+            className="absolute left-0 right-0 grid"
+            style={{ top: row.top, height: row.height, gap, gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+          >
+            {row.items.map(renderTile)}
           </div>
-        </section>
-      ))}
+        ))}
+      </div>
       
       {items.length === 0 && (
         <div className="py-24 text-center">
@@ -139,11 +373,17 @@ const MediaGrid: React.FC<MediaGridProps> = ({ items, onItemClick, onToggleFavor
             {activeTab === 'videos' ? <IconVideo className="w-12 h-12" /> : <IconPhotos className="w-12 h-12" />}
           </div>
           <h4 className="text-xl font-black text-slate-900 dark:text-white mb-2 tracking-tight">
-            {activeTab === 'videos' ? 'No Video' : 'Your vault is empty'}
+            {activeTab === 'videos' ? 'No Video' : activeTab === 'albums' ? 'This album is empty' : activeTab === 'trash' ? 'Trash is empty' : activeTab === 'map' ? 'No places yet' : 'Your vault is empty'}
           </h4>
           <p className="text-slate-500 dark:text-slate-400 font-medium px-8 max-w-sm mx-auto">
             {activeTab === 'videos' 
               ? 'Add video to your secure collection.' 
+              : activeTab === 'albums'
+              ? 'Open any item and use "Add to Album" to collect it here.'
+              : activeTab === 'trash'
+              ? 'Deleted items wait here until they are restored or the retention period ends.'
+              : activeTab === 'map'
+              ? 'Photos and videos recorded with a location appear on the map.'
               : 'Add files, photos and videos to see your gallery unfold.'}
           </p>
         </div>
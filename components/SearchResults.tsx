@@ -0,0 +1,111 @@
+import React from 'react';
+import { MediaItem, MediaType } from '../types';
+import { IconSearch, IconFile, IconVideo, IconPhotos } from './Icons';
+import { SearchResult, highlightText } from '../services/searchService';
+
+interface SearchResultsProps {
+  query: string;
+  results: SearchResult[];
+  onItemClick: (item: MediaItem) => void;
+  // Describes results that did not come from the typed query, e.g. items similar to another.
+  label?: string;
+  // Shown with the results or in place of them, e.g. how much of the vault is searchable by meaning.
+  note?: string;
+}
+
+const Highlighted: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => (
+  <>
+    {highlightText(text, terms).map((segment, i) => segment.match ? (
+      <mark key={i} className="bg-yellow-200/80 dark:bg-yellow-500/30 text-inherit rounded px-0.5">{segment.text}</mark>
+    ) : (
+      <React.Fragment key={i}>{segment.text}</React.Fragment>
+    ))}
+  </>
+);
+
+// Results are ranked, so only the head of the list is worth mounting.
+const RESULT_LIMIT = 200;
+
+const SYNTAX_HINTS = ['tag:beach', 'type:video', 'ext:psd', 'before:2025-06', 'after:2024', 'is:favorite', '"exact phrase"'];
+
+const SearchResults: React.FC<SearchResultsProps> = ({ query, results, onItemClick, label, note }) => {
+  const hasQuery = !!query.trim() || !!label;
+  if (!hasQuery || results.length === 0) {
+    return (
+      <div className="py-24 text-center animate-in fade-in duration-500">
+        <div className="w-24 h-24 bg-slate-100 dark:bg-slate-800 rounded-[2.5rem] flex items-center justify-center mx-auto mb-6 text-slate-300 shadow-inner">
+          <IconSearch className="w-12 h-12" />
+        </div>
+        <h4 className="text-xl font-black text-slate-900 dark:text-white mb-2 tracking-tight">
+          {hasQuery ? 'No matches' : 'Search your vault'}
+        </h4>
+        <p className="text-slate-500 dark:text-slate-400 font-medium px-8 max-w-sm mx-auto mb-6">
+          {note || 'Titles, descriptions, tags and file names are searched. Narrow it down with filters:'}
+        </p>
+        {!note && (
+          <div className="flex flex-wrap justify-center gap-2 max-w-md mx-auto">
+            {SYNTAX_HINTS.map(hint => (
+              <code key={hint} className="px-3 py-1.5 bg-slate-100 dark:bg-slate-800 rounded-xl text-[11px] font-bold text-slate-500">{hint}</code>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 animate-in fade-in slide-in-from-bottom-2 duration-500">
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1 mb-4">
+        {results.length > RESULT_LIMIT ? `Top ${RESULT_LIMIT} of ${results.length} results` : `${results.length} results`}
+        {label ? ` · ${label}` : ''}
+        {note ? ` · ${note}` : ''}
+      </p>
+      {results.slice(0, RESULT_LIMIT).map(({ item, matchedTerms }) => (
+        <button
+          key={item.id}
+          onClick={() => onItemClick(item)}
+          className="w-full flex items-center gap-5 p-3 pr-6 rounded-2xl bg-white dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 hover:shadow-xl transition-all text-left active:scale-[0.99]"
+        >
+          <div className="w-20 h-20 shrink-0 rounded-xl overflow-hidden bg-slate-100 dark:bg-slate-800 flex items-center justify-center text-slate-400">
+            {typeof item.thumbnailUrl === 'string' ? (
+              <img src={item.thumbnailUrl} alt={item.title} className="w-full h-full object-cover" loading="lazy" />
+            ) : item.type === MediaType.VIDEO ? (
+              <IconVideo className="w-8 h-8" />
+            ) : item.type === MediaType.IMAGE ? (
+              <IconPhotos className="w-8 h-8" />
+            ) : (
+              <IconFile className="w-8 h-8" />
+            )}
+          </div>
+          <div className="min-w-0 flex-grow">
+            <p className="font-black text-slate-900 dark:text-white tracking-tight truncate">
+              <Highlighted text={item.title} terms={matchedTerms} />
+            </p>
+            {item.description && (
+              <p className="text-sm text-slate-500 dark:text-slate-400 font-medium truncate">
+                <Highlighted text={item.description} terms={matchedTerms} />
+              </p>
+            )}
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {item.extension && (
+                <span className="px-2 py-0.5 bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 rounded-md text-[9px] font-black uppercase tracking-widest">
+                  {item.extension}
+                </span>
+              )}
+              {item.tags.map(tag => (
+                <span key={tag} className="px-2 py-0.5 bg-slate-100 dark:bg-slate-800 rounded-md text-[9px] font-black text-slate-500 uppercase tracking-widest">
+                  #<Highlighted text={tag} terms={matchedTerms} />
+                </span>
+              ))}
+            </div>
+          </div>
+          <span className="hidden md:block text-[10px] font-bold text-slate-400 uppercase tracking-widest shrink-0">
+            {new Date(item.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default SearchResults;
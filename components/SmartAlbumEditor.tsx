@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { MediaType, SmartAlbum } from '../types';
+import { IconTrash } from './Icons';
+
+interface SmartAlbumEditorProps {
+  album: SmartAlbum;
+  isNew: boolean;
+  countMatches: (album: SmartAlbum) => number;
+  onSave: (album: SmartAlbum) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const MB = 1024 * 1024;
+
+const toDateInput = (timestamp?: number) => {
+  if (timestamp === undefined) return '';
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string, dayOffset = 0) => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day + dayOffset).getTime();
+};
+
+const splitList = (value: string) => value.split(',').map(part => part.trim()).filter(Boolean);
+
+const fieldClass = "w-full px-4 py-3 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-white font-bold text-sm outline-none border-2 border-transparent focus:border-blue-500/20";
+const labelClass = "block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2";
+
+const SmartAlbumEditor: React.FC<SmartAlbumEditorProps> = ({ album, isNew, countMatches, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState(album.name);
+  const [query, setQuery] = useState(album.query);
+  const [types, setTypes] = useState<MediaType[]>(album.filters.types);
+  const [tags, setTags] = useState(album.filters.tags.join(', '));
+  const [extensions, setExtensions] = useState(album.filters.extensions.join(', '));
+  const [from, setFrom] = useState(toDateInput(album.filters.after));
+  // `before` is stored as the start of the day after the last included day.
+  const [to, setTo] = useState(toDateInput(album.filters.before !== undefined ? album.filters.before - 1 : undefined));
+  const [favoritesOnly, setFavoritesOnly] = useState(album.filters.favoritesOnly);
+  const [minSize, setMinSize] = useState(album.filters.minSize !== undefined ? String(album.filters.minSize / MB) : '');
+  const [maxSize, setMaxSize] = useState(album.filters.maxSize !== undefined ? String(album.filters.maxSize / MB) : '');
+
+  const draft: SmartAlbum = {
+    ...album,
+    name: name.trim(),
+    query: query.trim(),
+    filters: {
+      types,
+      tags: splitList(tags),
+      extensions: splitList(extensions),
+      after: fromDateInput(from),
+      before: fromDateInput(to, 1),
+      favoritesOnly,
+      minSize: minSize ? Number(minSize) * MB : undefined,
+      maxSize: maxSize ? Number(maxSize) * MB : undefined
+    }
+  };
+
+  const toggleType = (type: MediaType) => {
+    setTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-xl transition-all">
+      <form
+        className="bg-white dark:bg-slate-900 w-full max-w-lg max-h-full overflow-y-auto custom-scrollbar rounded-[3rem] shadow-2xl border border-slate-200 dark:border-slate-800 p-10 space-y-6"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!draft.name) return;
+          onSave({ ...draft, updatedAt: Date.now() });
+        }}
+      >
+        <div>
+          <h2 className="text-3xl font-black text-slate-900 dark:text-white tracking-tighter">{isNew ? 'Save Smart Album' : 'Edit Smart Album'}</h2>
+          <p className="text-slate-500 dark:text-slate-400 font-medium italic mt-1">Updates live as matching items are added.</p>
+        </div>
+
+        <div>
+          <label className={labelClass}>Name</label>
+          <input autoFocus className={fieldClass} value={name} onChange={(e) => setName(e.target.value)} placeholder="Client X PSDs this quarter" />
+        </div>
+
+        <div>
+          <label className={labelClass}>Search</label>
+          <input className={fieldClass} value={query} onChange={(e) => setQuery(e.target.value)} placeholder='sunset "golden hour"' />
+        </div>
+
+        <div>
+          <label className={labelClass}>Type</label>
+          <div className="grid grid-cols-3 gap-2">
+            {[MediaType.IMAGE, MediaType.VIDEO, MediaType.DOCUMENT].map(type => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => toggleType(type)}
+                className={`py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${types.includes(type) ? 'bg-blue-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}
+              >
+                {type}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Tags (all of)</label>
+            <input className={fieldClass} value={tags} onChange={(e) => setTags(e.target.value)} placeholder="client-x, final" />
+          </div>
+          <div>
+            <label className={labelClass}>Extensions</label>
+            <input className={fieldClass} value={extensions} onChange={(e) => setExtensions(e.target.value)} placeholder="psd, ai" />
+          </div>
+          <div>
+            <label className={labelClass}>From</label>
+            <input type="date" className={fieldClass} value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>To</label>
+            <input type="date" className={fieldClass} value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Min size (MB)</label>
+            <input type="number" min="0" step="any" className={fieldClass} value={minSize} onChange={(e) => setMinSize(e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Max size (MB)</label>
+            <input type="number" min="0" step="any" className={fieldClass} value={maxSize} onChange={(e) => setMaxSize(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="font-black text-slate-900 dark:text-white tracking-tight">Favorites only</span>
+          <button
+            type="button"
+            onClick={() => setFavoritesOnly(v => !v)}
+            className={`w-14 h-8 rounded-full p-1.5 transition-all duration-500 ${favoritesOnly ? 'bg-rose-500 shadow-lg shadow-rose-500/40' : 'bg-slate-200'}`}
+          >
+            <div className={`w-5 h-5 bg-white rounded-full shadow-md transition-transform duration-500 ${favoritesOnly ? 'translate-x-6' : ''}`} />
+          </button>
+        </div>
+
+        <p className="text-[10px] font-black text-blue-600 uppercase tracking-widest">{countMatches(draft)} items match right now</p>
+
+        <div className="space-y-3">
+          <button
+            type="submit"
+            disabled={!draft.name}
+            className="w-full py-5 rounded-[1.5rem] font-black bg-slate-900 dark:bg-white text-white dark:text-slate-900 disabled:opacity-40 hover:scale-[1.02] active:scale-95 transition-all shadow-xl uppercase tracking-widest text-sm"
+          >
+            Save
+          </button>
+          {!isNew && (
+            <button
+              type="button"
+              onClick={() => onDelete(album.id)}
+              className="w-full flex items-center justify-center gap-2 py-4 rounded-2xl bg-slate-50 hover:bg-rose-50 hover:text-rose-600 dark:bg-slate-800 dark:hover:bg-rose-900/20 text-slate-400 transition-all font-black uppercase tracking-widest text-[10px]"
+            >
+              <IconTrash className="w-4 h-4" />
+              Delete Smart Album
+            </button>
+          )}
+          <button type="button" onClick={onClose} className="w-full text-[10px] font-black text-slate-400 hover:text-slate-600 uppercase tracking-[0.2em] pt-2">Cancel</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SmartAlbumEditor;
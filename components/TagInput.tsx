@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { normalizeTag } from '../services/metadataService';
+
+interface TagInputProps {
+  tags: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+const TagInput: React.FC<TagInputProps> = ({ tags, suggestions, onChange, placeholder = 'Add tag' }) => {
+  const [draft, setDraft] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+
+  const query = normalizeTag(draft).toLowerCase();
+  const matches = query
+    ? suggestions
+        .filter(tag => tag.toLowerCase().includes(query) && !tags.some(t => t.toLowerCase() === tag.toLowerCase()))
+        .sort((a, b) => Number(!a.toLowerCase().startsWith(query)) - Number(!b.toLowerCase().startsWith(query)))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const commit = (value: string) => {
+    const tag = normalizeTag(value);
+    setDraft('');
+    setHighlighted(0);
+    if (!tag || tags.some(t => t.toLowerCase() === tag.toLowerCase())) return;
+    onChange([...tags, tag]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted(i => (i + 1) % matches.length);
+    } else if (e.key === 'ArrowUp' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted(i => (i - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Enter' || e.key === ',' || e.key === 'Tab') {
+      if (!draft.trim()) return;
+      e.preventDefault();
+      commit(matches[highlighted] ?? draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap gap-2 p-2 rounded-2xl bg-slate-100 dark:bg-slate-800 focus-within:ring-2 focus-within:ring-blue-500/20">
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center gap-1.5 pl-3 pr-1.5 py-1 bg-white dark:bg-slate-900 rounded-xl text-[10px] font-black text-slate-500 uppercase tracking-widest">
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onChange(tags.filter(t => t !== tag))}
+              className="w-4 h-4 rounded-full flex items-center justify-center text-slate-400 hover:bg-rose-100 hover:text-rose-600"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          className="flex-grow min-w-[6rem] px-2 py-1 bg-transparent text-sm font-bold text-slate-900 dark:text-white outline-none"
+          value={draft}
+          placeholder={placeholder}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => draft.trim() && commit(draft)}
+        />
+      </div>
+      {matches.length > 0 && (
+        <div className="absolute z-10 left-0 right-0 mt-2 p-1.5 bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border border-slate-100 dark:border-slate-700">
+          {matches.map((tag, i) => (
+            <button
+              key={tag}
+              type="button"
+              // Keep focus in the input so its blur handler does not commit the half-typed draft.
+              onMouseDown={(e) => {
+                e.preventDefault();
+                commit(tag);
+              }}
+              className={`w-full text-left px-3 py-2 rounded-xl text-sm font-bold ${i === highlighted ? 'bg-blue-600 text-white' : 'text-slate-600 dark:text-slate-300'}`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,159 @@
+import React from 'react';
+import { UploadEntry } from '../types';
+import { IconFile, IconTrash } from './Icons';
+import { cancelUpload, pauseUpload, resolveDuplicate, resumeUpload, retryUpload, UploadSnapshot } from '../services/uploadService';
+
+interface UploadQueueProps {
+  uploads: UploadSnapshot;
+  onClose: () => void;
+}
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const formatEta = (seconds: number) => {
+  if (seconds < 60) return `${Math.ceil(seconds)}s remaining`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)}m remaining`;
+  return `${(seconds / 3600).toFixed(1)}h remaining`;
+};
+
+// Overall progress of everything still headed into the vault; duplicates waiting for a choice
+// and failed uploads are left out so they do not hold the bar back.
+export const getUploadProgress = ({ entries, bytesPerSecond }: UploadSnapshot) => {
+  const moving = entries.filter(entry => entry.status === 'queued' || entry.status === 'uploading');
+  const total = moving.reduce((sum, entry) => sum + entry.size, 0);
+  const done = moving.reduce((sum, entry) => sum + entry.bytesDone, 0);
+  return {
+    count: moving.length,
+    percent: total > 0 ? Math.round((done / total) * 100) : 0,
+    eta: bytesPerSecond > 0 && total > done ? formatEta((total - done) / bytesPerSecond) : ''
+  };
+};
+
+const STATUS_LABELS: Record<UploadEntry['status'], string> = {
+  queued: 'Queued',
+  uploading: 'Uploading',
+  paused: 'Paused',
+  duplicate: 'Already in vault',
+  failed: 'Failed'
+};
+
+const actionClass = "px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95";
+
+const UploadQueue: React.FC<UploadQueueProps> = ({ uploads, onClose }) => {
+  const { entries, bytesPerSecond, blockedReason } = uploads;
+  const progress = getUploadProgress(uploads);
+  const duplicates = entries.filter(entry => entry.status === 'duplicate');
+  const running = entries.filter(entry => entry.status === 'queued' || entry.status === 'uploading');
+  const paused = entries.filter(entry => entry.status === 'paused');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-xl transition-all">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-lg max-h-full overflow-y-auto custom-scrollbar rounded-[3rem] shadow-2xl border border-slate-200 dark:border-slate-800 p-10 space-y-8">
+        <div>
+          <h2 className="text-3xl font-black text-slate-900 dark:text-white tracking-tighter">Uploads</h2>
+          <p className="text-slate-500 dark:text-slate-400 font-medium italic mt-1">
+            {entries.length === 0 ? 'Nothing in the queue.' : `${entries.length} ${entries.length === 1 ? 'file' : 'files'} in the queue. Closing this keeps them going.`}
+          </p>
+        </div>
+
+        {progress.count > 0 && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-400">
+              <span>{blockedReason || `${formatBytes(bytesPerSecond)}/s`}</span>
+              <span>{progress.eta || `${progress.percent}%`}</span>
+            </div>
+            <div className="w-full h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-600 transition-all duration-300" style={{ width: `${progress.percent}%` }} />
+            </div>
+          </div>
+        )}
+
+        {(running.length > 0 || paused.length > 0 || duplicates.length > 1) && (
+          <div className="flex flex-wrap gap-2">
+            {running.length > 0 && (
+              <button onClick={() => running.forEach(entry => pauseUpload(entry.id))} className={`${actionClass} bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300`}>
+                Pause All
+              </button>
+            )}
+            {paused.length > 0 && (
+              <button onClick={() => paused.forEach(entry => resumeUpload(entry.id))} className={`${actionClass} bg-blue-600 text-white`}>
+                Resume All
+              </button>
+            )}
+            {duplicates.length > 1 && (
+              <>
+                <button onClick={() => duplicates.forEach(entry => resolveDuplicate(entry.id, 'skip'))} className={`${actionClass} bg-slate-900 dark:bg-white text-white dark:text-slate-900`}>
+                  Skip {duplicates.length} Duplicates
+                </button>
+                <button onClick={() => duplicates.forEach(entry => resolveDuplicate(entry.id, 'keep'))} className={`${actionClass} bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300`}>
+                  Keep All
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        <ul className="space-y-3">
+          {entries.map(entry => {
+            const percent = entry.size > 0 ? Math.round((entry.bytesDone / entry.size) * 100) : 0;
+            return (
+              <li key={entry.id} className="p-4 rounded-2xl bg-slate-50 dark:bg-slate-800/50 space-y-3">
+                <div className="flex items-center gap-3">
+                  <IconFile className="w-5 h-5 shrink-0 text-slate-400" />
+                  <div className="min-w-0 flex-grow">
+                    <p className="text-sm font-bold text-slate-900 dark:text-white truncate">{entry.name}</p>
+                    <p className={`text-[10px] font-black uppercase tracking-widest ${entry.status === 'failed' ? 'text-rose-600' : entry.status === 'duplicate' ? 'text-amber-600' : 'text-slate-400'}`}>
+                      {STATUS_LABELS[entry.status]} · {formatBytes(entry.bytesDone)} of {formatBytes(entry.size)}
+                    </p>
+                    {entry.error && <p className="text-xs font-medium text-rose-500 truncate">{entry.error}</p>}
+                  </div>
+                  <button
+                    onClick={() => cancelUpload(entry.id).catch(console.error)}
+                    className="p-2 rounded-xl text-slate-300 hover:text-rose-600 transition-colors"
+                    title="Cancel"
+                  >
+                    <IconTrash className="w-4 h-4" />
+                  </button>
+                </div>
+                {entry.status !== 'duplicate' && (
+                  <div className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                    <div className={`h-full transition-all duration-300 ${entry.status === 'failed' ? 'bg-rose-500' : entry.status === 'paused' ? 'bg-slate-400' : 'bg-blue-600'}`} style={{ width: `${percent}%` }} />
+                  </div>
+                )}
+                <div className="flex flex-wrap justify-end gap-2">
+                  {(entry.status === 'queued' || entry.status === 'uploading') && (
+                    <button onClick={() => pauseUpload(entry.id)} className={`${actionClass} text-slate-500 hover:text-slate-900 dark:hover:text-white`}>Pause</button>
+                  )}
+                  {entry.status === 'paused' && (
+                    <button onClick={() => resumeUpload(entry.id)} className={`${actionClass} text-blue-600`}>Resume</button>
+                  )}
+                  {entry.status === 'failed' && (
+                    <button onClick={() => retryUpload(entry.id)} className={`${actionClass} text-blue-600`}>Retry</button>
+                  )}
+                  {entry.status === 'duplicate' && (
+                    <>
+                      <button onClick={() => resolveDuplicate(entry.id, 'skip')} className={`${actionClass} bg-slate-900 dark:bg-white text-white dark:text-slate-900`}>Skip</button>
+                      <button onClick={() => resolveDuplicate(entry.id, 'keep')} className={`${actionClass} bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300`}>Keep Both</button>
+                      {entry.duplicateOf && (
+                        <button onClick={() => resolveDuplicate(entry.id, 'replace')} className={`${actionClass} bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300`}>Replace</button>
+                      )}
+                    </>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <button onClick={onClose} className="w-full text-[10px] font-black text-slate-400 hover:text-slate-600 uppercase tracking-[0.2em]">Close</button>
+      </div>
+    </div>
+  );
+};
+
+export default UploadQueue;
\ No newline at end of file
@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface ZoomableImageProps {
+  src?: string;
+  alt: string;
+  className?: string;
+  // Called when the image goes from fitted to zoomed in or back, so swipes can be ignored while zoomed.
+  onZoomChange?: (zoomed: boolean) => void;
+}
+
+interface Transform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MAX_SCALE = 5;
+const DOUBLE_TAP_SCALE = 2.5;
+const WHEEL_STEP = 0.0015;
+const FITTED: Transform = { scale: 1, x: 0, y: 0 };
+
+// An image that zooms with the wheel, trackpad pinch, touch pinch and double click, and pans by
+// dragging once zoomed. Zooming keeps the point under the cursor or fingers in place.
+const ZoomableImage: React.FC<ZoomableImageProps> = ({ src, alt, className = '', onZoomChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [transform, setTransform] = useState<Transform>(FITTED);
+  const transformRef = useRef(transform);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const zoomed = transform.scale > 1;
+
+  const apply = (next: Transform) => {
+    const container = containerRef.current;
+    let result = next.scale <= 1 ? FITTED : { ...next, scale: Math.min(MAX_SCALE, next.scale) };
+    if (container && result.scale > 1) {
+      // Keep the image covering the stage instead of drifting off it.
+      const maxX = (container.clientWidth * (result.scale - 1)) / 2;
+      const maxY = (container.clientHeight * (result.scale - 1)) / 2;
+      result = { ...result, x: Math.max(-maxX, Math.min(maxX, result.x)), y: Math.max(-maxY, Math.min(maxY, result.y)) };
+    }
+    transformRef.current = result;
+    setTransform(result);
+  };
+
+  // Scales by `factor` around a point given in client coordinates.
+  const zoomAt = (clientX: number, clientY: number, factor: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const rect = container.getBoundingClientRect();
+    const px = clientX - rect.left - rect.width / 2;
+    const py = clientY - rect.top - rect.height / 2;
+    const current = transformRef.current;
+    const scale = Math.max(1, Math.min(MAX_SCALE, current.scale * factor));
+    const ratio = scale / current.scale;
+    apply({ scale, x: px - (px - current.x) * ratio, y: py - (py - current.y) * ratio });
+  };
+
+  useEffect(() => {
+    apply(FITTED);
+    pointers.current.clear();
+  }, [src]);
+
+  useEffect(() => {
+    onZoomChange?.(zoomed);
+  }, [zoomed]);
+
+  // React registers wheel listeners as passive, which would not let the page scroll be cancelled.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomAt(e.clientX, e.clientY, Math.exp(-e.deltaY * WHEEL_STEP * (e.ctrlKey ? 5 : 1)));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    const others = [...pointers.current.entries()].filter(([id]) => id !== e.pointerId).map(([, point]) => point);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (others.length === 1) {
+      const other = others[0];
+      const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+      const after = Math.hypot(e.clientX - other.x, e.clientY - other.y);
+      if (before > 0) zoomAt((e.clientX + other.x) / 2, (e.clientY + other.y) / 2, after / before);
+      return;
+    }
+    if (others.length === 0 && transformRef.current.scale > 1) {
+      const current = transformRef.current;
+      apply({ ...current, x: current.x + e.clientX - previous.x, y: current.y + e.clientY - previous.y });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`w-full h-full flex items-center justify-center overflow-hidden touch-none select-none ${zoomed ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={(e) => zoomed ? apply(FITTED) : zoomAt(e.clientX, e.clientY, DOUBLE_TAP_SCALE)}
+    >
+      <img
+        src={src}
+        alt={alt}
+        draggable={false}
+        className={`max-w-full max-h-full object-contain ${className}`}
+        style={{
+          imageOrientation: 'from-image',
+          transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+          transition: pointers.current.size > 0 ? 'none' : 'transform 150ms ease-out'
+        }}
+      />
+    </div>
+  );
+};
+
+export default ZoomableImage;
\ No newline at end of file
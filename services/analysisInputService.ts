@@ -0,0 +1,471 @@
+import { MediaMetadata } from '../types';
+import { AnalysisInput } from './analysisProvider';
+
+// Turns media that analysis providers cannot take directly into something they can: a few
+// keyframes for videos, the text of the first pages for PDFs, and the flattened composite for
+// Photoshop files. Everything is best effort; whatever cannot be read is simply left out and the
+// provider works from the rest.
+
+const FRAME_COUNT = 4;
+const FRAME_EDGE = 768;
+const FRAME_QUALITY = 0.8;
+const VIDEO_TIMEOUT_MS = 20000;
+
+const PDF_MAX_BYTES = 32 * 1024 * 1024;
+const PDF_PAGES = 3;
+const PDF_MAX_CHARS = 4000;
+
+// Largest single PSD channel read into memory; bigger documents fall back to the embedded thumbnail.
+const PSD_MAX_CHANNEL_BYTES = 64 * 1024 * 1024;
+const PSD_THUMBNAIL_RESOURCE = 1036;
+
+const readBytes = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+const fourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const canvasToJpeg = (canvas: HTMLCanvasElement): Promise<Blob | null> =>
+  new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', FRAME_QUALITY));
+
+const scaledCanvas = (width: number, height: number) => {
+  const scale = Math.min(1, FRAME_EDGE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  return canvas;
+};
+
+// ---- Video ----
+
+// Grabs frames from the middle of evenly sized slices of the clip, so a long video is covered
+// end to end rather than just its opening seconds. Clips without a known duration (live
+// recordings often report Infinity) only yield their first frame.
+const sampleVideoFrames = (blob: Blob): Promise<Blob[]> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(blob);
+    const frames: Blob[] = [];
+    let times: number[] = [];
+    let next = 0;
+    const timer = setTimeout(() => finish(() => frames.length > 0 ? resolve(frames) : reject('Timed out reading video frames')), VIDEO_TIMEOUT_MS);
+
+    const finish = (settle: () => void) => {
+      clearTimeout(timer);
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+      settle();
+    };
+
+    const seekNext = () => {
+      if (next >= times.length) return finish(() => resolve(frames));
+      video.currentTime = times[next++];
+    };
+
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => {
+      const duration = video.duration;
+      times = Number.isFinite(duration) && duration > 0
+        ? Array.from({ length: FRAME_COUNT }, (_, i) => (duration * (i + 0.5)) / FRAME_COUNT)
+        : [0];
+      seekNext();
+    };
+    video.onseeked = () => {
+      const canvas = scaledCanvas(video.videoWidth, video.videoHeight);
+      canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      canvasToJpeg(canvas)
+        .then(frame => {
+          if (frame) frames.push(frame);
+          seekNext();
+        })
+        .catch(err => finish(() => reject(err)));
+    };
+    video.onerror = () => finish(() => reject('Error decoding video'));
+    video.src = url;
+  });
+};
+
+// ---- PDF ----
+
+// Bytes map one-to-one onto characters, so string offsets are byte offsets.
+const latin1 = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+const inflate = async (bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+interface PdfObject {
+  dict: string;
+  stream?: Uint8Array<ArrayBuffer>;
+}
+
+// Decodes a stream that is either unfiltered or plain FlateDecode, which covers content and
+// object streams from practically every PDF writer. Anything else is skipped.
+const decodeStream = async (object: PdfObject): Promise<string | null> => {
+  if (!object.stream) return null;
+  const filter = object.dict.match(/\/Filter\s*\[?\s*((?:\/\w+\s*)*)\]?/);
+  const filters = filter ? filter[1].trim().split(/\s*\//).filter(Boolean) : [];
+  if (filters.length === 0) return latin1(object.stream);
+  if (filters.length > 1 || filters[0] !== 'FlateDecode') return null;
+  try {
+    return latin1(await inflate(object.stream));
+  } catch {
+    return null;
+  }
+};
+
+// Finds every "N G obj … endobj" in the file. Later definitions win, as they do for PDFs that
+// have been saved incrementally.
+const readPdfObjects = (bytes: Uint8Array<ArrayBuffer>, text: string) => {
+  const objects = new Map<number, PdfObject>();
+  const pattern = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const start = match.index + match[0].length;
+    const end = text.indexOf('endobj', start);
+    if (end < 0) break;
+    const streamAt = text.indexOf('stream', start);
+    if (streamAt < 0 || streamAt > end) {
+      objects.set(Number(match[1]), { dict: text.slice(start, end) });
+      pattern.lastIndex = end;
+      continue;
+    }
+    const dict = text.slice(start, streamAt);
+    let dataStart = streamAt + 'stream'.length;
+    if (text[dataStart] === '\r') dataStart++;
+    if (text[dataStart] === '\n') dataStart++;
+    // Trust a direct /Length; an indirect one would need another lookup, so fall back to the
+    // endstream keyword and trim the line break before it.
+    const length = dict.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+    let dataEnd = length ? dataStart + Number(length[1]) : text.indexOf('endstream', dataStart);
+    if (!length) {
+      if (text[dataEnd - 1] === '\n') dataEnd--;
+      if (text[dataEnd - 1] === '\r') dataEnd--;
+    }
+    objects.set(Number(match[1]), { dict, stream: bytes.subarray(dataStart, dataEnd) });
+    pattern.lastIndex = Math.max(end, text.indexOf('endobj', dataEnd));
+  }
+  return objects;
+};
+
+// PDF 1.5 writers pack most dictionaries, page objects included, into compressed object streams.
+const unpackObjectStreams = async (objects: Map<number, PdfObject>) => {
+  for (const object of [...objects.values()]) {
+    if (!/\/Type\s*\/ObjStm/.test(object.dict)) continue;
+    const first = Number(object.dict.match(/\/First\s+(\d+)/)?.[1]);
+    const body = await decodeStream(object);
+    if (!body || !Number.isFinite(first)) continue;
+    const header = body.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i + 1 < header.length; i += 2) {
+      const start = first + header[i + 1];
+      const end = i + 3 < header.length ? first + header[i + 3] : body.length;
+      if (!objects.has(header[i])) objects.set(header[i], { dict: body.slice(start, end) });
+    }
+  }
+};
+
+const refs = (value: string) => [...value.matchAll(/(\d+)\s+\d+\s+R/g)].map(match => Number(match[1]));
+
+// Page objects in reading order, by walking the page tree from the catalog; documents whose
+// tree cannot be followed fall back to object order, which usually matches.
+const orderedPages = (objects: Map<number, PdfObject>) => {
+  const isPage = (object?: PdfObject) => !!object && /\/Type\s*\/Page(?![a-zA-Z])/.test(object.dict);
+  const pages: PdfObject[] = [];
+  const visited = new Set<number>();
+  const walk = (id: number) => {
+    const node = objects.get(id);
+    if (!node || visited.has(id) || pages.length >= PDF_PAGES) return;
+    visited.add(id);
+    if (isPage(node)) {
+      pages.push(node);
+      return;
+    }
+    const kids = node.dict.match(/\/Kids\s*\[([^\]]*)\]/);
+    if (kids) refs(kids[1]).forEach(walk);
+  };
+
+  const catalog = [...objects.values()].find(object => /\/Type\s*\/Catalog/.test(object.dict));
+  const root = catalog?.dict.match(/\/Pages\s+(\d+)\s+\d+\s+R/);
+  if (root) walk(Number(root[1]));
+  if (pages.length > 0) return pages;
+  return [...objects.entries()].sort((a, b) => a[0] - b[0]).map(([, object]) => object).filter(isPage).slice(0, PDF_PAGES);
+};
+
+const unescapeLiteral = (raw: string) =>
+  raw.replace(/\\(\r\n|\n|\r|[0-7]{1,3}|.)/g, (_, code: string) => {
+    if (/^[0-7]+$/.test(code)) return String.fromCharCode(parseInt(code, 8) & 0xff);
+    if (code === 'n') return '\n';
+    if (code === 'r') return '\r';
+    if (code === 't') return '\t';
+    if (code === 'b' || code === 'f' || /^[\r\n]/.test(code)) return '';
+    return code;
+  });
+
+// Strings drawn with two-byte (CID) fonts cannot be read without the font's own mapping; they
+// come out as control characters and are dropped rather than fed to a model as noise.
+const isReadable = (value: string) =>
+  value.length > 0 && value.replace(/[\x20-\x7e\xa0-\xff\s]/g, '').length / value.length < 0.2;
+
+const NUMBER = /[-+]?\d*\.?\d+/y;
+const OPERATOR = /[A-Za-z'"*]+/y;
+
+// Pulls the strings out of the text-showing operators of a content stream, with line breaks
+// where the text cursor moves down.
+const contentText = (content: string) => {
+  let out = '';
+  let strings: string[] = [];
+  let numbers: number[] = [];
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === '(') {
+      let depth = 1;
+      let j = i + 1;
+      for (; j < content.length && depth > 0; j++) {
+        if (content[j] === '\\') j++;
+        else if (content[j] === '(') depth++;
+        else if (content[j] === ')') depth--;
+      }
+      strings.push(unescapeLiteral(content.slice(i + 1, j - 1)));
+      i = j;
+    } else if (ch === '<' && content[i + 1] === '<') {
+      i += 2;
+    } else if (ch === '<') {
+      const end = content.indexOf('>', i);
+      if (end < 0) break;
+      const hex = content.slice(i + 1, end).replace(/\s/g, '');
+      strings.push(hex.match(/.{1,2}/g)?.map(pair => String.fromCharCode(parseInt(pair.padEnd(2, '0'), 16))).join('') || '');
+      i = end + 1;
+    } else if (ch === '%') {
+      const end = content.indexOf('\n', i);
+      i = end < 0 ? content.length : end;
+    } else if (/[-+.\d]/.test(ch)) {
+      NUMBER.lastIndex = i;
+      const match = NUMBER.exec(content);
+      if (match) {
+        // Inside a TJ array, a large negative kern is how most writers space words.
+        if (Number(match[0]) < -200) strings.push(' ');
+        numbers.push(Number(match[0]));
+        i += match[0].length;
+      } else {
+        i++;
+      }
+    } else if (/[A-Za-z'"*]/.test(ch)) {
+      OPERATOR.lastIndex = i;
+      const op = OPERATOR.exec(content)![0];
+      i += op.length;
+      if (op === 'Tj' || op === 'TJ' || op === "'" || op === '"') {
+        if (op !== 'Tj' && op !== 'TJ') out += '\n';
+        out += strings.filter(isReadable).join('');
+      } else if (op === 'Td' || op === 'TD') {
+        out += numbers[numbers.length - 1] ? '\n' : ' ';
+      } else if (op === 'T*' || op === 'ET') {
+        out += '\n';
+      } else if (op === 'Tm') {
+        out += ' ';
+      } else if (op === 'BI') {
+        // Inline image data is binary and can contain anything; skip to its end marker.
+        const end = content.indexOf('EI', i);
+        i = end < 0 ? content.length : end + 2;
+      }
+      strings = [];
+      numbers = [];
+    } else {
+      i++;
+    }
+  }
+  return out;
+};
+
+const extractPdfText = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.slice(0, PDF_MAX_BYTES).arrayBuffer());
+  const text = latin1(bytes);
+  if (!text.startsWith('%PDF') || /\/Encrypt\s/.test(text)) return '';
+
+  const objects = readPdfObjects(bytes, text);
+  await unpackObjectStreams(objects);
+
+  let contents: PdfObject[] = orderedPages(objects).flatMap(page => {
+    const value = page.dict.match(/\/Contents\s*(\[[^\]]*\]|\d+\s+\d+\s+R)/);
+    return value ? refs(value[1]).map(id => objects.get(id)).filter((object): object is PdfObject => !!object?.stream) : [];
+  });
+  // Without a readable page tree, any stream that draws text will do.
+  if (contents.length === 0) contents = [...objects.values()].filter(object => object.stream && !/\/Subtype|\/Type|\/Length1/.test(object.dict));
+
+  let result = '';
+  for (const content of contents) {
+    const decoded = await decodeStream(content);
+    if (decoded && decoded.includes('BT')) result += contentText(decoded) + '\n';
+    if (result.length > PDF_MAX_CHARS) break;
+  }
+  return result
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, PDF_MAX_CHARS);
+};
+
+// ---- PSD ----
+
+// PackBits, as used for each row of a PSD's RLE image data.
+const unpackRow = (src: Uint8Array, start: number, end: number, out: Uint8Array) => {
+  let i = start;
+  let o = 0;
+  while (i < end && o < out.length) {
+    const n = src[i++];
+    if (n < 128) {
+      const count = Math.min(n + 1, out.length - o);
+      out.set(src.subarray(i, i + count), o);
+      i += n + 1;
+      o += count;
+    } else if (n > 128) {
+      const count = Math.min(257 - n, out.length - o);
+      out.fill(src[i++], o, o + count);
+      o += count;
+    }
+  }
+};
+
+interface PsdHeader {
+  isPsb: boolean;
+  channels: number;
+  width: number;
+  height: number;
+}
+
+// Reads the merged image at the end of the file, keeping every `step`th pixel so the document
+// never has to be held at full size. Only 8-bit RGB and grayscale documents are handled.
+const readComposite = async (blob: Blob, offset: number, header: PsdHeader, colorChannels: number): Promise<Blob | null> => {
+  const { isPsb, width, height } = header;
+  const step = Math.max(1, Math.ceil(Math.max(width, height) / FRAME_EDGE));
+  const outWidth = Math.ceil(width / step);
+  const outHeight = Math.ceil(height / step);
+  const compression = (await readBytes(blob, offset, offset + 2)).getUint16(0);
+  offset += 2;
+  if (compression > 1) return null;
+
+  // For RLE, a table of compressed row lengths (every row of every channel) precedes the data.
+  let rowLengths: number[] = [];
+  if (compression === 1) {
+    const countSize = isPsb ? 4 : 2;
+    const table = await readBytes(blob, offset, offset + header.channels * height * countSize);
+    rowLengths = Array.from({ length: header.channels * height }, (_, i) => isPsb ? table.getUint32(i * 4) : table.getUint16(i * 2));
+    offset += table.byteLength;
+  }
+
+  const pixels = new Uint8ClampedArray(outWidth * outHeight * 4).fill(255);
+  const row = new Uint8Array(width);
+  for (let c = 0; c < colorChannels; c++) {
+    const lengths = rowLengths.slice(c * height, (c + 1) * height);
+    const channelBytes = compression === 1 ? lengths.reduce((sum, n) => sum + n, 0) : width * height;
+    if (channelBytes > PSD_MAX_CHANNEL_BYTES) return null;
+    const data = new Uint8Array(await blob.slice(offset, offset + channelBytes).arrayBuffer());
+    offset += channelBytes;
+
+    let rowStart = 0;
+    for (let y = 0; y < height; y++) {
+      const rowEnd = compression === 1 ? rowStart + lengths[y] : rowStart + width;
+      if (y % step === 0) {
+        if (compression === 1) unpackRow(data, rowStart, rowEnd, row);
+        else row.set(data.subarray(rowStart, rowEnd));
+        const base = (y / step) * outWidth * 4;
+        for (let x = 0, o = 0; x < width; x += step, o++) {
+          if (colorChannels === 1) pixels.fill(row[x], base + o * 4, base + o * 4 + 3);
+          else pixels[base + o * 4 + c] = row[x];
+        }
+      }
+      rowStart = rowEnd;
+    }
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = outWidth;
+  canvas.height = outHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.putImageData(new ImageData(pixels, outWidth, outHeight), 0, 0);
+  return canvasToJpeg(canvas);
+};
+
+// The small JPEG thumbnail Photoshop stores among the image resources.
+const readThumbnailResource = async (blob: Blob, start: number, length: number): Promise<Blob | null> => {
+  const view = await readBytes(blob, start, start + length);
+  let offset = 0;
+  while (offset + 12 <= view.byteLength && fourCC(view, offset) === '8BIM') {
+    const id = view.getUint16(offset + 4);
+    const nameLength = view.getUint8(offset + 6);
+    offset += 6 + ((nameLength + 2) & ~1);
+    const size = view.getUint32(offset);
+    offset += 4;
+    if (id === PSD_THUMBNAIL_RESOURCE && size > 28) {
+      return blob.slice(start + offset + 28, start + offset + size, 'image/jpeg');
+    }
+    offset += (size + 1) & ~1;
+  }
+  return null;
+};
+
+const extractPsdComposite = async (blob: Blob): Promise<Blob | null> => {
+  const view = await readBytes(blob, 0, 26);
+  if (view.byteLength < 26 || fourCC(view, 0) !== '8BPS') return null;
+  const header: PsdHeader = {
+    isPsb: view.getUint16(4) === 2,
+    channels: view.getUint16(12),
+    height: view.getUint32(14),
+    width: view.getUint32(18)
+  };
+  const depth = view.getUint16(22);
+  const mode = view.getUint16(24);
+
+  let offset = 26;
+  offset += 4 + (await readBytes(blob, offset, offset + 4)).getUint32(0);
+  const resourcesLength = (await readBytes(blob, offset, offset + 4)).getUint32(0);
+  const resourcesStart = offset + 4;
+  offset = resourcesStart + resourcesLength;
+  const layers = await readBytes(blob, offset, offset + (header.isPsb ? 8 : 4));
+  offset += layers.byteLength + (header.isPsb ? Number(layers.getBigUint64(0)) : layers.getUint32(0));
+
+  // 3 is RGB and 1 grayscale; CMYK, Lab and 16-bit documents use the thumbnail instead.
+  const colorChannels = mode === 3 ? 3 : mode === 1 ? 1 : 0;
+  if (depth === 8 && colorChannels > 0 && header.channels >= colorChannels) {
+    const composite = await readComposite(blob, offset, header, colorChannels).catch(() => null);
+    if (composite) return composite;
+  }
+  return readThumbnailResource(blob, resourcesStart, resourcesLength);
+};
+
+// ----
+
+export const isPdf = (mimeType: string, fileName: string) => mimeType === 'application/pdf' || /\.pdf$/i.test(fileName);
+
+export const isPsd = (mimeType: string, fileName: string) =>
+  mimeType === 'image/vnd.adobe.photoshop' || /\.(psd|psb)$/i.test(fileName);
+
+export const buildAnalysisInput = async (
+  data: Blob,
+  mimeType: string,
+  fileName: string,
+  metadata?: MediaMetadata,
+  thumbnail?: Blob
+): Promise<AnalysisInput> => {
+  const input: AnalysisInput = { data, mimeType, fileName, metadata, thumbnail };
+  try {
+    if (mimeType.startsWith('video/')) {
+      input.frames = await sampleVideoFrames(data);
+    } else if (isPsd(mimeType, fileName)) {
+      const composite = await extractPsdComposite(data);
+      if (composite) input.frames = [composite];
+    } else if (isPdf(mimeType, fileName)) {
+      const text = await extractPdfText(data);
+      if (text) input.text = text;
+    }
+  } catch (error) {
+    console.error("Analysis Input Error:", fileName, error);
+  }
+  return input;
+};
@@ -0,0 +1,139 @@
+import { AnalysisProviderId, MediaMetadata } from '../types';
+
+export interface MediaAnalysis {
+  title: string;
+  description: string;
+  tags: string[];
+}
+
+export interface AnalysisInput {
+  data: Blob;
+  mimeType: string;
+  fileName: string;
+  metadata?: MediaMetadata;
+  // Downscaled preview, for providers that only take images or cannot afford the original.
+  thumbnail?: Blob;
+  // Stills standing in for the file itself: keyframes of a video, or a Photoshop composite.
+  frames?: Blob[];
+  // Text from the first pages of a document.
+  text?: string;
+}
+
+export interface AnalysisConfig {
+  model: string;
+  embeddingModel: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface ProviderResponse {
+  // Null when the provider answered but had nothing usable to say.
+  analysis: MediaAnalysis | null;
+  // Tokens billed for the request, as reported by the provider; 0 when unknown.
+  tokens: number;
+}
+
+// A failed request, with the HTTP status where there was one so callers can tell rate limits
+// and server trouble (worth retrying) from bad keys or requests (not worth it).
+export class AnalysisError extends Error {
+  constructor(message: string, public status?: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+// Documents are what gets stored and searched; queries are what the user typed. Some models
+// embed the two differently.
+export type EmbeddingPurpose = 'document' | 'query';
+
+export interface EmbeddingResponse {
+  // One vector per input text, in order.
+  vectors: number[][];
+  tokens: number;
+}
+
+export interface WritingResponse {
+  // Null when the provider has no language model to write with.
+  text: string | null;
+  tokens: number;
+}
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  defaultModel: string;
+  defaultEmbeddingModel: string;
+  // Why the provider cannot run as configured, or null when it can.
+  unavailableReason: (config: AnalysisConfig) => string | null;
+  // Resolves null when there was nothing to send for this input; throws when the request fails.
+  analyze: (input: AnalysisInput, config: AnalysisConfig) => Promise<ProviderResponse | null>;
+  // Throws when the request fails, like `analyze`.
+  embed: (texts: string[], purpose: EmbeddingPurpose, config: AnalysisConfig) => Promise<EmbeddingResponse>;
+  // Free-form text for a prompt, such as a caption. Throws when the request fails.
+  write: (prompt: string, config: AnalysisConfig) => Promise<WritingResponse>;
+}
+
+const RESPONSE_FORMAT = "provide a JSON response with 'title', 'description' (short), and 'tags' (array of 3-5 keywords). Be concise.";
+
+const MAX_TAGS = 8;
+// Formats every vision model accepts as is; anything else goes by its frames or thumbnail.
+const VISION_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+// The pictures a provider should look at for this input, in order.
+export const analysisImages = (input: AnalysisInput): Blob[] => {
+  if (input.frames?.length) return input.frames;
+  if (VISION_TYPES.includes(input.mimeType)) return [input.data];
+  return input.thumbnail ? [input.thumbnail] : [];
+};
+
+// One schema for every kind of file; only the framing of what the model is looking at changes.
+export const analysisPrompt = (input: AnalysisInput) => {
+  const name = `The file is named "${input.fileName}".`;
+  if (input.mimeType.startsWith('video/') && input.frames?.length) {
+    return `These are ${input.frames.length} keyframes sampled in order from one video. ${name} Analyze the video as a whole and ${RESPONSE_FORMAT}`;
+  }
+  if (input.text) {
+    return `Below is text extracted from the first pages of a document. ${name} Analyze the document and ${RESPONSE_FORMAT}\n\n${input.text}`;
+  }
+  if (input.frames?.length) {
+    return `This is the flattened preview of a layered design file. ${name} Analyze the design and ${RESPONSE_FORMAT}`;
+  }
+  return `Analyze this image and ${RESPONSE_FORMAT}`;
+};
+
+// Whether a provider has anything to send for this input.
+export const hasAnalysisContent = (input: AnalysisInput) => analysisImages(input).length > 0 || !!input.text;
+
+// Strips the data: URL prefix; inlineData wants the bare base64 payload.
+export const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Models without a JSON mode often wrap their answer in a Markdown code fence or add a sentence
+// around it, so this takes the outermost object it can find and checks its shape.
+export const parseAnalysis = (text: string | null | undefined): MediaAnalysis | null => {
+  if (!text) return null;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end <= start) return null;
+  let value: unknown;
+  try {
+    value = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== 'object') return null;
+  const parsed = value as { title?: unknown; description?: unknown; tags?: unknown };
+  if (typeof parsed.title !== 'string') return null;
+  const tags = Array.isArray(parsed.tags)
+    ? parsed.tags.filter((tag: unknown): tag is string => typeof tag === 'string').map(tag => tag.trim()).filter(Boolean)
+    : [];
+  return {
+    title: parsed.title.trim(),
+    description: typeof parsed.description === 'string' ? parsed.description.trim() : '',
+    tags: [...new Set(tags)].slice(0, MAX_TAGS)
+  };
+};
@@ -0,0 +1,255 @@
+import { AnalysisJob, AppSettings, MediaItem, MediaType } from '../types';
+import { deleteAnalysisJobs, getAllAnalysisJobs, getMediaItem, getThumbnails, MediaPatch, saveAnalysisJobs, updateMediaItem } from './db';
+import { analyzeMedia, AnalysisOutcome, isRemoteAnalysis } from './analysisService';
+import { buildAnalysisInput } from './analysisInputService';
+import { AnalysisError } from './analysisProvider';
+import { loadOriginal } from './batchService';
+import { addTags } from './metadataService';
+
+// Background analysis of stored items. Jobs persist in IndexedDB, so anything still queued when
+// the page closes carries on after a reload. Requests are capped by concurrency and per minute,
+// and rate-limit or server errors are retried with exponential backoff before a job is marked
+// failed with its reason.
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+const MINUTE_MS = 60000;
+const USAGE_KEY = 'media-vault-analysis-usage';
+
+export type AnalysisQueueSettings = Pick<AppSettings, 'analysisConcurrency' | 'analysisRequestsPerMinute'>;
+
+// Requests sent to remote providers and the tokens they reported, since `since`.
+export interface AnalysisUsage {
+  requests: number;
+  tokens: number;
+  since: number;
+}
+
+export interface AnalysisSnapshot {
+  jobs: AnalysisJob[];
+  usage: AnalysisUsage;
+}
+
+// Receives the item as stored after the patch was applied, for the in-memory copy and search index.
+export type AnalysisCompleteHandler = (item: MediaItem, patch: MediaPatch) => void;
+
+const loadUsage = (): AnalysisUsage => {
+  try {
+    const saved = localStorage.getItem(USAGE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch {
+    // Fall through to a fresh counter.
+  }
+  return { requests: 0, tokens: 0, since: Date.now() };
+};
+
+const jobs = new Map<string, AnalysisJob>();
+const active = new Set<string>();
+const listeners = new Set<(snapshot: AnalysisSnapshot) => void>();
+let settings: AnalysisQueueSettings = { analysisConcurrency: 2, analysisRequestsPerMinute: 30 };
+let usage = loadUsage();
+// Start times of remote requests in the last minute.
+let requestTimes: number[] = [];
+let onComplete: AnalysisCompleteHandler | null = null;
+let started = false;
+let wakeTimer: ReturnType<typeof setTimeout> | undefined;
+
+const snapshot = (): AnalysisSnapshot => ({
+  jobs: [...jobs.values()].sort((a, b) => a.createdAt - b.createdAt),
+  usage
+});
+
+const notify = () => {
+  const current = snapshot();
+  listeners.forEach(listener => listener(current));
+};
+
+export const subscribeAnalysis = (listener: (snapshot: AnalysisSnapshot) => void) => {
+  listeners.add(listener);
+  listener(snapshot());
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const update = (id: string, patch: Partial<AnalysisJob>) => {
+  const job = jobs.get(id);
+  if (!job) return undefined;
+  const next = { ...job, ...patch };
+  jobs.set(id, next);
+  return next;
+};
+
+// Also counts requests made outside the queue, such as embeddings for semantic search.
+export const recordAnalysisUsage = (requests: number, tokens: number) => {
+  if (requests === 0) return;
+  usage = { ...usage, requests: usage.requests + requests, tokens: usage.tokens + tokens };
+  localStorage.setItem(USAGE_KEY, JSON.stringify(usage));
+  notify();
+};
+
+export const resetAnalysisUsage = () => {
+  usage = { requests: 0, tokens: 0, since: Date.now() };
+  localStorage.setItem(USAGE_KEY, JSON.stringify(usage));
+  notify();
+};
+
+// Rate limits and server trouble pass; bad keys, bad requests and unreadable files do not.
+const isRetryable = (err: unknown) => {
+  const status = (err as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+  const name = (err as { name?: unknown } | null)?.name;
+  // fetch rejects with a TypeError when the server cannot be reached at all.
+  return err instanceof TypeError || name === 'TimeoutError' || name === 'AbortError';
+};
+
+const describeError = (err: unknown) => {
+  if (err instanceof Error) return err.message;
+  return typeof err === 'string' ? err : 'Analysis failed';
+};
+
+const retryDelay = (err: unknown, attempts: number) => {
+  const requested = err instanceof AnalysisError ? err.retryAfterMs : undefined;
+  return Math.min(RETRY_MAX_MS, requested ?? RETRY_BASE_MS * 2 ** (attempts - 1));
+};
+
+// Stored originals usually keep their MIME type; for the rest it is guessed from the extension.
+const mimeTypeFor = (item: MediaItem) => {
+  const ext = (item.extension || '').toLowerCase();
+  if (item.type === MediaType.VIDEO) return `video/${ext || 'mp4'}`;
+  if (item.type === MediaType.IMAGE) return `image/${ext || 'jpeg'}`;
+  return ext === 'pdf' ? 'application/pdf' : 'application/octet-stream';
+};
+
+const analyze = async (item: MediaItem): Promise<AnalysisOutcome> => {
+  const original = await loadOriginal(item);
+  if (!original) throw new Error('The original file is missing');
+  const thumbnail = (await getThumbnails([item.id])).get(item.id);
+  const fileName = item.originalFileName || `${item.title}.${item.extension || 'jpeg'}`;
+  const input = await buildAnalysisInput(original, original.type || mimeTypeFor(item), fileName, item.metadata, thumbnail);
+  return analyzeMedia(input);
+};
+
+// Built against the item as stored when the result is written, not as it was when the job
+// started, since analysis can take minutes. New tags are merged into the current ones, and a
+// title or description the user changed while the job ran is kept.
+const analysisPatch = (current: MediaItem, started: MediaItem, outcome: AnalysisOutcome): MediaPatch => {
+  const { title, description, tags } = outcome.analysis;
+  const patch: MediaPatch = {
+    tags: addTags(current.tags, tags || []),
+    analyzedAt: Date.now(),
+    analyzedBy: outcome.providerId
+  };
+  if (title && current.title === started.title) patch.title = title;
+  if (description && current.description === started.description) patch.description = description;
+  return patch;
+};
+
+const run = async (id: string) => {
+  active.add(id);
+  update(id, { status: 'running', error: undefined, retryAt: undefined });
+  notify();
+  try {
+    const item = await getMediaItem(id);
+    // Deleted or trashed since it was queued; nothing left to do.
+    if (item && !item.deletedAt) {
+      const outcome = await analyze(item);
+      recordAnalysisUsage(outcome.requests, outcome.tokens);
+      let patch: MediaPatch = {};
+      const stored = await updateMediaItem(id, current => (patch = analysisPatch(current, item, outcome)));
+      onComplete?.(stored, patch);
+    }
+    await deleteAnalysisJobs([id]);
+    jobs.delete(id);
+  } catch (err) {
+    const job = jobs.get(id);
+    if (job) {
+      const attempts = job.attempts + 1;
+      const next = isRetryable(err) && attempts < MAX_ATTEMPTS
+        ? update(id, { status: 'pending', attempts, error: describeError(err), retryAt: Date.now() + retryDelay(err, attempts) })!
+        : update(id, { status: 'failed', attempts, error: describeError(err) })!;
+      await saveAnalysisJobs([next]).catch(console.error);
+    }
+    console.error("Analysis Error:", id, err);
+  } finally {
+    active.delete(id);
+    notify();
+    schedule();
+  }
+};
+
+// Starts as many due jobs as the limits allow, oldest first, and sets a timer for the moment
+// the next one becomes due.
+const schedule = () => {
+  if (!started) return;
+  clearTimeout(wakeTimer);
+  const now = Date.now();
+  const remote = isRemoteAnalysis();
+  const perMinute = settings.analysisRequestsPerMinute;
+  requestTimes = requestTimes.filter(time => now - time < MINUTE_MS);
+  let wakeAt = Infinity;
+
+  for (const job of snapshot().jobs) {
+    if (active.size >= Math.max(1, settings.analysisConcurrency)) break;
+    if (job.status !== 'pending') continue;
+    if (job.retryAt && job.retryAt > now) {
+      wakeAt = Math.min(wakeAt, job.retryAt);
+      continue;
+    }
+    if (remote && perMinute > 0 && requestTimes.length >= perMinute) {
+      wakeAt = Math.min(wakeAt, requestTimes[0] + MINUTE_MS);
+      break;
+    }
+    if (remote) requestTimes.push(now);
+    run(job.id);
+  }
+  if (wakeAt < Infinity) wakeTimer = setTimeout(schedule, wakeAt - now);
+};
+
+export const configureAnalysisQueue = (next: AnalysisQueueSettings) => {
+  settings = next;
+  schedule();
+};
+
+// Picks up the jobs left over from the last session. Anything that was mid-request starts over.
+export const startAnalysisQueue = async (handler: AnalysisCompleteHandler) => {
+  onComplete = handler;
+  if (started) return;
+  started = true;
+  const saved = await getAllAnalysisJobs();
+  saved.forEach(job => {
+    if (!jobs.has(job.id)) jobs.set(job.id, job.status === 'running' ? { ...job, status: 'pending' } : job);
+  });
+  notify();
+  schedule();
+};
+
+// Queues items for (re-)analysis. Items already in flight are left alone; failed ones start over.
+export const queueAnalysis = async (ids: string[]) => {
+  const now = Date.now();
+  const added: AnalysisJob[] = ids
+    .filter(id => jobs.get(id)?.status !== 'running')
+    .map((id, i) => ({ id, status: 'pending', attempts: 0, createdAt: now + i }));
+  if (added.length === 0) return;
+  await saveAnalysisJobs(added);
+  added.forEach(job => jobs.set(job.id, job));
+  notify();
+  schedule();
+};
+
+// Forgets jobs for deleted items; their stored rows go with the items. A job already running
+// finds its item gone and is dropped when it finishes.
+export const dropAnalysisJobs = (ids: string[]) => {
+  const dropped = ids.filter(id => !active.has(id) && jobs.delete(id));
+  if (dropped.length > 0) notify();
+};
+
+export const retryFailedAnalysis = () =>
+  queueAnalysis([...jobs.values()].filter(job => job.status === 'failed').map(job => job.id));
+
+// Uploads made before analysis was tracked still carry the placeholder description they were
+// given when auto-tagging was off or had no key, which is how they are told apart from items a
+// provider already described.
+export const isUnanalyzed = (item: MediaItem) =>
+  !item.analyzedAt && !item.deletedAt && (!item.description || /^Professional \w* project file\.$/.test(item.description));
@@ -0,0 +1,95 @@
+import { AnalysisProviderId, AppSettings } from '../types';
+import { AnalysisConfig, AnalysisInput, AnalysisProvider, EmbeddingPurpose, MediaAnalysis } from './analysisProvider';
+import { geminiProvider } from './geminiService';
+import { openAIProvider } from './openaiService';
+import { analyzeLocally, localProvider } from './localAnalysisService';
+
+// Routes auto-tagging to the provider picked in Settings. Whenever that provider is not set up or
+// has nothing to work with for a file, the on-device provider answers instead. Failed requests are
+// thrown, so the analysis queue can retry them rather than settle for a weaker answer.
+// Embeddings follow the same provider but never fall back per request: vectors from two models
+// cannot be compared, so a failed request is left for the next sync instead.
+
+export const ANALYSIS_PROVIDERS: Record<AnalysisProviderId, AnalysisProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  local: localProvider
+};
+
+export type AnalysisSettings = Pick<AppSettings, 'analysisProvider' | 'analysisModel' | 'analysisBaseUrl' | 'analysisApiKey' | 'analysisEmbeddingModel'>;
+
+const toConfig = (settings: AnalysisSettings): AnalysisConfig => ({
+  model: settings.analysisModel.trim(),
+  embeddingModel: settings.analysisEmbeddingModel.trim(),
+  baseUrl: settings.analysisBaseUrl.trim(),
+  apiKey: settings.analysisApiKey.trim()
+});
+
+let providerId: AnalysisProviderId = 'gemini';
+let config: AnalysisConfig = { model: '', embeddingModel: '', baseUrl: '', apiKey: '' };
+
+export const configureAnalysis = (settings: AnalysisSettings) => {
+  providerId = settings.analysisProvider;
+  config = toConfig(settings);
+};
+
+// What Settings shows under the provider picker when it will not be used as chosen.
+export const describeAnalysisFallback = (settings: AnalysisSettings) => {
+  const reason = ANALYSIS_PROVIDERS[settings.analysisProvider].unavailableReason(toConfig(settings));
+  return reason ? `${reason}; using on-device analysis` : null;
+};
+
+export interface AnalysisOutcome {
+  analysis: MediaAnalysis;
+  providerId: AnalysisProviderId;
+  // Network requests made and tokens they used, for the usage counter.
+  requests: number;
+  tokens: number;
+}
+
+// Whether analysis currently goes over the network, and so counts against rate limits.
+export const isRemoteAnalysis = () => {
+  const provider = ANALYSIS_PROVIDERS[providerId];
+  return provider !== localProvider && !provider.unavailableReason(config);
+};
+
+export const analyzeMedia = async (input: AnalysisInput): Promise<AnalysisOutcome> => {
+  const provider = ANALYSIS_PROVIDERS[providerId];
+  if (isRemoteAnalysis()) {
+    const response = await provider.analyze(input, config);
+    if (response?.analysis) return { analysis: response.analysis, providerId: provider.id, requests: 1, tokens: response.tokens };
+    if (response) return { analysis: await analyzeLocally(input), providerId: 'local', requests: 1, tokens: response.tokens };
+  }
+  return { analysis: await analyzeLocally(input), providerId: 'local', requests: 0, tokens: 0 };
+};
+
+export interface EmbeddingOutcome {
+  // Identifies the vector space; only vectors with the same model are comparable.
+  model: string;
+  vectors: number[][];
+  requests: number;
+  tokens: number;
+}
+
+const embeddingProvider = () => isRemoteAnalysis() ? ANALYSIS_PROVIDERS[providerId] : localProvider;
+
+// The model embeddings currently come from, e.g. "openai:text-embedding-3-small".
+export const embeddingModelId = () => {
+  const provider = embeddingProvider();
+  const model = provider === localProvider ? '' : config.embeddingModel;
+  return `${provider.id}:${model || provider.defaultEmbeddingModel}`;
+};
+
+export const embedTexts = async (texts: string[], purpose: EmbeddingPurpose): Promise<EmbeddingOutcome> => {
+  const provider = embeddingProvider();
+  const model = embeddingModelId();
+  const response = await provider.embed(texts, purpose, config);
+  return { model, vectors: response.vectors, requests: provider === localProvider ? 0 : 1, tokens: response.tokens };
+};
+
+// Text written by the chosen provider, or null when analysis runs on-device.
+export const writeText = async (prompt: string): Promise<{ text: string | null; requests: number; tokens: number }> => {
+  if (!isRemoteAnalysis()) return { text: null, requests: 0, tokens: 0 };
+  const response = await ANALYSIS_PROVIDERS[providerId].write(prompt, config);
+  return { text: response.text, requests: 1, tokens: response.tokens };
+};
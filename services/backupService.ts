@@ -0,0 +1,164 @@
+import { Album, MediaItem } from '../types';
+import { addMediaItems, deleteMediaItems, saveAlbum } from './db';
+import { loadOriginal, getDownloadName } from './batchService';
+import { generateThumbnail } from './thumbnailService';
+import { createZip, readZip, uniqueEntryNames, ZipEntry } from './zipService';
+
+// A vault archive is a ZIP holding every original under media/ plus manifest.json, which
+// carries the metadata and albums needed to rebuild the vault on another machine.
+const MANIFEST_NAME = 'manifest.json';
+const MANIFEST_FORMAT = 'lumina-vault';
+const MANIFEST_VERSION = 1;
+
+export type ManifestItem = Omit<MediaItem, 'url' | 'thumbnailUrl' | 'blobId'> & { file: string };
+
+export interface VaultManifest {
+  format: typeof MANIFEST_FORMAT;
+  version: number;
+  exportedAt: number;
+  items: ManifestItem[];
+  albums: Album[];
+}
+
+// merge: import everything, giving clashing ids a fresh one so both copies are kept.
+// dedupe: skip items already in the vault, by id, content hash, or file name and size.
+// overwrite: replace existing items and albums that share an id with the archive's version.
+export type ImportStrategy = 'merge' | 'dedupe' | 'overwrite';
+
+export interface TransferProgress {
+  phase: string;
+  done: number;
+  total: number;
+}
+
+export interface ImportResult {
+  added: MediaItem[];
+  replacedIds: string[];
+  skipped: number;
+  albums: Album[];
+}
+
+const toManifestItem = ({ url, thumbnailUrl, blobId, ...item }: MediaItem, file: string): ManifestItem => ({ ...item, file });
+
+export const exportVault = async (items: MediaItem[], albums: Album[], onProgress: (progress: TransferProgress) => void): Promise<Blob> => {
+  const names = uniqueEntryNames(items.map(item => `media/${getDownloadName(item)}`));
+  const entries: ZipEntry[] = [];
+  const manifestItems: ManifestItem[] = [];
+
+  for (let i = 0; i < items.length; i++) {
+    onProgress({ phase: 'Collecting originals', done: i, total: items.length });
+    const data = await loadOriginal(items[i]);
+    if (!data) continue;
+    entries.push({ name: names[i], data, lastModified: items[i].createdAt });
+    manifestItems.push(toManifestItem(items[i], names[i]));
+  }
+
+  const manifest: VaultManifest = {
+    format: MANIFEST_FORMAT,
+    version: MANIFEST_VERSION,
+    exportedAt: Date.now(),
+    items: manifestItems,
+    albums
+  };
+  entries.push({ name: MANIFEST_NAME, data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) });
+
+  return createZip(entries, (done, total) => onProgress({ phase: 'Writing archive', done, total }));
+};
+
+const parseManifest = (text: string): VaultManifest => {
+  const manifest = JSON.parse(text) as VaultManifest;
+  if (manifest.format !== MANIFEST_FORMAT || !Array.isArray(manifest.items)) {
+    throw new Error('This archive was not exported from a vault');
+  }
+  if (manifest.version > MANIFEST_VERSION) {
+    throw new Error('This archive was exported by a newer version of the app');
+  }
+  return { ...manifest, albums: manifest.albums || [] };
+};
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const fileKey = (item: { originalFileName?: string; title: string; size?: string }) =>
+  `${(item.originalFileName || item.title).toLowerCase()}|${item.size || ''}`;
+
+export const importVault = async (
+  archive: Blob,
+  existingItems: MediaItem[],
+  existingAlbums: Album[],
+  strategy: ImportStrategy,
+  onProgress: (progress: TransferProgress) => void
+): Promise<ImportResult> => {
+  const entries = await readZip(archive);
+  const manifestEntry = entries.find(entry => entry.name === MANIFEST_NAME);
+  if (!manifestEntry) throw new Error('The archive has no manifest.json');
+  const manifest = parseManifest(await (await manifestEntry.read()).text());
+  const files = new Map(entries.map(entry => [entry.name, entry]));
+
+  const existingIds = new Set(existingItems.map(item => item.id));
+  const existingFiles = new Map(existingItems.map(item => [fileKey(item), item.id]));
+  const existingHashes = new Map(existingItems.filter(item => item.contentHash).map(item => [item.contentHash!, item.id]));
+  // Archive id -> id the item ends up with in this vault, for rewriting album membership.
+  const idMap = new Map<string, string>();
+  const result: ImportResult = { added: [], replacedIds: [], skipped: 0, albums: [] };
+
+  for (let i = 0; i < manifest.items.length; i++) {
+    onProgress({ phase: 'Importing items', done: i, total: manifest.items.length });
+    const { file, ...meta } = manifest.items[i];
+    const entry = files.get(file);
+    if (!entry) {
+      result.skipped++;
+      continue;
+    }
+
+    const clashes = existingIds.has(meta.id);
+    const duplicateOf = clashes
+      ? meta.id
+      : (meta.contentHash && existingHashes.get(meta.contentHash)) || existingFiles.get(fileKey(meta));
+    if (strategy === 'dedupe' && duplicateOf) {
+      // Albums in the archive still pick up the copy that is already here.
+      idMap.set(meta.id, duplicateOf);
+      result.skipped++;
+      continue;
+    }
+
+    const id = clashes && strategy === 'merge' ? newId() : meta.id;
+    if (clashes && strategy === 'overwrite') {
+      await deleteMediaItems([id]);
+      result.replacedIds.push(id);
+    }
+
+    const data = await entry.read();
+    const thumbnail = await generateThumbnail(data, meta.type, meta.edits).catch(() => null);
+    const [stored] = await addMediaItems([{ ...meta, id, url: data, thumbnailUrl: thumbnail || undefined }]);
+    idMap.set(meta.id, id);
+    existingIds.add(id);
+    existingFiles.set(fileKey(meta), id);
+    if (meta.contentHash) existingHashes.set(meta.contentHash, id);
+    // The grid only needs the thumbnail; the original is read back from storage when opened.
+    result.added.push({ ...stored, url: '' });
+  }
+
+  onProgress({ phase: 'Restoring albums', done: 0, total: manifest.albums.length });
+  for (const album of manifest.albums) {
+    const itemIds = album.itemIds.filter(id => idMap.has(id)).map(id => idMap.get(id)!);
+    const coverItemId = album.coverItemId ? idMap.get(album.coverItemId) : undefined;
+    const existing = existingAlbums.find(a => a.id === album.id);
+    let next: Album;
+    if (!existing) {
+      next = { ...album, itemIds, coverItemId };
+    } else if (strategy === 'overwrite') {
+      next = { ...album, itemIds, coverItemId, updatedAt: Date.now() };
+    } else {
+      next = {
+        ...existing,
+        itemIds: [...existing.itemIds, ...itemIds.filter(id => !existing.itemIds.includes(id))],
+        updatedAt: Date.now()
+      };
+    }
+    await saveAlbum(next);
+    result.albums.push(next);
+  }
+  onProgress({ phase: 'Done', done: manifest.albums.length, total: manifest.albums.length });
+
+  return result;
+};
@@ -0,0 +1,46 @@
+import { MediaItem } from '../types';
+import { getMediaBlob } from './db';
+import { createZip, uniqueEntryNames, ZipEntry } from './zipService';
+
+// Originals live in the blob store. Anything without a stored blob (legacy data: URLs,
+// uploads still holding their object URL) is read back through its url instead.
+export const loadOriginal = async (item: MediaItem): Promise<Blob | null> => {
+  if (item.url instanceof Blob) return item.url;
+  if (item.blobId) {
+    const blob = await getMediaBlob(item.blobId);
+    if (blob) return blob;
+  }
+  if (!item.url) return null;
+  return fetch(item.url).then(res => res.blob()).catch(() => null);
+};
+
+export const getDownloadName = (item: MediaItem) =>
+  item.originalFileName || `${item.title.replace(/\s+/g, '_')}_vault.${item.extension || 'file'}`;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // The browser reads the URL asynchronously after click(), so give it a moment.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Packs the originals into a ZIP named after their file names, skipping any whose blob is gone.
+export const archiveItems = async (items: MediaItem[], onProgress?: (done: number, total: number) => void): Promise<Blob> => {
+  const names = uniqueEntryNames(items.map(getDownloadName));
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < items.length; i++) {
+    const data = await loadOriginal(items[i]);
+    if (data) entries.push({ name: names[i], data, lastModified: items[i].createdAt });
+  }
+  return createZip(entries, onProgress);
+};
+
+// Anything with a stored original: images directly, videos by their keyframes, PDFs by their text
+// and PSDs by their composite.
+export const canReanalyze = (item: MediaItem) => !!item.blobId || !!item.url;
+
@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CameraDevices, closeCamera, openCamera, recordVideo } from './cameraService';
+
+// A stand-in for getUserMedia's stream: tracks that only record whether they were stopped.
+const fakeStream = () => {
+  const tracks = [{ kind: 'video', stop: vi.fn() }, { kind: 'audio', stop: vi.fn() }];
+  const stream = { getTracks: () => tracks, getVideoTracks: () => tracks.slice(0, 1) } as unknown as MediaStream;
+  return { stream, tracks };
+};
+
+// Records one chunk per start/stop and reports the MIME type it was asked for, as browsers do.
+const fakeRecorder = (supported: string[]) => {
+  const created: { options?: MediaRecorderOptions }[] = [];
+  class FakeRecorder {
+    static isTypeSupported = (type: string) => supported.includes(type);
+    state: RecordingState = 'inactive';
+    mimeType: string;
+    ondataavailable: ((e: { data: Blob }) => void) | null = null;
+    onstop: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    constructor(_stream: MediaStream, options?: MediaRecorderOptions) {
+      this.mimeType = options?.mimeType || '';
+      created.push({ options });
+    }
+    start() {
+      this.state = 'recording';
+    }
+    stop() {
+      this.state = 'inactive';
+      this.ondataavailable?.({ data: new Blob(['frames']) });
+      this.onstop?.();
+    }
+  }
+  return { Recorder: FakeRecorder as unknown as CameraDevices['MediaRecorder'], created };
+};
+
+const devicesWith = (overrides: Partial<CameraDevices>): CameraDevices => ({
+  getUserMedia: async () => fakeStream().stream,
+  enumerateDevices: async () => [],
+  ...overrides
+});
+
+describe('openCamera', () => {
+  it('asks for the rear camera with sound', async () => {
+    const getUserMedia = vi.fn(async () => fakeStream().stream);
+
+    await openCamera(undefined, devicesWith({ getUserMedia }));
+
+    expect(getUserMedia).toHaveBeenCalledWith({ video: { facingMode: 'environment' }, audio: true });
+  });
+
+  it('falls back to video only when the microphone is missing', async () => {
+    const getUserMedia = vi.fn()
+      .mockRejectedValueOnce(new DOMException('no mic', 'NotFoundError'))
+      .mockResolvedValueOnce(fakeStream().stream);
+
+    await openCamera('front', devicesWith({ getUserMedia }));
+
+    expect(getUserMedia).toHaveBeenLastCalledWith({ video: { deviceId: { exact: 'front' } } });
+  });
+
+  it('does not retry when access is blocked', async () => {
+    const getUserMedia = vi.fn().mockRejectedValue(new DOMException('denied', 'NotAllowedError'));
+
+    await expect(openCamera(undefined, devicesWith({ getUserMedia }))).rejects.toMatchObject({ name: 'NotAllowedError' });
+    expect(getUserMedia).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('recordVideo', () => {
+  it('records MP4 where the browser supports it', async () => {
+    const { Recorder, created } = fakeRecorder(['video/mp4', 'video/webm']);
+
+    const recording = recordVideo(fakeStream().stream, devicesWith({ MediaRecorder: Recorder }));
+    recording.stop();
+    const file = await recording.result;
+
+    expect(created[0].options).toEqual({ mimeType: 'video/mp4' });
+    expect(file.type).toBe('video/mp4');
+    expect(file.name).toMatch(/^Video .*\.mp4$/);
+  });
+
+  it('picks the first supported WebM codec and drops codec parameters from the file type', async () => {
+    const { Recorder, created } = fakeRecorder(['video/webm;codecs=vp8,opus', 'video/webm']);
+
+    const recording = recordVideo(fakeStream().stream, devicesWith({ MediaRecorder: Recorder }));
+    recording.stop();
+    const file = await recording.result;
+
+    expect(created[0].options).toEqual({ mimeType: 'video/webm;codecs=vp8,opus' });
+    expect(file.type).toBe('video/webm');
+    expect(file.name).toMatch(/\.webm$/);
+  });
+
+  it('lets the browser choose when it supports none of the listed types', () => {
+    const { Recorder, created } = fakeRecorder([]);
+
+    recordVideo(fakeStream().stream, devicesWith({ MediaRecorder: Recorder }));
+
+    expect(created[0].options).toBeUndefined();
+  });
+
+  it('throws where recording is not available', () => {
+    expect(() => recordVideo(fakeStream().stream, devicesWith({}))).toThrow();
+  });
+});
+
+describe('closeCamera', () => {
+  it('stops every track of the stream', async () => {
+    const { stream, tracks } = fakeStream();
+
+    closeCamera(await openCamera(undefined, devicesWith({ getUserMedia: async () => stream })));
+
+    tracks.forEach(track => expect(track.stop).toHaveBeenCalled());
+  });
+
+  it('finishes a recording in progress before the tracks stop', async () => {
+    const { stream, tracks } = fakeStream();
+    const { Recorder } = fakeRecorder(['video/webm']);
+    const recording = recordVideo(stream, devicesWith({ MediaRecorder: Recorder }));
+
+    closeCamera(stream, recording);
+
+    await expect(recording.result).resolves.toBeInstanceOf(File);
+    tracks.forEach(track => expect(track.stop).toHaveBeenCalled());
+  });
+});
@@ -0,0 +1,128 @@
+import { dateStampedName } from './ingestService';
+
+const PHOTO_QUALITY = 0.92;
+
+// First one the browser can record wins: Safari only records MP4, Chromium and Firefox WebM.
+const RECORDER_TYPES = [
+  'video/mp4;codecs=avc1,mp4a.40.2',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm'
+];
+
+type RecorderConstructor = {
+  new (stream: MediaStream, options?: MediaRecorderOptions): MediaRecorder;
+  isTypeSupported: (type: string) => boolean;
+};
+
+// The browser APIs the camera goes through, passed in so the capture flow can be driven by a
+// fake stream and recorder.
+export interface CameraDevices {
+  getUserMedia: (constraints: MediaStreamConstraints) => Promise<MediaStream>;
+  enumerateDevices: () => Promise<MediaDeviceInfo[]>;
+  // Missing where the browser cannot record video.
+  MediaRecorder?: RecorderConstructor;
+}
+
+export const browserCamera: CameraDevices = {
+  getUserMedia: constraints => navigator.mediaDevices.getUserMedia(constraints),
+  enumerateDevices: () => navigator.mediaDevices.enumerateDevices(),
+  MediaRecorder: typeof MediaRecorder !== 'undefined' ? MediaRecorder : undefined
+};
+
+export const canUseCamera = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+export const canRecordVideo = (devices = browserCamera) => !!devices.MediaRecorder;
+
+// Device labels are only filled in once the page holds camera permission, so call this after
+// the first stream is open.
+export const listCameras = async (devices = browserCamera): Promise<MediaDeviceInfo[]> => {
+  const all = await devices.enumerateDevices();
+  return all.filter(device => device.kind === 'videoinput');
+};
+
+// Opens the given camera, or the rear one where there is a choice. Audio is asked for so videos
+// have sound, but a missing or blocked microphone should not stop photos from working.
+export const openCamera = async (deviceId?: string, devices = browserCamera): Promise<MediaStream> => {
+  const video: MediaTrackConstraints = deviceId
+    ? { deviceId: { exact: deviceId } }
+    : { facingMode: 'environment' };
+  try {
+    return await devices.getUserMedia({ video, audio: true });
+  } catch (err) {
+    if (err instanceof DOMException && (err.name === 'NotAllowedError' || err.name === 'SecurityError')) throw err;
+    return devices.getUserMedia({ video });
+  }
+};
+
+export const stopStream = (stream: MediaStream | null) => {
+  stream?.getTracks().forEach(track => track.stop());
+};
+
+export const describeCameraError = (err: unknown) => {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'Camera access was blocked. Allow it in the browser to take photos here.';
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'No camera was found on this device.';
+  if (name === 'NotReadableError') return 'The camera is in use by another app.';
+  return 'Could not start the camera.';
+};
+
+// Grabs the current frame of a live preview at the camera's full resolution.
+export const capturePhoto = (video: HTMLVideoElement): Promise<File> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || canvas.width === 0) return Promise.reject('Camera is not ready');
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => canvas.toBlob(blob => {
+    if (!blob) return reject('Could not encode photo');
+    resolve(new File([blob], `${dateStampedName('Photo')}.jpg`, { type: 'image/jpeg', lastModified: Date.now() }));
+  }, 'image/jpeg', PHOTO_QUALITY));
+};
+
+export interface VideoRecording {
+  // Resolves with the finished clip once `stop` is called, or the stream ends on its own.
+  result: Promise<File>;
+  stop: () => void;
+}
+
+export const recordVideo = (stream: MediaStream, devices = browserCamera): VideoRecording => {
+  const Recorder = devices.MediaRecorder;
+  if (!Recorder) throw new Error('Recording is not supported');
+  const mimeType = RECORDER_TYPES.find(type => Recorder.isTypeSupported(type));
+  const recorder = new Recorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+
+  const result = new Promise<File>((resolve, reject) => {
+    recorder.ondataavailable = e => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      // The queue sorts files by plain MIME type, so codec parameters are dropped here.
+      const type = (recorder.mimeType || mimeType || 'video/webm').split(';')[0];
+      if (chunks.length === 0) return reject('Nothing was recorded');
+      const ext = type === 'video/mp4' ? 'mp4' : 'webm';
+      resolve(new File(chunks, `${dateStampedName('Video')}.${ext}`, { type, lastModified: Date.now() }));
+    };
+    recorder.onerror = () => reject('Recording failed');
+  });
+
+  // With a timeslice the recorder hands over data as it goes instead of in one piece at the end.
+  recorder.start(1000);
+  return {
+    result,
+    stop: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    }
+  };
+};
+
+// Ends a take in progress and turns the camera off, so its light goes out as the dialog closes.
+export const closeCamera = (stream: MediaStream | null, recording?: VideoRecording | null) => {
+  recording?.stop();
+  stopStream(stream);
+};
@@ -0,0 +1,66 @@
+import { MediaItem } from '../types';
+import { writeText } from './analysisService';
+import { recordAnalysisUsage } from './analysisQueueService';
+import { captionPrompt, CurationCard } from './curationService';
+
+// Captions for For You cards, written by the analysis provider. Each is cached until its card's
+// contents change, so a card costs one request however often the tab is opened.
+
+const CAPTIONS_KEY = 'media-vault-captions';
+
+interface CachedCaption {
+  signature: string;
+  caption: string;
+}
+
+const loadCache = (): Record<string, CachedCaption> => {
+  try {
+    return JSON.parse(localStorage.getItem(CAPTIONS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const cache = loadCache();
+const saveCache = () => localStorage.setItem(CAPTIONS_KEY, JSON.stringify(cache));
+const inFlight = new Set<string>();
+
+const signatureOf = (card: CurationCard) => `${card.title}|${card.itemIds.length}|${card.coverId}`;
+
+// Reports cached captions straight away, then writes the missing ones one card at a time.
+// Cards that no longer exist are dropped from the cache.
+export const captionCards = async (
+  cards: CurationCard[],
+  items: MediaItem[],
+  onCaption: (cardId: string, caption: string) => void,
+  isCancelled: () => boolean
+): Promise<void> => {
+  const ids = new Set(cards.map(card => card.id));
+  Object.keys(cache).filter(id => !ids.has(id)).forEach(id => delete cache[id]);
+
+  const missing = cards.filter(card => {
+    const cached = cache[card.id];
+    if (cached?.signature !== signatureOf(card)) return true;
+    onCaption(card.id, cached.caption);
+    return false;
+  });
+
+  for (const card of missing) {
+    if (isCancelled()) break;
+    if (inFlight.has(card.id)) continue;
+    inFlight.add(card.id);
+    try {
+      const { text, requests, tokens } = await writeText(captionPrompt(card, items));
+      recordAnalysisUsage(requests, tokens);
+      // On-device analysis has nothing to write with; the cards keep their plain subtitles.
+      if (!text) break;
+      const caption = text.replace(/^["'“]+|["'”]+$/g, '');
+      cache[card.id] = { signature: signatureOf(card), caption };
+      saveCache();
+      if (!isCancelled()) onCaption(card.id, caption);
+    } finally {
+      inFlight.delete(card.id);
+    }
+  }
+  saveCache();
+};
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { buildCurations, CurationKind } from './curationService';
+import { MediaItem, MediaType } from '../types';
+
+const DAY_MS = 86400000;
+// Dates are local, as the curation works in the viewer's calendar.
+const NOW = new Date(2024, 5, 15, 12).getTime();
+
+const photo = (id: string, capturedAt: number, extra: Partial<MediaItem> = {}): MediaItem => ({
+  id,
+  url: '',
+  type: MediaType.IMAGE,
+  title: id,
+  tags: [],
+  isFavorite: false,
+  createdAt: NOW,
+  metadata: { capturedAt },
+  ...extra
+});
+
+// A run of `count` photos starting at `start`, `step` apart.
+const series = (prefix: string, start: number, count: number, step: number, extra: (i: number) => Partial<MediaItem> = () => ({})) =>
+  Array.from({ length: count }, (_, i) => photo(`${prefix}${i}`, start + i * step, extra(i)));
+
+const cards = (items: MediaItem[], kind: CurationKind) => buildCurations(items, NOW).filter(card => card.kind === kind);
+
+describe('buildCurations', () => {
+  describe('on this day', () => {
+    it('groups earlier years on today\'s date, newest first', () => {
+      const items = [
+        photo('a', new Date(2021, 5, 15, 9).getTime()),
+        photo('b', new Date(2023, 5, 15, 18).getTime()),
+        photo('c', new Date(2021, 5, 15, 20).getTime()),
+        photo('today', new Date(2024, 5, 15, 8).getTime()),
+        photo('yesterday', new Date(2023, 5, 14, 23).getTime())
+      ];
+
+      const result = cards(items, 'on-this-day');
+
+      expect(result.map(card => [card.id, card.title])).toEqual([
+        ['on-this-day-2023', 'On this day 1 year ago'],
+        ['on-this-day-2021', 'On this day 3 years ago']
+      ]);
+      expect([...result[1].itemIds].sort()).toEqual(['a', 'c']);
+    });
+
+    it('leaves out items in the trash', () => {
+      const items = [photo('gone', new Date(2022, 5, 15).getTime(), { deletedAt: NOW - DAY_MS })];
+
+      expect(cards(items, 'on-this-day')).toEqual([]);
+    });
+  });
+
+  describe('trips', () => {
+    const start = new Date(2024, 2, 1, 10).getTime();
+
+    it('finds a dense run of photos and names it after a common tag', () => {
+      const items = series('t', start, 10, DAY_MS, i => ({ tags: i < 3 ? ['Beach'] : [] }));
+
+      const [trip] = cards(items, 'trip');
+
+      expect(trip.title).toBe('Trip · Beach');
+      expect(trip.itemIds).toHaveLength(10);
+    });
+
+    it('leaves a trip unnamed when no tag covers enough of it', () => {
+      const items = series('t', start, 10, DAY_MS, i => ({ tags: i < 2 ? ['Beach'] : ['2024'] }));
+
+      expect(cards(items, 'trip')[0].title).toBe('Trip');
+    });
+
+    it('keeps a gap of exactly two days inside the trip and splits on a longer one', () => {
+      const before = series('t', start, 9, DAY_MS / 2);
+      const lastBefore = start + 8 * (DAY_MS / 2);
+
+      expect(cards([...before, photo('late', lastBefore + 2 * DAY_MS)], 'trip')).toHaveLength(1);
+      expect(cards([...before, photo('late', lastBefore + 2 * DAY_MS + 1)], 'trip')).toEqual([]);
+    });
+
+    it('needs at least ten photos', () => {
+      expect(cards(series('t', start, 9, DAY_MS), 'trip')).toEqual([]);
+    });
+
+    it('ignores runs shorter than half a day or longer than three weeks', () => {
+      expect(cards(series('t', start, 12, 60000), 'trip')).toEqual([]);
+      expect(cards(series('t', start, 12, 2 * DAY_MS), 'trip')).toEqual([]);
+    });
+
+    it('leaves documents out of the timeline', () => {
+      const items = series('t', start, 10, DAY_MS, i => (i === 0 ? { type: MediaType.DOCUMENT } : {}));
+
+      expect(cards(items, 'trip')).toEqual([]);
+    });
+  });
+
+  describe('recent favorites', () => {
+    it('lists likes from the last 30 days in the order they were liked', () => {
+      const liked = (id: string, favoritedAt: number) => photo(id, NOW - 400 * DAY_MS, { isFavorite: true, favoritedAt });
+      const items = [
+        liked('old', NOW - 31 * DAY_MS),
+        liked('edge', NOW - 30 * DAY_MS),
+        liked('newest', NOW - DAY_MS),
+        liked('middle', NOW - 10 * DAY_MS),
+        photo('undated', NOW, { isFavorite: true })
+      ];
+
+      const [card] = cards(items, 'recent-favorites');
+
+      expect(card.itemIds).toEqual(['newest', 'middle', 'edge']);
+    });
+
+    it('needs at least three recent likes', () => {
+      const items = series('f', NOW - 400 * DAY_MS, 2, DAY_MS, () => ({ isFavorite: true, favoritedAt: NOW - DAY_MS }));
+
+      expect(cards(items, 'recent-favorites')).toEqual([]);
+    });
+  });
+
+  describe('best of month', () => {
+    const june = new Date(2024, 5, 2, 10).getTime();
+
+    it('ranks a month with enough items, favorites first', () => {
+      const items = series('m', june, 6, DAY_MS, i => (i === 4 ? { isFavorite: true } : {}));
+
+      const [card] = cards(items, 'best-of-month');
+
+      expect(card.id).toBe('best-of-2024-06');
+      expect(card.title).toBe('Best of June 2024');
+      expect(card.itemIds[0]).toBe('m4');
+    });
+
+    it('skips months with too few items or nothing that stands out', () => {
+      expect(cards(series('m', june, 5, DAY_MS, () => ({ isFavorite: true })), 'best-of-month')).toEqual([]);
+      expect(cards(series('m', june, 6, DAY_MS), 'best-of-month')).toEqual([]);
+    });
+
+    it('only looks back three months', () => {
+      const february = new Date(2024, 1, 10).getTime();
+      const items = series('m', february, 6, DAY_MS, () => ({ isFavorite: true }));
+
+      expect(cards(items, 'best-of-month')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { MediaItem, MediaType } from '../types';
+import { getCaptureDate } from './mediaInfoService';
+
+// Builds the For You cards from the vault alone: anniversaries of the current day, bursts of
+// photos taken close together, recent likes and the strongest items of recent months. Pure and
+// deterministic for a given list of items and `now`, so the same vault always curates the same way.
+
+export type CurationKind = 'on-this-day' | 'trip' | 'recent-favorites' | 'best-of-month';
+
+export interface CurationCard {
+  // Stable across rebuilds, so an open card stays open as the vault changes.
+  id: string;
+  kind: CurationKind;
+  title: string;
+  subtitle: string;
+  // Best first.
+  itemIds: string[];
+  coverId: string;
+}
+
+const DAY_MS = 86400000;
+const MIN_CARD_ITEMS = 3;
+// A trip is a run of at least this many photos with no gap longer than TRIP_GAP_MS, spanning
+// at most MAX_TRIP_DAYS; longer runs are everyday life, not a trip.
+const MIN_TRIP_ITEMS = 10;
+const TRIP_GAP_MS = 2 * DAY_MS;
+const MAX_TRIP_DAYS = 21;
+const MAX_TRIPS = 4;
+// A tag has to cover this share of a trip's items to name it.
+const TRIP_TAG_SHARE = 0.3;
+const RECENT_FAVORITES_DAYS = 30;
+const BEST_OF_MONTHS = 3;
+const MIN_MONTH_ITEMS = 6;
+const MAX_CARD_ITEMS = 24;
+const BEST_OF_ITEMS = 12;
+
+const FAVORITE_WEIGHT = 3;
+const VIEW_WEIGHT = 1;
+const TAG_WEIGHT = 0.2;
+const MAX_SCORED_TAGS = 5;
+
+// Tags that say nothing about what a trip was: years, orientation and kind of file.
+const GENERIC_TAG = /^(\d{4}|landscape|portrait|square|photo|video|screenshot|monochrome)$/i;
+
+// How strongly an item stands out: liked, opened often, and richly described by analysis.
+export const scoreItem = (item: MediaItem) =>
+  (item.isFavorite ? FAVORITE_WEIGHT : 0)
+  + Math.log2(1 + (item.viewCount || 0)) * VIEW_WEIGHT
+  + (item.analyzedAt ? Math.min(item.tags.length, MAX_SCORED_TAGS) * TAG_WEIGHT : 0);
+
+// Highest score first; newer, then id, among equals so the order never depends on input order.
+const byScore = (a: MediaItem, b: MediaItem) =>
+  scoreItem(b) - scoreItem(a) || getCaptureDate(b) - getCaptureDate(a) || a.id.localeCompare(b.id);
+
+const isVisual = (item: MediaItem) => item.type === MediaType.IMAGE || item.type === MediaType.VIDEO;
+
+const toCard = (id: string, kind: CurationKind, title: string, subtitle: string, items: MediaItem[]): CurationCard => {
+  const ranked = [...items].sort(byScore);
+  const cover = ranked.find(item => item.type === MediaType.IMAGE) || ranked[0];
+  return { id, kind, title, subtitle, itemIds: ranked.map(item => item.id), coverId: cover.id };
+};
+
+const countLabel = (count: number) => `${count} ${count === 1 ? 'item' : 'items'}`;
+
+const formatDay = (date: Date) => date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+const formatRange = (from: Date, to: Date) => {
+  const sameYear = from.getFullYear() === to.getFullYear();
+  const start = from.toLocaleDateString('en-US', { month: 'short', day: 'numeric', ...(sameYear ? {} : { year: 'numeric' }) });
+  const end = to.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return from.toDateString() === to.toDateString() ? end : `${start} – ${end}`;
+};
+
+// One card per earlier year with items taken on today's date.
+const onThisDay = (items: MediaItem[], now: Date): CurationCard[] => {
+  const byYear = new Map<number, MediaItem[]>();
+  items.forEach(item => {
+    const date = new Date(getCaptureDate(item));
+    if (date.getMonth() !== now.getMonth() || date.getDate() !== now.getDate() || date.getFullYear() >= now.getFullYear()) return;
+    const group = byYear.get(date.getFullYear()) || [];
+    group.push(item);
+    byYear.set(date.getFullYear(), group);
+  });
+  return [...byYear.entries()]
+    .sort((a, b) => b[0] - a[0])
+    .map(([year, members]) => {
+      const years = now.getFullYear() - year;
+      const day = new Date(year, now.getMonth(), now.getDate());
+      return toCard(`on-this-day-${year}`, 'on-this-day', `On this day ${years} ${years === 1 ? 'year' : 'years'} ago`,
+        `${formatDay(day)} · ${countLabel(members.length)}`, members);
+    });
+};
+
+const tripName = (members: MediaItem[]) => {
+  const counts = new Map<string, { tag: string; count: number }>();
+  members.forEach(item => new Set(item.tags.map(tag => tag.toLowerCase())).forEach(key => {
+    if (GENERIC_TAG.test(key)) return;
+    const entry = counts.get(key) || { tag: item.tags.find(tag => tag.toLowerCase() === key)!, count: 0 };
+    counts.set(key, { ...entry, count: entry.count + 1 });
+  }));
+  const top = [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))[0];
+  return top && top.count / members.length >= TRIP_TAG_SHARE ? top.tag : null;
+};
+
+// Splits the photo timeline wherever it goes quiet for a while and keeps the dense, bounded runs.
+const trips = (items: MediaItem[]): CurationCard[] => {
+  const timeline = items.filter(isVisual).sort((a, b) => getCaptureDate(a) - getCaptureDate(b) || a.id.localeCompare(b.id));
+  const runs: MediaItem[][] = [];
+  timeline.forEach((item, i) => {
+    if (i > 0 && getCaptureDate(item) - getCaptureDate(timeline[i - 1]) <= TRIP_GAP_MS) runs[runs.length - 1].push(item);
+    else runs.push([item]);
+  });
+  return runs
+    .filter(run => {
+      const span = getCaptureDate(run[run.length - 1]) - getCaptureDate(run[0]);
+      return run.length >= MIN_TRIP_ITEMS && span >= DAY_MS / 2 && span <= MAX_TRIP_DAYS * DAY_MS;
+    })
+    .reverse()
+    .slice(0, MAX_TRIPS)
+    .map(run => {
+      const from = new Date(getCaptureDate(run[0]));
+      const to = new Date(getCaptureDate(run[run.length - 1]));
+      const name = tripName(run);
+      return toCard(`trip-${getCaptureDate(run[0])}`, 'trip', name ? `Trip · ${name}` : 'Trip',
+        `${formatRange(from, to)} · ${countLabel(run.length)}`, run);
+    });
+};
+
+// Likes from the last month, most recent first. Likes from before `favoritedAt` was recorded
+// have no date and are left out.
+const recentFavorites = (items: MediaItem[], now: Date): CurationCard[] => {
+  const since = now.getTime() - RECENT_FAVORITES_DAYS * DAY_MS;
+  const liked = items
+    .filter(item => item.isFavorite && item.favoritedAt && item.favoritedAt >= since)
+    .sort((a, b) => b.favoritedAt! - a.favoritedAt! || a.id.localeCompare(b.id))
+    .slice(0, MAX_CARD_ITEMS);
+  if (liked.length < MIN_CARD_ITEMS) return [];
+  const card = toCard('recent-favorites', 'recent-favorites', 'Recently favorited', countLabel(liked.length), liked);
+  // The order a person liked things in says more than the score here.
+  return [{ ...card, itemIds: liked.map(item => item.id) }];
+};
+
+// The top-scoring items of each of the last few months, for months with enough to choose from.
+const bestOfMonths = (items: MediaItem[], now: Date): CurationCard[] => {
+  const cards: CurationCard[] = [];
+  for (let offset = 0; offset < BEST_OF_MONTHS; offset++) {
+    const start = new Date(now.getFullYear(), now.getMonth() - offset, 1);
+    const end = new Date(now.getFullYear(), now.getMonth() - offset + 1, 1);
+    const members = items.filter(item => {
+      const date = getCaptureDate(item);
+      return isVisual(item) && date >= start.getTime() && date < end.getTime();
+    });
+    if (members.length < MIN_MONTH_ITEMS || !members.some(item => scoreItem(item) > 0)) continue;
+    const best = [...members].sort(byScore).slice(0, BEST_OF_ITEMS);
+    const month = start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    const key = `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}`;
+    cards.push(toCard(`best-of-${key}`, 'best-of-month', `Best of ${month}`, `${best.length} of ${countLabel(members.length)}`, best));
+  }
+  return cards;
+};
+
+export const buildCurations = (items: MediaItem[], now: number = Date.now()): CurationCard[] => {
+  const today = new Date(now);
+  const live = items.filter(item => !item.deletedAt);
+  return [
+    ...onThisDay(live, today),
+    ...recentFavorites(live, today),
+    ...trips(live),
+    ...bestOfMonths(live, today)
+  ];
+};
+
+// What a caption writer is told about a card: its title, dates and what its items show.
+export const captionPrompt = (card: CurationCard, items: MediaItem[]) => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const members = card.itemIds.map(id => byId.get(id)).filter((item): item is MediaItem => !!item).slice(0, 8);
+  const descriptions = members.map(item => `- ${item.title}${item.tags.length ? ` (${item.tags.slice(0, 4).join(', ')})` : ''}`);
+  return [
+    `Write one warm, specific caption of at most 15 words for a photo collection titled "${card.title}" (${card.subtitle}).`,
+    'It contains:',
+    ...descriptions,
+    'Reply with the caption only, without quotes.'
+  ].join('\n');
+};
@@ -1,38 +1,269 @@
-
-import { MediaItem } from '../types';
+import { MediaItem, MediaType, Album, SmartAlbum, SearchTermRecord, SearchDocRecord, UploadEntry, AnalysisJob, EmbeddingRecord } from '../types';
 
 const DB_NAME = 'LuminaVaultDB';
-const DB_VERSION = 1;
 const STORE_NAME = 'media';
+const ALBUM_STORE = 'albums';
+const BLOB_STORE = 'blobs';
+const THUMBNAIL_STORE = 'thumbnails';
+const SEARCH_TERM_STORE = 'searchTerms';
+const SEARCH_DOC_STORE = 'searchDocs';
+const SMART_ALBUM_STORE = 'smartAlbums';
+const UPLOAD_STORE = 'uploads';
+// Transferred chunks of pending uploads, keyed by [upload id, byte offset].
+const UPLOAD_PART_STORE = 'uploadParts';
+const ANALYSIS_STORE = 'analysisJobs';
+const EMBEDDING_STORE = 'embeddings';
+
+// Media records hold metadata only; the binary lives in the blobs store under `blobId` and the
+// thumbnail in the thumbnails store under the item id. A `url` is only persisted when it is a
+// real address (e.g. a data: URL), never an object URL.
+// IndexedDB cannot index booleans, so favorites are mirrored into a numeric key on each record.
+type MediaRecord = Omit<MediaItem, 'url' | 'thumbnailUrl'> & { url?: string; favoriteKey: 0 | 1 };
+
+const isPersistableUrl = (url: unknown): url is string => typeof url === 'string' && !url.startsWith('blob:');
+
+const toRecord = ({ url, thumbnailUrl, ...item }: MediaItem): MediaRecord => ({
+  ...item,
+  ...(isPersistableUrl(url) ? { url } : {}),
+  favoriteKey: item.isFavorite ? 1 : 0
+});
+
+const fromRecord = ({ favoriteKey, url, ...item }: MediaRecord): MediaItem => ({ ...item, url: url || '' });
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// Ordered upgrade steps keyed by the version they upgrade to. Never edit a shipped step;
+// append a new version instead so existing vaults replay only what they are missing.
+const MIGRATIONS: Record<number, Migration> = {
+  1: (db) => {
+    if (!db.objectStoreNames.contains(STORE_NAME)) {
+      db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    }
+  },
+  2: (db) => {
+    if (!db.objectStoreNames.contains(ALBUM_STORE)) {
+      db.createObjectStore(ALBUM_STORE, { keyPath: 'id' });
+    }
+  },
+  3: (_db, transaction) => {
+    const store = transaction.objectStore(STORE_NAME);
+    store.createIndex('createdAt', 'createdAt');
+    store.createIndex('type', 'type');
+    store.createIndex('isFavorite', 'favoriteKey');
+    store.createIndex('tags', 'tags', { multiEntry: true });
+
+    // Backfill the favorite key for records written before the index existed.
+    store.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, favoriteKey: cursor.value.isFavorite ? 1 : 0 });
+      cursor.continue();
+    };
+  },
+  4: (db, transaction) => {
+    const blobs = db.createObjectStore(BLOB_STORE);
+    const store = transaction.objectStore(STORE_NAME);
+    store.createIndex('blobId', 'blobId');
+
+    // Move inline Blobs out of the metadata records. Object URLs saved by older builds
+    // point at nothing after a reload, so they are dropped rather than kept as broken links.
+    store.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const { url, ...record } = cursor.value;
+      if (url instanceof Blob) {
+        blobs.put(url, record.id);
+        cursor.update({ ...record, blobId: record.id });
+      } else if (!isPersistableUrl(url)) {
+        cursor.update(record);
+      }
+      cursor.continue();
+    };
+  },
+  5: (db) => {
+    db.createObjectStore(THUMBNAIL_STORE);
+  },
+  6: (db) => {
+    db.createObjectStore(SEARCH_TERM_STORE, { keyPath: 'term' });
+    db.createObjectStore(SEARCH_DOC_STORE, { keyPath: 'id' });
+  },
+  7: (db) => {
+    db.createObjectStore(SMART_ALBUM_STORE, { keyPath: 'id' });
+  },
+  8: (_db, transaction) => {
+    transaction.objectStore(STORE_NAME).createIndex('contentHash', 'contentHash', { unique: false });
+  },
+  9: (db) => {
+    db.createObjectStore(UPLOAD_STORE, { keyPath: 'id' });
+    db.createObjectStore(UPLOAD_PART_STORE);
+  },
+  10: (db) => {
+    db.createObjectStore(ANALYSIS_STORE, { keyPath: 'id' });
+  },
+  11: (db) => {
+    db.createObjectStore(EMBEDDING_STORE, { keyPath: 'id' });
+  }
+};
+
+const DB_VERSION = Math.max(...Object.keys(MIGRATIONS).map(Number));
+
+let dbPromise: Promise<IDBDatabase> | null = null;
 
 export const initDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
 
-    request.onerror = () => reject('Error opening database');
-    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject('Error opening database');
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab upgrade the schema instead of blocking it.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
 
-    request.onupgradeneeded = (event: any) => {
-      const db = event.target.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version]?.(db, transaction);
       }
     };
   });
+  return dbPromise;
 };
 
-export const saveMediaItems = async (items: MediaItem[]): Promise<void> => {
+// Stores new items together with their binaries. Items whose `url` is a Blob get it written
+// to the blobs store; the returned items carry the `blobId` but keep the Blob as their url.
+export const addMediaItems = async (items: MediaItem[]): Promise<MediaItem[]> => {
+  const db = await initDB();
+  const stored = items.map(item => item.url instanceof Blob ? { ...item, blobId: item.blobId || item.id } : item);
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, BLOB_STORE, THUMBNAIL_STORE], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const blobs = transaction.objectStore(BLOB_STORE);
+    const thumbnails = transaction.objectStore(THUMBNAIL_STORE);
+
+    stored.forEach(item => {
+      if (item.url instanceof Blob) blobs.put(item.url, item.blobId);
+      if (item.thumbnailUrl instanceof Blob) thumbnails.put(item.thumbnailUrl, item.id);
+      store.put(toRecord(item));
+    });
+
+    transaction.oncomplete = () => resolve(stored);
+    transaction.onerror = () => reject('Error saving items');
+  });
+};
+
+export type MediaPatch = Partial<Omit<MediaItem, 'id' | 'url' | 'blobId'>>;
+
+// Applies a metadata-only patch to a single record. The blob is never touched. Pass a function
+// to derive the patch from the record as stored, read in the same transaction as the write.
+export const updateMediaItem = async (id: string, patch: MediaPatch | ((current: MediaItem) => MediaPatch)): Promise<MediaItem> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(id);
+    let updated: MediaItem;
+
+    request.onsuccess = () => {
+      const record = request.result as MediaRecord | undefined;
+      if (!record) {
+        transaction.abort();
+        return;
+      }
+      const current = fromRecord(record);
+      updated = { ...current, ...(typeof patch === 'function' ? patch(current) : patch) };
+      store.put(toRecord(updated));
+    };
+
+    transaction.oncomplete = () => resolve(updated);
+    transaction.onabort = () => reject(`Item ${id} not found`);
+    transaction.onerror = () => reject('Error updating item');
+  });
+};
+
+// Applies many metadata patches in a single transaction; ids that no longer exist are skipped.
+export const updateMediaItems = async (patches: { id: string; patch: MediaPatch }[]): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    
-    items.forEach(item => {
-      store.put(item);
+
+    patches.forEach(({ id, patch }) => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        const record = request.result as MediaRecord | undefined;
+        if (record) store.put(toRecord({ ...fromRecord(record), ...patch }));
+      };
     });
 
     transaction.oncomplete = () => resolve();
-    transaction.onerror = () => reject('Error saving items');
+    transaction.onerror = () => reject('Error updating items');
+  });
+};
+
+export const getMediaBlob = async (blobId: string): Promise<Blob | undefined> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(BLOB_STORE, 'readonly');
+    const request = transaction.objectStore(BLOB_STORE).get(blobId);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject('Error fetching blob');
+  });
+};
+
+const getManyFromStore = async (storeName: string, keys: string[]): Promise<Map<string, Blob>> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly');
+    const store = transaction.objectStore(storeName);
+    const result = new Map<string, Blob>();
+
+    keys.forEach(key => {
+      const request = store.get(key);
+      request.onsuccess = () => {
+        if (request.result) result.set(key, request.result);
+      };
+    });
+
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(`Error fetching from ${storeName}`);
+  });
+};
+
+export const getMediaItem = async (id: string): Promise<MediaItem | undefined> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).get(id);
+
+    request.onsuccess = () => resolve(request.result ? fromRecord(request.result) : undefined);
+    request.onerror = () => reject('Error fetching item');
+  });
+};
+
+export const getMediaBlobs = (blobIds: string[]) => getManyFromStore(BLOB_STORE, blobIds);
+
+export const getThumbnails = (itemIds: string[]) => getManyFromStore(THUMBNAIL_STORE, itemIds);
+
+export const saveThumbnail = async (itemId: string, thumbnail: Blob): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(THUMBNAIL_STORE, 'readwrite');
+    transaction.objectStore(THUMBNAIL_STORE).put(thumbnail, itemId);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error saving thumbnail');
   });
 };
 
@@ -43,19 +274,367 @@ export const getAllMediaItems = async (): Promise<MediaItem[]> => {
     const store = transaction.objectStore(STORE_NAME);
     const request = store.getAll();
 
-    request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => resolve(request.result.map(fromRecord));
     request.onerror = () => reject('Error fetching items');
   });
 };
 
-export const deleteMediaItem = async (id: string): Promise<void> => {
+const getByIndex = async (indexName: string, query: IDBValidKey | IDBKeyRange): Promise<MediaItem[]> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const index = transaction.objectStore(STORE_NAME).index(indexName);
+    const request = index.getAll(query);
+
+    request.onsuccess = () => resolve(request.result.map(fromRecord));
+    request.onerror = () => reject(`Error querying ${indexName}`);
+  });
+};
+
+export const getMediaItemsByType = (type: MediaType) => getByIndex('type', type);
+
+export const getMediaItemsByTag = (tag: string) => getByIndex('tags', tag);
+
+export const getMediaItemsByHash = (contentHash: string) => getByIndex('contentHash', contentHash);
+
+export const getFavoriteMediaItems = () => getByIndex('isFavorite', 1);
+
+export const getMediaItemsByDateRange = (from: number, to: number) =>
+  getByIndex('createdAt', IDBKeyRange.bound(from, to));
+
+export interface MediaCursor {
+  createdAt: number;
+  id: string;
+}
+
+export interface MediaPage {
+  items: MediaItem[];
+  nextCursor: MediaCursor | null;
+}
+
+// Walks the createdAt index newest-first. The cursor carries the id as well so items
+// sharing a timestamp are neither skipped nor repeated across pages.
+export const getMediaItemsPage = async (limit: number, after: MediaCursor | null = null): Promise<MediaPage> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const index = transaction.objectStore(STORE_NAME).index('createdAt');
+    const range = after ? IDBKeyRange.upperBound(after.createdAt) : undefined;
+    const request = index.openCursor(range, 'prev');
+    const items: MediaItem[] = [];
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve({ items, nextCursor: null });
+        return;
+      }
+      const record = cursor.value as MediaRecord;
+      if (after && record.createdAt === after.createdAt && record.id >= after.id) {
+        cursor.continue();
+        return;
+      }
+      items.push(fromRecord(record));
+      if (items.length === limit) {
+        resolve({ items, nextCursor: { createdAt: record.createdAt, id: record.id } });
+        return;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject('Error paging items');
+  });
+};
+
+// Removes the records, their thumbnails, analysis jobs and embeddings in one transaction. A blob
+// goes only once no remaining record points at it, so copies sharing a blobId keep their original.
+export const deleteMediaItems = async (ids: string[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, BLOB_STORE, THUMBNAIL_STORE, ANALYSIS_STORE, EMBEDDING_STORE], 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
+
+    ids.forEach(id => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        const record = request.result as MediaRecord | undefined;
+        store.delete(id);
+        transaction.objectStore(THUMBNAIL_STORE).delete(id);
+        transaction.objectStore(ANALYSIS_STORE).delete(id);
+        transaction.objectStore(EMBEDDING_STORE).delete(id);
+        if (!record?.blobId) return;
+        const blobId = record.blobId;
+        const refs = store.index('blobId').count(blobId);
+        refs.onsuccess = () => {
+          if (refs.result === 0) transaction.objectStore(BLOB_STORE).delete(blobId);
+        };
+      };
+    });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error deleting items');
+  });
+};
+
+export const deleteMediaItem = (id: string) => deleteMediaItems([id]);
+
+export const saveAlbum = async (album: Album): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ALBUM_STORE, 'readwrite');
+    const store = transaction.objectStore(ALBUM_STORE);
+    store.put(album);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error saving album');
+  });
+};
+
+export const getAllAlbums = async (): Promise<Album[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ALBUM_STORE, 'readonly');
+    const store = transaction.objectStore(ALBUM_STORE);
+    const request = store.getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject('Error fetching albums');
+  });
+};
+
+// Read-modify-write in one transaction, so background additions never clobber an album edit.
+// Resolves with the updated album, or undefined if it has been deleted meanwhile.
+export const addItemsToAlbum = async (albumId: string, itemIds: string[]): Promise<Album | undefined> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ALBUM_STORE, 'readwrite');
+    const store = transaction.objectStore(ALBUM_STORE);
+    let updated: Album | undefined;
+    const request = store.get(albumId);
+    request.onsuccess = () => {
+      const album = request.result as Album | undefined;
+      if (!album) return;
+      updated = { ...album, itemIds: [...album.itemIds, ...itemIds.filter(id => !album.itemIds.includes(id))], updatedAt: Date.now() };
+      store.put(updated);
+    };
+
+    transaction.oncomplete = () => resolve(updated);
+    transaction.onerror = () => reject('Error updating album');
+  });
+};
+
+export const deleteAlbum = async (id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ALBUM_STORE, 'readwrite');
+    const store = transaction.objectStore(ALBUM_STORE);
     const request = store.delete(id);
 
     request.onsuccess = () => resolve();
-    request.onerror = () => reject('Error deleting item');
+    request.onerror = () => reject('Error deleting album');
+  });
+};
+
+export const saveSmartAlbum = async (album: SmartAlbum): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SMART_ALBUM_STORE, 'readwrite');
+    transaction.objectStore(SMART_ALBUM_STORE).put(album);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error saving smart album');
+  });
+};
+
+export const getAllSmartAlbums = async (): Promise<SmartAlbum[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SMART_ALBUM_STORE, 'readonly');
+    const request = transaction.objectStore(SMART_ALBUM_STORE).getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject('Error fetching smart albums');
+  });
+};
+
+export const deleteSmartAlbum = async (id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SMART_ALBUM_STORE, 'readwrite');
+    const request = transaction.objectStore(SMART_ALBUM_STORE).delete(id);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject('Error deleting smart album');
+  });
+};
+
+export const getSearchIndex = async (): Promise<{ terms: SearchTermRecord[]; docs: SearchDocRecord[] }> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SEARCH_TERM_STORE, SEARCH_DOC_STORE], 'readonly');
+    const terms = transaction.objectStore(SEARCH_TERM_STORE).getAll();
+    const docs = transaction.objectStore(SEARCH_DOC_STORE).getAll();
+
+    transaction.oncomplete = () => resolve({ terms: terms.result, docs: docs.result });
+    transaction.onerror = () => reject('Error loading search index');
+  });
+};
+
+export interface SearchIndexChanges {
+  putTerms: SearchTermRecord[];
+  deleteTerms: string[];
+  putDocs: SearchDocRecord[];
+  deleteDocs: string[];
+}
+
+export const saveSearchIndexChanges = async (changes: SearchIndexChanges): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SEARCH_TERM_STORE, SEARCH_DOC_STORE], 'readwrite');
+    const terms = transaction.objectStore(SEARCH_TERM_STORE);
+    const docs = transaction.objectStore(SEARCH_DOC_STORE);
+
+    changes.putTerms.forEach(record => terms.put(record));
+    changes.deleteTerms.forEach(term => terms.delete(term));
+    changes.putDocs.forEach(record => docs.put(record));
+    changes.deleteDocs.forEach(id => docs.delete(id));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error saving search index');
+  });
+};
+
+export const getAllUploads = async (): Promise<UploadEntry[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(UPLOAD_STORE, 'readonly');
+    const request = transaction.objectStore(UPLOAD_STORE).getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject('Error fetching uploads');
+  });
+};
+
+// The file stays with the in-memory entry; storing it as well would keep a second full copy
+// next to its chunks.
+const withoutFile = ({ file: _file, ...entry }: UploadEntry): UploadEntry => entry;
+
+export const saveUploads = async (entries: UploadEntry[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(UPLOAD_STORE, 'readwrite');
+    const store = transaction.objectStore(UPLOAD_STORE);
+    entries.forEach(entry => store.put(withoutFile(entry)));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error saving uploads');
+  });
+};
+
+// Writes a transferred chunk together with the entry's new offset, so the two never disagree
+// after a crash or reload.
+export const saveUploadPart = async (entry: UploadEntry, offset: number, part: Blob): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([UPLOAD_STORE, UPLOAD_PART_STORE], 'readwrite');
+    transaction.objectStore(UPLOAD_PART_STORE).put(part, [entry.id, offset]);
+    transaction.objectStore(UPLOAD_STORE).put(withoutFile(entry));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error saving upload chunk');
+  });
+};
+
+const uploadPartRange = (id: string) => IDBKeyRange.bound([id, 0], [id, Infinity]);
+
+export const getUploadParts = async (id: string): Promise<Blob[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(UPLOAD_PART_STORE, 'readonly');
+    const request = transaction.objectStore(UPLOAD_PART_STORE).getAll(uploadPartRange(id));
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject('Error fetching upload chunks');
+  });
+};
+
+export const deleteUpload = async (id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([UPLOAD_STORE, UPLOAD_PART_STORE], 'readwrite');
+    transaction.objectStore(UPLOAD_STORE).delete(id);
+    transaction.objectStore(UPLOAD_PART_STORE).delete(uploadPartRange(id));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error deleting upload');
+  });
+};
+
+export const getAllAnalysisJobs = async (): Promise<AnalysisJob[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ANALYSIS_STORE, 'readonly');
+    const request = transaction.objectStore(ANALYSIS_STORE).getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject('Error fetching analysis jobs');
+  });
+};
+
+export const saveAnalysisJobs = async (jobs: AnalysisJob[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ANALYSIS_STORE, 'readwrite');
+    const store = transaction.objectStore(ANALYSIS_STORE);
+    jobs.forEach(job => store.put(job));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error saving analysis jobs');
+  });
+};
+
+export const deleteAnalysisJobs = async (ids: string[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ANALYSIS_STORE, 'readwrite');
+    const store = transaction.objectStore(ANALYSIS_STORE);
+    ids.forEach(id => store.delete(id));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error deleting analysis jobs');
+  });
+};
+
+export const getAllEmbeddings = async (): Promise<EmbeddingRecord[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(EMBEDDING_STORE, 'readonly');
+    const request = transaction.objectStore(EMBEDDING_STORE).getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject('Error fetching embeddings');
+  });
+};
+
+export const saveEmbeddings = async (records: EmbeddingRecord[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(EMBEDDING_STORE, 'readwrite');
+    const store = transaction.objectStore(EMBEDDING_STORE);
+    records.forEach(record => store.put(record));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error saving embeddings');
+  });
+};
+
+export const deleteEmbeddings = async (ids: string[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(EMBEDDING_STORE, 'readwrite');
+    const store = transaction.objectStore(EMBEDDING_STORE);
+    ids.forEach(id => store.delete(id));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error deleting embeddings');
   });
 };
@@ -0,0 +1,149 @@
+import { ImageEdits, ImageFilter } from '../types';
+
+// Renders an edit recipe on top of an original. The viewer, thumbnails and exports all go
+// through renderEdits, so what the editor previews is what every other view shows.
+
+export const NO_EDITS: ImageEdits = {
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  exposure: 0,
+  contrast: 0,
+  saturation: 0,
+  temperature: 0,
+  filter: 'none'
+};
+
+export const IMAGE_FILTERS: { id: ImageFilter; label: string }[] = [
+  { id: 'none', label: 'Original' },
+  { id: 'vivid', label: 'Vivid' },
+  { id: 'fade', label: 'Fade' },
+  { id: 'mono', label: 'Mono' },
+  { id: 'noir', label: 'Noir' },
+  { id: 'sepia', label: 'Sepia' }
+];
+
+// Exposure spans ±1.5 stops, temperature shifts red against blue by up to 20%.
+const EXPOSURE_STOPS = 1.5;
+const TEMPERATURE_SHIFT = 0.2;
+const EXPORT_QUALITY = 0.92;
+
+const hasToneEdits = (edits: ImageEdits) =>
+  edits.exposure !== 0 || edits.contrast !== 0 || edits.saturation !== 0 || edits.temperature !== 0 || edits.filter !== 'none';
+
+export const hasEdits = (edits?: ImageEdits): edits is ImageEdits =>
+  !!edits && (edits.rotation !== 0 || edits.flipHorizontal || edits.flipVertical || !!edits.crop || hasToneEdits(edits));
+
+// The image's size after rotation, which is the frame crops are expressed in.
+export const orientedSize = (width: number, height: number, rotation: ImageEdits['rotation']) =>
+  rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+const clampByte = (value: number) => Math.max(0, Math.min(255, value));
+
+// Exposure, temperature and contrast act on each channel alone, so they collapse into one
+// lookup table per channel; saturation and the filters mix channels and run per pixel.
+const buildCurves = (edits: ImageEdits) => {
+  const gain = Math.pow(2, (edits.exposure / 100) * EXPOSURE_STOPS);
+  const warmth = (edits.temperature / 100) * TEMPERATURE_SHIFT;
+  const contrast = 1 + edits.contrast / 100;
+  const curve = (channelGain: number) => {
+    const table = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) table[v] = clampByte((v * gain * channelGain - 128) * contrast + 128);
+    return table;
+  };
+  return [curve(1 + warmth), curve(1), curve(1 - warmth)];
+};
+
+const applyTone = (pixels: Uint8ClampedArray, edits: ImageEdits) => {
+  const [red, green, blue] = buildCurves(edits);
+  const saturation = 1 + edits.saturation / 100;
+  const { filter } = edits;
+  for (let i = 0; i < pixels.length; i += 4) {
+    let r = red[pixels[i]];
+    let g = green[pixels[i + 1]];
+    let b = blue[pixels[i + 2]];
+    let luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    if (saturation !== 1) {
+      r = luma + (r - luma) * saturation;
+      g = luma + (g - luma) * saturation;
+      b = luma + (b - luma) * saturation;
+    }
+    if (filter === 'mono') {
+      r = g = b = luma;
+    } else if (filter === 'noir') {
+      r = g = b = (luma - 128) * 1.4 + 118;
+    } else if (filter === 'sepia') {
+      luma = 0.299 * r + 0.587 * g + 0.114 * b;
+      r = luma * 1.07 + 20;
+      g = luma * 0.95 + 8;
+      b = luma * 0.75;
+    } else if (filter === 'vivid') {
+      luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      r = ((luma + (r - luma) * 1.35) - 128) * 1.1 + 128;
+      g = ((luma + (g - luma) * 1.35) - 128) * 1.1 + 128;
+      b = ((luma + (b - luma) * 1.35) - 128) * 1.1 + 128;
+    } else if (filter === 'fade') {
+      luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      r = (luma + (r - luma) * 0.75) * 0.82 + 34;
+      g = (luma + (g - luma) * 0.75) * 0.82 + 30;
+      b = (luma + (b - luma) * 0.75) * 0.82 + 36;
+    }
+    pixels[i] = r;
+    pixels[i + 1] = g;
+    pixels[i + 2] = b;
+  }
+};
+
+// Draws `source` (width × height, already upright) with the edits applied into `canvas`,
+// downscaled so its longer edge is at most `maxEdge`. Returns null when no 2D context is available.
+export const renderEdits = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  edits: ImageEdits,
+  maxEdge = Infinity,
+  canvas: HTMLCanvasElement = document.createElement('canvas')
+): HTMLCanvasElement | null => {
+  const frame = orientedSize(width, height, edits.rotation);
+  const crop = edits.crop || { x: 0, y: 0, width: 1, height: 1 };
+  const cropWidth = crop.width * frame.width;
+  const cropHeight = crop.height * frame.height;
+  const scale = Math.min(1, maxEdge / Math.max(cropWidth, cropHeight));
+  canvas.width = Math.max(1, Math.round(cropWidth * scale));
+  canvas.height = Math.max(1, Math.round(cropHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: hasToneEdits(edits) });
+  if (!ctx) return null;
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(scale, scale);
+  ctx.translate(-crop.x * frame.width, -crop.y * frame.height);
+  // Mirroring happens in the rotated frame, so "flip horizontal" always flips what is on screen.
+  ctx.translate(frame.width / 2, frame.height / 2);
+  ctx.scale(edits.flipHorizontal ? -1 : 1, edits.flipVertical ? -1 : 1);
+  ctx.rotate((edits.rotation * Math.PI) / 180);
+  ctx.drawImage(source, -width / 2, -height / 2, width, height);
+
+  if (hasToneEdits(edits)) {
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyTone(image.data, edits);
+    ctx.putImageData(image, 0, 0);
+  }
+  return canvas;
+};
+
+// Decodes an original and renders it with the edits, as a JPEG unless a lossless type is asked for.
+export const renderEditedBlob = async (
+  original: Blob,
+  edits: ImageEdits,
+  maxEdge = Infinity,
+  type = 'image/jpeg'
+): Promise<Blob | null> => {
+  const bitmap = await createImageBitmap(original, { imageOrientation: 'from-image' });
+  try {
+    const canvas = renderEdits(bitmap, bitmap.width, bitmap.height, edits, maxEdge);
+    if (!canvas) return null;
+    return await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, EXPORT_QUALITY));
+  } finally {
+    bitmap.close();
+  }
+};
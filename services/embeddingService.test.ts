@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { EmbeddingRecord, MediaItem, MediaType } from '../types';
+import { embedLocally } from './localAnalysisService';
+import { findSimilar, semanticSearch, syncEmbeddings } from './embeddingService';
+
+// Vectors come from the on-device provider, which answers whenever no remote one is set up, so
+// nothing here touches the network. Storage is stubbed out; vi.mock is hoisted above the imports.
+const saved = vi.hoisted(() => [] as EmbeddingRecord[]);
+
+vi.mock('./db', async importOriginal => ({
+  ...await importOriginal<typeof import('./db')>(),
+  getAllEmbeddings: async () => [],
+  saveEmbeddings: async (records: EmbeddingRecord[]) => {
+    saved.push(...records);
+  },
+  deleteEmbeddings: async () => {}
+}));
+
+const item = (id: string, title: string, tags: string[] = []): MediaItem => ({
+  id,
+  url: '',
+  type: MediaType.IMAGE,
+  title,
+  tags,
+  isFavorite: false,
+  createdAt: 0
+});
+
+const norm = (vector: ArrayLike<number>) => Math.sqrt(Array.from(vector).reduce((sum, value) => sum + value * value, 0));
+
+const sunset = item('sunset', 'Sunset over the beach', ['beach', 'sunset', 'ocean']);
+const surf = item('surf', 'Surfers on the beach', ['beach', 'surf', 'ocean']);
+const invoice = item('invoice', 'Electricity invoice', ['invoice', 'bill']);
+const library = [sunset, surf, invoice];
+
+beforeEach(async () => {
+  saved.length = 0;
+  await syncEmbeddings(library);
+});
+
+describe('embedLocally', () => {
+  it('is deterministic', () => {
+    expect(embedLocally('Sunset over the beach')).toEqual(embedLocally('Sunset over the beach'));
+  });
+
+  it('stores unit-length vectors', async () => {
+    await syncEmbeddings([...library, item('new', 'Mountain lake at dawn')]);
+
+    expect(norm(embedLocally('Mountain lake at dawn'))).not.toBeCloseTo(1);
+    expect(saved.map(record => record.id)).toEqual(['new']);
+    expect(norm(saved[0].vector)).toBeCloseTo(1, 5);
+  });
+});
+
+describe('semanticSearch', () => {
+  it('ranks the closest text first and leaves unrelated items out', async () => {
+    const results = await semanticSearch('sunset beach', library);
+
+    expect(results[0].item.id).toBe('sunset');
+    expect(results.map(result => result.item.id)).not.toContain('invoice');
+    results.slice(1).forEach(result => expect(result.score).toBeLessThanOrEqual(results[0].score));
+  });
+
+  it('applies filters before ranking', async () => {
+    expect(await semanticSearch('sunset beach type:video', library)).toEqual([]);
+  });
+});
+
+describe('findSimilar', () => {
+  it('ranks neighbours and leaves out the item itself', () => {
+    const results = findSimilar(sunset, library)!;
+
+    expect(results.map(result => result.item.id)).toEqual(['surf']);
+  });
+
+  it('skips items that have no embedding yet', () => {
+    const twin = item('twin', sunset.title, sunset.tags);
+
+    expect(findSimilar(sunset, [...library, twin])!.map(result => result.item.id)).toEqual(['surf']);
+  });
+
+  it('returns null for an item without an embedding', () => {
+    expect(findSimilar(item('unknown', 'Sunset over the beach'), library)).toBeNull();
+  });
+});
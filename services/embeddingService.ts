@@ -0,0 +1,144 @@
+import { EmbeddingRecord, MediaItem } from '../types';
+import { deleteEmbeddings, getAllEmbeddings, saveEmbeddings } from './db';
+import { embeddingModelId, embedTexts } from './analysisService';
+import { recordAnalysisUsage } from './analysisQueueService';
+import { matchesFilters, parseQuery, SearchResult } from './searchService';
+
+// Semantic search over embeddings of each item's title, description and tags, which the
+// analysis queue fills in from the files themselves. Vectors are persisted in IndexedDB and
+// mirrored in memory; a query costs one embedding request plus a linear scan of the vectors,
+// which stays within a few tens of milliseconds at 20k items.
+
+const BATCH_SIZE = 64;
+const MAX_TEXT_LENGTH = 2000;
+// Scores are only meaningful relative to each other, and their range differs per model, so
+// results are cut off relative to the best match.
+const RELATIVE_CUTOFF = 0.6;
+const MAX_SIMILAR = 60;
+// After a failed request, syncs wait this long before calling the provider again.
+const RETRY_MS = 60000;
+
+const records = new Map<string, EmbeddingRecord>();
+let loaded = false;
+let syncing: Promise<void> | null = null;
+let pendingItems: MediaItem[] | null = null;
+let retryAt = 0;
+// The last query's vector, so re-running a search as the vault changes costs no request.
+let lastQuery: { text: string; model: string; vector: Float32Array } | null = null;
+
+const embeddingText = (item: MediaItem) =>
+  [item.title, item.description, item.tags.join(', ')].filter(Boolean).join('\n').slice(0, MAX_TEXT_LENGTH);
+
+const toUnitVector = (values: number[]) => {
+  const vector = Float32Array.from(values);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+};
+
+const isCurrent = (record: EmbeddingRecord | undefined, model: string): record is EmbeddingRecord =>
+  !!record && record.model === model;
+
+const embedStale = async (items: MediaItem[]) => {
+  const ids = new Set(items.map(item => item.id));
+  const removed = [...records.keys()].filter(id => !ids.has(id));
+  if (removed.length > 0) {
+    await deleteEmbeddings(removed);
+    removed.forEach(id => records.delete(id));
+  }
+
+  const model = embeddingModelId();
+  const stale = items
+    .map(item => ({ id: item.id, text: embeddingText(item) }))
+    .filter(({ id, text }) => text && !(isCurrent(records.get(id), model) && records.get(id)!.signature === text));
+  if (stale.length === 0 || Date.now() < retryAt) return;
+
+  for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+    const batch = stale.slice(i, i + BATCH_SIZE);
+    let outcome;
+    try {
+      outcome = await embedTexts(batch.map(entry => entry.text), 'document');
+    } catch (err) {
+      retryAt = Date.now() + RETRY_MS;
+      throw err;
+    }
+    recordAnalysisUsage(outcome.requests, outcome.tokens);
+    // Settings changed mid-sync; the next sync starts over with the new model.
+    if (outcome.model !== embeddingModelId()) return;
+    const embedded: EmbeddingRecord[] = batch.map((entry, j) => ({
+      id: entry.id,
+      model: outcome.model,
+      signature: entry.text,
+      vector: toUnitVector(outcome.vectors[j])
+    }));
+    await saveEmbeddings(embedded);
+    embedded.forEach(record => records.set(record.id, record));
+  }
+};
+
+const drain = async () => {
+  if (!loaded) {
+    (await getAllEmbeddings()).forEach(record => records.set(record.id, record));
+    loaded = true;
+  }
+  while (pendingItems) {
+    const items = pendingItems;
+    pendingItems = null;
+    await embedStale(items);
+  }
+};
+
+// Embeds new, edited and not-yet-embedded items with the current model and drops vectors of
+// items that are gone. Calls made while a sync runs are folded into it, with the latest items.
+export const syncEmbeddings = (items: MediaItem[]): Promise<void> => {
+  pendingItems = items;
+  if (!syncing) syncing = drain().finally(() => {
+    syncing = null;
+  });
+  return syncing;
+};
+
+// How many of the items can currently be found by meaning.
+export const countEmbedded = (items: MediaItem[]) => {
+  const model = embeddingModelId();
+  return items.filter(item => isCurrent(records.get(item.id), model)).length;
+};
+
+const rank = (query: Float32Array, model: string, items: MediaItem[], matchedTerms: string[]): SearchResult[] => {
+  const results: SearchResult[] = [];
+  for (const item of items) {
+    const record = records.get(item.id);
+    if (!isCurrent(record, model) || record.vector.length !== query.length) continue;
+    const { vector } = record;
+    let score = 0;
+    for (let i = 0; i < vector.length; i++) score += vector[i] * query[i];
+    if (score > 0) results.push({ item, score, matchedTerms });
+  }
+  results.sort((a, b) => b.score - a.score);
+  const cutoff = (results[0]?.score || 0) * RELATIVE_CUTOFF;
+  return results.filter(result => result.score >= cutoff);
+};
+
+// Ranks items by how close their text is in meaning to the query's free text. Filters such as
+// `type:` or `tag:` narrow the candidates exactly as in keyword search.
+export const semanticSearch = async (query: string, items: MediaItem[]): Promise<SearchResult[]> => {
+  const parsed = parseQuery(query);
+  const text = [...parsed.phrases, ...parsed.terms].join(' ');
+  if (!text) return [];
+  if (lastQuery?.text !== text || lastQuery.model !== embeddingModelId()) {
+    const outcome = await embedTexts([text], 'query');
+    recordAnalysisUsage(outcome.requests, outcome.tokens);
+    lastQuery = { text, model: outcome.model, vector: toUnitVector(outcome.vectors[0]) };
+  }
+  return rank(lastQuery.vector, lastQuery.model, items.filter(item => matchesFilters(item, parsed)), parsed.terms);
+};
+
+// Items closest to the given one, or null when it has no vector for the current model yet.
+export const findSimilar = (item: MediaItem, items: MediaItem[]): SearchResult[] | null => {
+  const model = embeddingModelId();
+  const record = records.get(item.id);
+  if (!isCurrent(record, model)) return null;
+  return rank(record.vector, model, items.filter(other => other.id !== item.id), []).slice(0, MAX_SIMILAR);
+};
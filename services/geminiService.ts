@@ -1,35 +1,51 @@
 import { GoogleGenAI, Type } from "@google/genai";
+import { analysisImages, analysisPrompt, AnalysisProvider, blobToBase64, hasAnalysisContent, parseAnalysis } from './analysisProvider';
 
-// Lazy initialization to prevent issues if API_KEY is missing during build time
+const DEFAULT_MODEL = 'gemini-3-flash-preview';
+const DEFAULT_EMBEDDING_MODEL = 'gemini-embedding-001';
+// The model's full 3072 dimensions would quadruple storage and search time for little gain.
+const EMBEDDING_DIMENSIONS = 768;
+
+// Lazy initialization to prevent issues if API_KEY is missing during build time. Rebuilt when
+// the key changes, since Settings can override the build-time one.
 let aiInstance: GoogleGenAI | null = null;
+let aiKey = '';
 
-const getAI = () => {
-  const key = process.env.API_KEY;
+const getAI = (overrideKey = '') => {
+  const key = overrideKey || process.env.API_KEY;
   if (!key) return null;
-  if (!aiInstance) {
+  if (!aiInstance || aiKey !== key) {
     aiInstance = new GoogleGenAI({ apiKey: key });
+    aiKey = key;
   }
   return aiInstance;
 };
 
-export const analyzeMedia = async (base64Data: string, mimeType: string) => {
-  const ai = getAI();
-  if (!ai) return null;
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  defaultModel: DEFAULT_MODEL,
+  defaultEmbeddingModel: DEFAULT_EMBEDDING_MODEL,
+  unavailableReason: config => config.apiKey || process.env.API_KEY ? null : 'No Gemini API key',
+  analyze: async (input, config) => {
+    const ai = getAI(config.apiKey);
+    if (!ai || !hasAnalysisContent(input)) return null;
+
+    const images = await Promise.all(analysisImages(input).map(async image => ({
+      inlineData: {
+        data: await blobToBase64(image),
+        mimeType: image === input.data ? input.mimeType : image.type || 'image/jpeg',
+      },
+    })));
 
-  try {
     const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+      model: config.model || DEFAULT_MODEL,
       contents: [
         {
           parts: [
+            ...images,
             {
-              inlineData: {
-                data: base64Data,
-                mimeType: mimeType,
-              },
-            },
-            {
-              text: "Analyze this image and provide a JSON response with 'title', 'description' (short), and 'tags' (array of 3-5 keywords). Be concise.",
+              text: analysisPrompt(input),
             },
           ],
         },
@@ -51,14 +67,32 @@ export const analyzeMedia = async (base64Data: string, mimeType: string) => {
       }
     });
 
-    const text = response.text;
-    if (text) {
-      return JSON.parse(text.trim());
-    }
-    return null;
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    return null;
+    return { analysis: parseAnalysis(response.text), tokens: response.usageMetadata?.totalTokenCount || 0 };
+  },
+  embed: async (texts, purpose, config) => {
+    const ai = getAI(config.apiKey);
+    if (!ai) throw new Error('No Gemini API key');
+    const response = await ai.models.embedContent({
+      model: config.embeddingModel || DEFAULT_EMBEDDING_MODEL,
+      contents: texts,
+      config: {
+        taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+        outputDimensionality: EMBEDDING_DIMENSIONS
+      }
+    });
+    const vectors = (response.embeddings || []).map(embedding => embedding.values || []);
+    if (vectors.length !== texts.length) throw new Error('Gemini returned the wrong number of embeddings');
+    // Gemini does not report usage for embeddings.
+    return { vectors, tokens: 0 };
+  },
+  write: async (prompt, config) => {
+    const ai = getAI(config.apiKey);
+    if (!ai) return { text: null, tokens: 0 };
+    const response = await ai.models.generateContent({
+      model: config.model || DEFAULT_MODEL,
+      contents: prompt,
+    });
+    return { text: response.text?.trim() || null, tokens: response.usageMetadata?.totalTokenCount || 0 };
   }
 };
 
@@ -68,7 +102,7 @@ export const getSmartGreeting = async () => {
 
   try {
     const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+      model: DEFAULT_MODEL,
       contents: "Generate a short, poetic 1-sentence greeting for a media vault app based on a 'Memories' theme. Keep it under 10 words.",
     });
     return response.text?.trim() || "Your world, captured.";
@@ -0,0 +1,61 @@
+import { MediaItem } from '../types';
+import { Ring } from './worldOutline';
+
+// Equirectangular projection onto a 360 x 180 plane: x grows east from the antimeridian, y grows
+// south from the North Pole. Distortion near the poles is fine for finding where shots were taken.
+export const MAP_WIDTH = 360;
+export const MAP_HEIGHT = 180;
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+export const project = (longitude: number, latitude: number): MapPoint => ({
+  x: longitude + 180,
+  y: 90 - latitude
+});
+
+export const ringToPath = (ring: Ring) =>
+  ring.map(([lon, lat], i) => {
+    const { x, y } = project(lon, lat);
+    return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)} ${y.toFixed(1)}`;
+  }).join('') + 'Z';
+
+export const hasLocation = (item: MediaItem) => !!item.metadata?.gps;
+
+export interface MapCluster extends MapPoint {
+  id: string;
+  items: MediaItem[];
+}
+
+// Buckets items into square cells of `cellSize` map units and places each cluster at its
+// members' centroid. Callers shrink the cell as the map zooms in so clusters split apart.
+export const clusterItems = (items: MediaItem[], cellSize: number): MapCluster[] => {
+  const cells = new Map<string, MediaItem[]>();
+  items.forEach(item => {
+    const gps = item.metadata?.gps;
+    if (!gps) return;
+    const { x, y } = project(gps.longitude, gps.latitude);
+    const key = `${Math.floor(x / cellSize)}_${Math.floor(y / cellSize)}`;
+    cells.set(key, [...(cells.get(key) || []), item]);
+  });
+
+  return [...cells.entries()].map(([key, members]) => {
+    const points = members.map(item => project(item.metadata!.gps!.longitude, item.metadata!.gps!.latitude));
+    return {
+      id: key,
+      items: members,
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+    };
+  });
+};
+
+// Smallest box (in map units) around a cluster's members, used to zoom the map onto it.
+export const clusterBounds = (cluster: MapCluster) => {
+  const points = cluster.items.map(item => project(item.metadata!.gps!.longitude, item.metadata!.gps!.latitude));
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+};
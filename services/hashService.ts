@@ -0,0 +1,132 @@
+import { MediaItem, MediaType } from '../types';
+import { getThumbnails, MediaPatch, updateMediaItem } from './db';
+import { loadOriginal } from './batchService';
+import type { HashRequest, HashResponse } from './hashWorker';
+
+export interface FileHashes {
+  contentHash: string;
+  perceptualHash?: string;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (hashes: FileHashes) => void; reject: (reason: string) => void }>();
+
+// A worker that crashes (or sends a message that cannot be read) would otherwise leave every
+// queued hash waiting forever; fail them all and start a fresh worker on the next request.
+const failWorker = (reason: string) => {
+  pending.forEach(request => request.reject(reason));
+  pending.clear();
+  worker?.terminate();
+  worker = null;
+};
+
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./hashWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<HashResponse>) => {
+    const { id, contentHash, perceptualHash, error } = e.data;
+    const request = pending.get(id);
+    pending.delete(id);
+    if (!request) return;
+    if (contentHash) request.resolve({ contentHash, perceptualHash });
+    else request.reject(error || 'Hashing failed');
+  };
+  worker.onerror = (e: ErrorEvent) => {
+    e.preventDefault();
+    failWorker(`Hash worker failed: ${e.message || 'unknown error'}`);
+  };
+  worker.onmessageerror = () => failWorker('Hash worker sent an unreadable reply');
+  return worker;
+};
+
+// `image` is the picture to fingerprint for near-duplicate detection; pass the thumbnail when
+// there is one, since decoding a full-size original only to shrink it to 9x8 is wasted work.
+export const hashFile = (blob: Blob, image?: Blob): Promise<FileHashes> =>
+  new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ id, blob, image } as HashRequest);
+  });
+
+export const needsHash = (item: MediaItem) => !item.contentHash;
+
+// Hashes stored items that predate content hashing, one at a time in the background.
+export const backfillHashes = async (
+  items: MediaItem[],
+  onHashed: (id: string, patch: MediaPatch) => void,
+  isCancelled: () => boolean
+): Promise<void> => {
+  for (const item of items.filter(needsHash)) {
+    if (isCancelled()) return;
+    try {
+      const original = await loadOriginal(item);
+      if (!original) continue;
+      const image = item.type === MediaType.IMAGE ? (await getThumbnails([item.id])).get(item.id) || original : undefined;
+      const { contentHash, perceptualHash } = await hashFile(original, image);
+      const patch: MediaPatch = perceptualHash ? { contentHash, perceptualHash } : { contentHash };
+      await updateMediaItem(item.id, patch);
+      if (!isCancelled()) onHashed(item.id, patch);
+    } catch (err) {
+      console.error("Hash Backfill Error", err);
+    }
+  }
+};
+
+const hammingDistance = (a: string, b: string) => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let x = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    while (x) {
+      x &= x - 1;
+      distance++;
+    }
+  }
+  return distance;
+};
+
+// Out of 64 bits; re-encodes and resizes typically land well under this, different photos well over.
+export const NEAR_DUPLICATE_THRESHOLD = 6;
+
+export interface DuplicateGroup {
+  kind: 'exact' | 'near';
+  items: MediaItem[];
+}
+
+// Exact groups share a content hash. Near groups are images whose perceptual hashes are within
+// the threshold of the group's first member, skipping copies already covered by an exact group.
+export const findDuplicates = (items: MediaItem[]): DuplicateGroup[] => {
+  const groups: DuplicateGroup[] = [];
+  const byHash = new Map<string, MediaItem[]>();
+  items.forEach(item => {
+    if (!item.contentHash) return;
+    byHash.set(item.contentHash, [...(byHash.get(item.contentHash) || []), item]);
+  });
+  byHash.forEach(members => {
+    if (members.length > 1) groups.push({ kind: 'exact', items: members });
+  });
+
+  const seenHashes = new Set<string>();
+  const candidates = items.filter(item => {
+    if (!item.perceptualHash || item.type !== MediaType.IMAGE) return false;
+    if (!item.contentHash) return true;
+    if (seenHashes.has(item.contentHash)) return false;
+    seenHashes.add(item.contentHash);
+    return true;
+  });
+  const grouped = new Set<string>();
+  candidates.forEach((item, i) => {
+    if (grouped.has(item.id)) return;
+    const members = [item];
+    for (let j = i + 1; j < candidates.length; j++) {
+      const other = candidates[j];
+      if (grouped.has(other.id)) continue;
+      if (hammingDistance(item.perceptualHash!, other.perceptualHash!) <= NEAR_DUPLICATE_THRESHOLD) members.push(other);
+    }
+    if (members.length > 1) {
+      members.forEach(member => grouped.add(member.id));
+      groups.push({ kind: 'near', items: members });
+    }
+  });
+  return groups;
+};
@@ -0,0 +1,62 @@
+// Hashes files off the main thread so large uploads do not freeze the grid.
+
+import { sha256Stream } from './sha256';
+
+export interface HashRequest {
+  id: number;
+  blob: Blob;
+  // Image to derive the perceptual hash from (usually the thumbnail); omitted for non-images.
+  image?: Blob;
+}
+
+export interface HashResponse {
+  id: number;
+  contentHash?: string;
+  perceptualHash?: string;
+  error?: string;
+}
+
+// Files up to this size are digested natively in one buffer; larger ones (long videos) are
+// streamed through the incremental hash so they never sit in memory whole.
+const MAX_BUFFERED_BYTES = 256 * 1024 * 1024;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+// dHash: shrink to 9x8 greyscale and record whether each pixel is brighter than its right
+// neighbour. Resizing, recompression and small edits leave most of the 64 bits unchanged.
+const differenceHash = async (image: Blob): Promise<string | undefined> => {
+  if (typeof OffscreenCanvas === 'undefined') return undefined;
+  const bitmap = await createImageBitmap(image, { resizeWidth: 9, resizeHeight: 8, resizeQuality: 'medium' });
+  const canvas = new OffscreenCanvas(9, 8);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return undefined;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const { data } = ctx.getImageData(0, 0, 9, 8);
+
+  const bytes = new Uint8Array(8);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      const left = (y * 9 + x) * 4;
+      const right = left + 4;
+      const luma = (i: number) => data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+      if (luma(left) > luma(right)) bytes[y] |= 1 << x;
+    }
+  }
+  return toHex(bytes);
+};
+
+const scope = self as unknown as Worker;
+
+scope.onmessage = async (e: MessageEvent<HashRequest>) => {
+  const { id, blob, image } = e.data;
+  try {
+    const digest = blob.size > MAX_BUFFERED_BYTES
+      ? await sha256Stream(blob)
+      : new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+    const perceptualHash = image ? await differenceHash(image).catch(() => undefined) : undefined;
+    scope.postMessage({ id, contentHash: toHex(digest), perceptualHash } as HashResponse);
+  } catch (err) {
+    scope.postMessage({ id, error: err instanceof Error ? err.message : String(err) } as HashResponse);
+  }
+};
@@ -0,0 +1,82 @@
+// Turns drops, pastes and file pickers into a flat list of files for the upload queue,
+// remembering which folders each file came from so they can become albums and tags.
+
+// A file plus the folders it sat in, relative to what the user picked or dropped; e.g.
+// ['Export', 'Retina'] for a dropped Export folder containing Retina/logo.png.
+export interface IngestedFile {
+  file: File;
+  folders: string[];
+}
+
+export const ACCEPT_PHOTOS = 'image/*';
+export const ACCEPT_VIDEOS = 'video/*';
+
+// OS clutter that rides along with dragged folders.
+const IGNORED_NAMES = new Set(['Thumbs.db', 'desktop.ini']);
+
+const isIgnored = (name: string) => name.startsWith('.') || IGNORED_NAMES.has(name);
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+const walkEntry = async (entry: FileSystemEntry, folders: string[], out: IngestedFile[]) => {
+  if (isIgnored(entry.name)) return;
+  if (entry.isFile) {
+    out.push({ file: await readFile(entry as FileSystemFileEntry), folders });
+    return;
+  }
+  if (!entry.isDirectory) return;
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries returns directories in batches (about 100 in Chromium); read until one is empty.
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    for (const child of batch) await walkEntry(child, [...folders, entry.name], out);
+  }
+};
+
+// Walks dropped folders recursively. Browsers without entry support only expose the top-level
+// files, which is still better than rejecting the drop.
+export const filesFromDataTransfer = async (data: DataTransfer): Promise<IngestedFile[]> => {
+  // Entries have to be taken before the first await; the DataTransfer is emptied once the
+  // drop event returns.
+  const entries = Array.from(data.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return Array.from(data.files).filter(file => !isIgnored(file.name)).map(file => ({ file, folders: [] }));
+  }
+  const out: IngestedFile[] = [];
+  for (const entry of entries) await walkEntry(entry!, [], out);
+  return out;
+};
+
+// For <input type="file">, including webkitdirectory pickers, which report each file's path
+// relative to the chosen folder.
+export const filesFromInput = (files: FileList | File[]): IngestedFile[] =>
+  Array.from(files)
+    .map(file => ({ file, folders: file.webkitRelativePath ? file.webkitRelativePath.split('/').slice(0, -1) : [] }))
+    .filter(({ file, folders }) => !isIgnored(file.name) && !folders.some(isIgnored));
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// "Screenshot 2024-05-01 at 09.30.00", the way macOS names its screenshots.
+export const dateStampedName = (prefix: string, date = new Date()) =>
+  `${prefix} ${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} at ${pad(date.getHours())}.${pad(date.getMinutes())}.${pad(date.getSeconds())}`;
+
+// Pasted screenshots arrive as "image.png"; they get a dated name instead so they are
+// distinguishable in the vault.
+export const filesFromClipboard = (data: DataTransfer): IngestedFile[] => {
+  const files = Array.from(data.files);
+  const now = new Date();
+  const stamp = dateStampedName('Screenshot', now);
+  return files.map((file, i) => {
+    if (file.name && !/^image\.\w+$/.test(file.name)) return { file, folders: [] };
+    const ext = file.type.split('/')[1] || 'png';
+    const name = `${stamp}${files.length > 1 ? ` (${i + 1})` : ''}.${ext}`;
+    return { file: new File([file], name, { type: file.type, lastModified: now.getTime() }), folders: [] };
+  });
+};
+
+export const hasFiles = (data: DataTransfer | null) => !!data && Array.from(data.types).includes('Files');
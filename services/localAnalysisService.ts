@@ -0,0 +1,197 @@
+import { AnalysisInput, AnalysisProvider, MediaAnalysis } from './analysisProvider';
+import { isPdf, isPsd } from './analysisInputService';
+import { tokenize } from './searchService';
+
+// On-device analysis from what the file already tells us: its name, its capture metadata, the
+// text of documents and, for anything with a picture, its dominant colors. Never as good as a
+// vision model, but it needs no key and no network, so every upload comes out with something
+// better than its raw file name.
+
+const COLOR_SAMPLE_EDGE = 24;
+// A color has to cover this share of the picture to be worth a tag.
+const MIN_COLOR_SHARE = 0.2;
+const MAX_TAGS = 6;
+const MAX_TITLE_LENGTH = 80;
+const EMBEDDING_DIMENSIONS = 256;
+// Share of a word's weight spread over its character trigrams, so "sunsets" still lands near "sunset".
+const TRIGRAM_WEIGHT = 0.5;
+
+// Names cameras, phones and screenshot tools give files; they say nothing about the content.
+const GENERATED_NAME = /^(img|dsc[nf]?|pxl|mvimg|vid|mov|gopr|dji|photo|video|image|screenshot|screen shot)[\s_-]*\d/i;
+const STOP_WORDS = new Set([
+  'img', 'dsc', 'pxl', 'vid', 'copy', 'final', 'edit', 'edited', 'export', 'new', 'untitled', 'version', 'www', 'jpeg', 'page',
+  'the', 'and', 'with', 'for', 'from', 'this', 'that', 'these', 'those', 'have', 'has', 'will', 'your', 'you', 'our', 'are',
+  'was', 'were', 'been', 'which', 'their', 'there', 'they', 'what', 'when', 'where', 'about', 'into', 'more', 'than', 'also',
+  'can', 'not', 'all', 'any', 'may', 'such', 'other', 'each', 'only', 'its', 'per'
+]);
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+const nameWords = (fileName: string) => {
+  const base = fileName.replace(/\.[^.]+$/, '');
+  if (GENERATED_NAME.test(base)) return [];
+  return base
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .split(/[^\p{L}\d]+/u)
+    .filter(word => word.length > 0 && !/^\d+$/.test(word));
+};
+
+type ColorName = 'Red' | 'Orange' | 'Yellow' | 'Green' | 'Cyan' | 'Blue' | 'Purple' | 'Pink' | 'Black' | 'White' | 'Gray';
+
+const nameColor = (r: number, g: number, b: number): ColorName => {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const lightness = (max + min) / 2;
+  const saturation = max === min ? 0 : (max - min) / (1 - Math.abs(2 * lightness - 1));
+  if (lightness < 0.15) return 'Black';
+  if (lightness > 0.88 && saturation < 0.3) return 'White';
+  if (saturation < 0.15) return 'Gray';
+
+  let hue: number;
+  const d = (max - min) * 255;
+  if (r >= g && r >= b) hue = ((g - b) / d) * 60;
+  else if (g >= b) hue = ((b - r) / d) * 60 + 120;
+  else hue = ((r - g) / d) * 60 + 240;
+  if (hue < 0) hue += 360;
+
+  if (hue < 15 || hue >= 345) return 'Red';
+  if (hue < 40) return 'Orange';
+  if (hue < 65) return 'Yellow';
+  if (hue < 165) return 'Green';
+  if (hue < 200) return 'Cyan';
+  if (hue < 255) return 'Blue';
+  if (hue < 290) return 'Purple';
+  return 'Pink';
+};
+
+// Tags for the colors that dominate a tiny downscale of the image, or "Monochrome" when there
+// is hardly any color at all. Formats the browser cannot decode simply get no color tags.
+const colorTags = async (image: Blob): Promise<string[]> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(image, { resizeWidth: COLOR_SAMPLE_EDGE, resizeHeight: COLOR_SAMPLE_EDGE });
+  } catch {
+    return [];
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = COLOR_SAMPLE_EDGE;
+  canvas.height = COLOR_SAMPLE_EDGE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    bitmap.close();
+    return [];
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, COLOR_SAMPLE_EDGE, COLOR_SAMPLE_EDGE);
+  const counts = new Map<ColorName, number>();
+  let opaque = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue;
+    const color = nameColor(data[i], data[i + 1], data[i + 2]);
+    counts.set(color, (counts.get(color) || 0) + 1);
+    opaque++;
+  }
+  if (opaque === 0) return [];
+
+  const neutral = (counts.get('Black') || 0) + (counts.get('White') || 0) + (counts.get('Gray') || 0);
+  if (neutral / opaque > 0.95) return ['Monochrome'];
+  return [...counts.entries()]
+    .filter(([, count]) => count / opaque >= MIN_COLOR_SHARE)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 2)
+    .map(([color]) => color);
+};
+
+// Words a document keeps coming back to, most frequent first.
+const keywords = (text: string) => {
+  const counts = new Map<string, number>();
+  text.toLowerCase().split(/[^\p{L}]+/u)
+    .filter(word => word.length >= 4 && !STOP_WORDS.has(word))
+    .forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+  return [...counts.entries()].filter(([, count]) => count > 1).sort((a, b) => b[1] - a[1]).slice(0, 3).map(([word]) => capitalize(word));
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' });
+
+export const analyzeLocally = async (input: AnalysisInput): Promise<MediaAnalysis> => {
+  const { fileName, mimeType, metadata } = input;
+  const words = nameWords(fileName);
+  const isScreenshot = /^screen ?shot/i.test(fileName);
+  const kind = isPsd(mimeType, fileName) ? 'Design'
+    : isPdf(mimeType, fileName) ? 'Document'
+    : mimeType.startsWith('image/') ? (isScreenshot ? 'Screenshot' : 'Photo')
+    : mimeType.startsWith('video/') ? 'Video'
+    : 'File';
+  const capturedAt = metadata?.capturedAt;
+  const firstLine = input.text?.split('\n').find(line => /\p{L}{3}/u.test(line))?.slice(0, MAX_TITLE_LENGTH);
+
+  const title = words.length > 0
+    ? words.map(capitalize).join(' ')
+    : firstLine ? firstLine
+    : capturedAt ? `${kind} from ${formatDate(capturedAt)}` : fileName.replace(/\.[^.]+$/, '') || kind;
+
+  const description = [
+    kind,
+    metadata?.camera ? `taken with ${metadata.camera}` : '',
+    capturedAt ? `on ${formatDate(capturedAt)}` : ''
+  ].filter(Boolean).join(' ') + '.';
+
+  const tags: string[] = words
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word.toLowerCase()))
+    .slice(0, 3)
+    .map(capitalize);
+  if (input.text) tags.push(...keywords(input.text));
+  const image = input.frames?.[0] || input.thumbnail || (mimeType.startsWith('image/') ? input.data : undefined);
+  if (image) tags.push(...await colorTags(image));
+  if (isScreenshot) tags.push('Screenshot');
+  if (!['Photo', 'Screenshot', 'Video'].includes(kind)) tags.push((fileName.split('.').pop() || '').toUpperCase());
+  if (metadata?.camera) tags.push(capitalize(metadata.camera.split(' ')[0].toLowerCase()));
+  if (capturedAt) tags.push(String(new Date(capturedAt).getFullYear()));
+  if (metadata?.width && metadata?.height) {
+    tags.push(metadata.width > metadata.height ? 'Landscape' : metadata.width < metadata.height ? 'Portrait' : 'Square');
+  }
+
+  const unique = tags.filter((tag, i) => tag && tags.findIndex(t => t.toLowerCase() === tag.toLowerCase()) === i);
+  return { title, description, tags: unique.slice(0, MAX_TAGS) };
+};
+
+// 32-bit FNV-1a.
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Hashes words and their trigrams into a fixed-size vector. It knows nothing about meaning, only
+// shared vocabulary, but it is deterministic, instant and works offline.
+export const embedLocally = (text: string): number[] => {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const add = (feature: string, weight: number) => {
+    const hash = hashString(feature);
+    vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+  };
+  tokenize(text).filter(word => !STOP_WORDS.has(word)).forEach(word => {
+    add(word, 1);
+    const padded = `#${word}#`;
+    const trigrams = Math.max(1, padded.length - 2);
+    for (let i = 0; i + 3 <= padded.length; i++) add(padded.slice(i, i + 3), TRIGRAM_WEIGHT / trigrams);
+  });
+  return vector;
+};
+
+export const localProvider: AnalysisProvider = {
+  id: 'local',
+  label: 'On-device',
+  defaultModel: '',
+  defaultEmbeddingModel: `hash-${EMBEDDING_DIMENSIONS}`,
+  unavailableReason: () => null,
+  analyze: async input => ({ analysis: await analyzeLocally(input), tokens: 0 }),
+  embed: async texts => ({ vectors: texts.map(embedLocally), tokens: 0 }),
+  write: async () => ({ text: null, tokens: 0 })
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { extractMediaInfo } from './mediaInfoService';
+import { MediaType } from '../types';
+
+// A minimal JPEG: SOI, an APP1 "Exif" segment holding a little-endian TIFF with IFD0 (the
+// orientation and a pointer to the EXIF IFD) and an EXIF IFD with the pixel dimensions.
+const jpegWithExif = (orientation: number, width: number, height: number) => {
+  const tiff = new DataView(new ArrayBuffer(8 + 30 + 30));
+  const entry = (offset: number, tag: number, type: number, value: number) => {
+    tiff.setUint16(offset, tag, true);
+    tiff.setUint16(offset + 2, type, true);
+    tiff.setUint32(offset + 4, 1, true);
+    if (type === 3) tiff.setUint16(offset + 8, value, true);
+    else tiff.setUint32(offset + 8, value, true);
+  };
+  tiff.setUint16(0, 0x4949);
+  tiff.setUint16(2, 42, true);
+  tiff.setUint32(4, 8, true);
+  tiff.setUint16(8, 2, true);
+  entry(10, 0x0112, 3, orientation);
+  entry(22, 0x8769, 4, 38);
+  tiff.setUint16(38, 2, true);
+  entry(40, 0xa002, 4, width);
+  entry(52, 0xa003, 4, height);
+
+  const header = new DataView(new ArrayBuffer(12));
+  header.setUint16(0, 0xffd8);
+  header.setUint16(2, 0xffe1);
+  header.setUint16(4, 2 + 6 + tiff.byteLength);
+  new Uint8Array(header.buffer).set([0x45, 0x78, 0x69, 0x66, 0, 0], 6);
+  return new Blob([header.buffer, tiff.buffer, new Uint8Array([0xff, 0xd9])], { type: 'image/jpeg' });
+};
+
+describe('extractMediaInfo', () => {
+  it('reads the size of an upright JPEG as stored', async () => {
+    const metadata = await extractMediaInfo(jpegWithExif(1, 4000, 3000), MediaType.IMAGE);
+
+    expect(metadata).toMatchObject({ orientation: 1, width: 4000, height: 3000 });
+  });
+
+  it('swaps the size of a JPEG rotated a quarter turn', async () => {
+    const metadata = await extractMediaInfo(jpegWithExif(6, 4000, 3000), MediaType.IMAGE);
+
+    expect(metadata).toMatchObject({ orientation: 6, width: 3000, height: 4000 });
+  });
+
+  it('keeps the size of a JPEG turned upside down', async () => {
+    const metadata = await extractMediaInfo(jpegWithExif(3, 4000, 3000), MediaType.IMAGE);
+
+    expect(metadata).toMatchObject({ width: 4000, height: 3000 });
+  });
+});
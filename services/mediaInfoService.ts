@@ -0,0 +1,428 @@
+import { MediaItem, MediaMetadata, MediaType } from '../types';
+import { getMediaBlob, updateMediaItem } from './db';
+
+// Reads capture metadata straight from file bytes: EXIF out of JPEG, HEIC and TIFF, and
+// duration, resolution, codecs and creation time out of MP4/QuickTime containers. Other video
+// containers fall back to what a <video> element reports.
+
+const JPEG_SCAN_BYTES = 256 * 1024;
+const TIFF_SCAN_BYTES = 1024 * 1024;
+const HEIF_SCAN_BYTES = 512 * 1024;
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+const VIDEO_TIMEOUT_MS = 10000;
+// Seconds between the QuickTime epoch (1904-01-01) and the Unix epoch.
+const QUICKTIME_EPOCH_OFFSET = 2082844800;
+
+const readBytes = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+const fourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+// ---- EXIF (TIFF structure) ----
+
+interface TiffReader {
+  view: DataView;
+  base: number;
+  little: boolean;
+}
+
+type TagValue = number | number[] | string;
+type Ifd = Map<number, TagValue>;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const readValue = (r: TiffReader, type: number, offset: number): number => {
+  const { view, little } = r;
+  switch (type) {
+    case 1: case 7: return view.getUint8(offset);
+    case 3: return view.getUint16(offset, little);
+    case 4: return view.getUint32(offset, little);
+    case 9: return view.getInt32(offset, little);
+    case 5: {
+      const denominator = view.getUint32(offset + 4, little);
+      return denominator ? view.getUint32(offset, little) / denominator : 0;
+    }
+    case 10: {
+      const denominator = view.getInt32(offset + 4, little);
+      return denominator ? view.getInt32(offset, little) / denominator : 0;
+    }
+    default: return 0;
+  }
+};
+
+const readIfd = (r: TiffReader, ifdOffset: number): Ifd => {
+  const tags: Ifd = new Map();
+  const start = r.base + ifdOffset;
+  if (start + 2 > r.view.byteLength) return tags;
+  const count = r.view.getUint16(start, r.little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > r.view.byteLength) break;
+    const tag = r.view.getUint16(entry, r.little);
+    const type = r.view.getUint16(entry + 2, r.little);
+    const n = r.view.getUint32(entry + 4, r.little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    const valueOffset = size * n <= 4 ? entry + 8 : r.base + r.view.getUint32(entry + 8, r.little);
+    if (valueOffset + size * n > r.view.byteLength) continue;
+
+    if (type === 2) {
+      let text = '';
+      for (let j = 0; j < n; j++) {
+        const code = r.view.getUint8(valueOffset + j);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      tags.set(tag, text.trim());
+    } else {
+      const values = Array.from({ length: Math.min(n, 16) }, (_, j) => readValue(r, type, valueOffset + j * size));
+      tags.set(tag, values.length === 1 ? values[0] : values);
+    }
+  }
+  return tags;
+};
+
+const num = (value?: TagValue) => typeof value === 'number' ? value : Array.isArray(value) ? value[0] : undefined;
+const str = (value?: TagValue) => typeof value === 'string' && value ? value : undefined;
+
+// EXIF dates are wall-clock "YYYY:MM:DD HH:MM:SS"; the offset tag, when present, pins the zone.
+const parseExifDate = (value?: string, offset?: string): number | undefined => {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  if (!y) return undefined;
+  const zone = offset?.match(/^([+-])(\d{2}):(\d{2})$/);
+  if (zone) {
+    const minutes = (Number(zone[2]) * 60 + Number(zone[3])) * (zone[1] === '-' ? -1 : 1);
+    return Date.UTC(y, mo - 1, d, h, mi, s) - minutes * 60000;
+  }
+  return new Date(y, mo - 1, d, h, mi, s).getTime();
+};
+
+const toDegrees = (value?: TagValue, ref?: TagValue) => {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+// Parses a TIFF header at `base` within `view` (the start of an EXIF payload or a TIFF file).
+const parseTiff = (view: DataView, base: number): MediaMetadata => {
+  if (base + 8 > view.byteLength) return {};
+  const order = view.getUint16(base);
+  if (order !== 0x4949 && order !== 0x4d4d) return {};
+  const r: TiffReader = { view, base, little: order === 0x4949 };
+  if (view.getUint16(base + 2, r.little) !== 42) return {};
+
+  const ifd0 = readIfd(r, view.getUint32(base + 4, r.little));
+  const exifPointer = num(ifd0.get(0x8769));
+  const gpsPointer = num(ifd0.get(0x8825));
+  const exif = exifPointer ? readIfd(r, exifPointer) : new Map<number, TagValue>();
+  const gps = gpsPointer ? readIfd(r, gpsPointer) : new Map<number, TagValue>();
+
+  const make = str(ifd0.get(0x010f));
+  const model = str(ifd0.get(0x0110));
+  const latitude = toDegrees(gps.get(2), gps.get(1));
+  const longitude = toDegrees(gps.get(4), gps.get(3));
+  const altitude = num(gps.get(6));
+  const orientation = num(ifd0.get(0x0112));
+  const pixelWidth = num(exif.get(0xa002)) ?? num(ifd0.get(0x0100));
+  const pixelHeight = num(exif.get(0xa003)) ?? num(ifd0.get(0x0101));
+  // Orientations 5 to 8 turn the stored pixels a quarter turn, so the image shows on its side
+  // compared to how it is encoded; record the size it is displayed at.
+  const quarterTurn = orientation !== undefined && orientation >= 5 && orientation <= 8;
+
+  const metadata: MediaMetadata = {
+    capturedAt: parseExifDate(str(exif.get(0x9003)), str(exif.get(0x9011))) ?? parseExifDate(str(ifd0.get(0x0132)), str(exif.get(0x9010))),
+    // Model strings usually repeat the make ("Canon EOS R5"), so only prefix it when they don't.
+    camera: model ? (make && !model.toLowerCase().startsWith(make.split(' ')[0].toLowerCase()) ? `${make} ${model}` : model) : make,
+    lens: str(exif.get(0xa434)),
+    exposureTime: num(exif.get(0x829a)),
+    fNumber: num(exif.get(0x829d)),
+    iso: num(exif.get(0x8827)),
+    focalLength: num(exif.get(0x920a)),
+    orientation,
+    width: quarterTurn ? pixelHeight : pixelWidth,
+    height: quarterTurn ? pixelWidth : pixelHeight,
+    gps: latitude !== undefined && longitude !== undefined && (latitude !== 0 || longitude !== 0)
+      ? { latitude, longitude, ...(altitude !== undefined ? { altitude: gps.get(5) === 1 ? -altitude : altitude } : {}) }
+      : undefined
+  };
+  return metadata;
+};
+
+const parseJpeg = async (blob: Blob): Promise<MediaMetadata> => {
+  const view = await readBytes(blob, 0, JPEG_SCAN_BYTES);
+  let pos = 2;
+  while (pos + 4 <= view.byteLength) {
+    if (view.getUint8(pos) !== 0xff) return {};
+    const marker = view.getUint8(pos + 1);
+    const length = view.getUint16(pos + 2);
+    if (marker === 0xda || marker === 0xd9) return {};
+    // APP1 starting "Exif\0\0", followed by the TIFF header.
+    if (marker === 0xe1 && pos + 10 <= view.byteLength && view.getUint32(pos + 4) === 0x45786966) {
+      return parseTiff(view, pos + 10);
+    }
+    pos += 2 + length;
+  }
+  return {};
+};
+
+// ---- ISO base media boxes (HEIF, MP4, QuickTime) ----
+
+interface Box {
+  type: string;
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+const childBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let pos = start;
+  while (pos + 8 <= end) {
+    let size = view.getUint32(pos);
+    const type = fourCC(view, pos + 4);
+    let header = 8;
+    if (size === 1 && pos + 16 <= end) {
+      size = Number(view.getBigUint64(pos + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - pos;
+    }
+    if (size < header) break;
+    boxes.push({ type, start: pos, contentStart: pos + header, end: Math.min(end, pos + size) });
+    pos += size;
+  }
+  return boxes;
+};
+
+const findBox = (view: DataView, start: number, end: number, path: string[]): Box | undefined => {
+  let box: Box | undefined;
+  let range = [start, end];
+  for (const type of path) {
+    box = childBoxes(view, range[0], range[1]).find(b => b.type === type);
+    if (!box) return undefined;
+    // meta is a full box: four bytes of version and flags precede its children.
+    range = [box.contentStart + (type === 'meta' ? 4 : 0), box.end];
+  }
+  return box;
+};
+
+const readSized = (view: DataView, offset: number, size: number) =>
+  size === 8 ? Number(view.getBigUint64(offset)) : size === 4 ? view.getUint32(offset) : size === 2 ? view.getUint16(offset) : 0;
+
+// HEIC stores EXIF as an item: iinf names the item, iloc says where its bytes live.
+const parseHeif = async (blob: Blob): Promise<MediaMetadata> => {
+  const view = await readBytes(blob, 0, HEIF_SCAN_BYTES);
+  const meta = findBox(view, 0, view.byteLength, ['meta']);
+  if (!meta) return {};
+  const metaChildren = [meta.contentStart + 4, meta.end];
+  const iinf = findBox(view, metaChildren[0], metaChildren[1], ['iinf']);
+  const iloc = findBox(view, metaChildren[0], metaChildren[1], ['iloc']);
+  if (!iinf || !iloc) return {};
+
+  const iinfVersion = view.getUint8(iinf.contentStart);
+  const entriesStart = iinf.contentStart + 4 + (iinfVersion === 0 ? 2 : 4);
+  let exifId: number | undefined;
+  for (const infe of childBoxes(view, entriesStart, iinf.end)) {
+    if (infe.type !== 'infe') continue;
+    const version = view.getUint8(infe.contentStart);
+    if (version < 2) continue;
+    const idSize = version === 2 ? 2 : 4;
+    const id = readSized(view, infe.contentStart + 4, idSize);
+    if (fourCC(view, infe.contentStart + 4 + idSize + 2) === 'Exif') {
+      exifId = id;
+      break;
+    }
+  }
+  if (exifId === undefined) return {};
+
+  const version = view.getUint8(iloc.contentStart);
+  let pos = iloc.contentStart + 4;
+  const sizes = view.getUint16(pos);
+  const offsetSize = sizes >> 12;
+  const lengthSize = (sizes >> 8) & 0xf;
+  const baseOffsetSize = (sizes >> 4) & 0xf;
+  const indexSize = version === 1 || version === 2 ? sizes & 0xf : 0;
+  pos += 2;
+  const itemCount = version < 2 ? view.getUint16(pos) : view.getUint32(pos);
+  pos += version < 2 ? 2 : 4;
+
+  for (let i = 0; i < itemCount && pos < iloc.end; i++) {
+    const id = version < 2 ? view.getUint16(pos) : view.getUint32(pos);
+    pos += version < 2 ? 2 : 4;
+    if (version === 1 || version === 2) pos += 2;
+    pos += 2;
+    const baseOffset = readSized(view, pos, baseOffsetSize);
+    pos += baseOffsetSize;
+    const extentCount = view.getUint16(pos);
+    pos += 2;
+    let firstOffset = 0;
+    let firstLength = 0;
+    for (let e = 0; e < extentCount; e++) {
+      pos += indexSize;
+      const extentOffset = readSized(view, pos, offsetSize);
+      pos += offsetSize;
+      const extentLength = readSized(view, pos, lengthSize);
+      pos += lengthSize;
+      if (e === 0) {
+        firstOffset = baseOffset + extentOffset;
+        firstLength = extentLength;
+      }
+    }
+    if (id !== exifId) continue;
+
+    const exif = await readBytes(blob, firstOffset, firstOffset + (firstLength || 64 * 1024));
+    // The payload opens with a 32-bit offset to the TIFF header.
+    return exif.byteLength >= 4 ? parseTiff(exif, 4 + exif.getUint32(0)) : {};
+  }
+  return {};
+};
+
+// Finds moov wherever it sits; files that were not "fast-started" keep it after the media data.
+const readMoov = async (blob: Blob): Promise<DataView | null> => {
+  let pos = 0;
+  while (pos + 8 <= blob.size) {
+    const header = await readBytes(blob, pos, pos + 16);
+    let size = header.getUint32(0);
+    const type = fourCC(header, 4);
+    if (size === 1 && header.byteLength >= 16) size = Number(header.getBigUint64(8));
+    else if (size === 0) size = blob.size - pos;
+    if (size < 8) return null;
+    if (type === 'moov') return size > MAX_MOOV_BYTES ? null : readBytes(blob, pos, pos + size);
+    pos += size;
+  }
+  return null;
+};
+
+// QuickTime keeps the recording location as ISO 6709 text, e.g. "+37.7749-122.4194+010.000/".
+const parseIso6709 = (text: string) => {
+  const match = text.match(/^([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)?/);
+  if (!match) return undefined;
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  return { latitude, longitude, ...(match[3] ? { altitude: Number(match[3]) } : {}) };
+};
+
+const parseIsoVideo = async (blob: Blob): Promise<MediaMetadata> => {
+  const moov = await readMoov(blob);
+  if (!moov) return {};
+  const metadata: MediaMetadata = {};
+  const childrenStart = moov.getUint32(0) === 1 ? 16 : 8;
+  const top = childBoxes(moov, childrenStart, moov.byteLength);
+
+  const mvhd = top.find(b => b.type === 'mvhd');
+  if (mvhd) {
+    const version = moov.getUint8(mvhd.contentStart);
+    const p = mvhd.contentStart + 4;
+    const created = version === 1 ? Number(moov.getBigUint64(p)) : moov.getUint32(p);
+    const timescale = moov.getUint32(p + (version === 1 ? 16 : 8));
+    const duration = version === 1 ? Number(moov.getBigUint64(p + 20)) : moov.getUint32(p + 12);
+    if (timescale) metadata.duration = duration / timescale;
+    if (created > QUICKTIME_EPOCH_OFFSET) metadata.capturedAt = (created - QUICKTIME_EPOCH_OFFSET) * 1000;
+  }
+
+  top.filter(b => b.type === 'trak').forEach(trak => {
+    const handler = findBox(moov, trak.contentStart, trak.end, ['mdia', 'hdlr']);
+    const kind = handler ? fourCC(moov, handler.contentStart + 8) : '';
+    const stsd = findBox(moov, trak.contentStart, trak.end, ['mdia', 'minf', 'stbl', 'stsd']);
+    // stsd: version/flags, entry count, then the first sample entry whose type is the codec.
+    const codec = stsd && stsd.contentStart + 16 <= stsd.end ? fourCC(moov, stsd.contentStart + 12) : undefined;
+    if (kind === 'vide') {
+      metadata.videoCodec = codec;
+      const tkhd = findBox(moov, trak.contentStart, trak.end, ['tkhd']);
+      if (tkhd) {
+        // Width and height are the last two 16.16 fixed-point fields of tkhd.
+        metadata.width = Math.round(moov.getUint32(tkhd.end - 8) / 65536);
+        metadata.height = Math.round(moov.getUint32(tkhd.end - 4) / 65536);
+      }
+    } else if (kind === 'soun') {
+      metadata.audioCodec = codec;
+    }
+  });
+
+  const xyz = findBox(moov, childrenStart, moov.byteLength, ['udta', '\u00a9xyz']);
+  if (xyz && xyz.contentStart + 4 <= xyz.end) {
+    const length = moov.getUint16(xyz.contentStart);
+    const bytes = new Uint8Array(moov.buffer, moov.byteOffset + xyz.contentStart + 4, Math.min(length, xyz.end - xyz.contentStart - 4));
+    metadata.gps = parseIso6709(new TextDecoder().decode(bytes));
+  }
+  return metadata;
+};
+
+// Duration and size for containers the parser does not understand, courtesy of the browser.
+const probeVideoElement = (blob: Blob): Promise<MediaMetadata> => new Promise(resolve => {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  const finish = (metadata: MediaMetadata) => {
+    clearTimeout(timer);
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+    resolve(metadata);
+  };
+  const timer = setTimeout(() => finish({}), VIDEO_TIMEOUT_MS);
+  video.preload = 'metadata';
+  video.muted = true;
+  video.onloadedmetadata = () => finish({
+    duration: Number.isFinite(video.duration) ? video.duration : undefined,
+    width: video.videoWidth || undefined,
+    height: video.videoHeight || undefined
+  });
+  video.onerror = () => finish({});
+  video.src = url;
+});
+
+const withoutEmpty = (metadata: MediaMetadata): MediaMetadata =>
+  Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined && value !== '')) as MediaMetadata;
+
+export const extractMediaInfo = async (blob: Blob, type: MediaType): Promise<MediaMetadata> => {
+  const head = await readBytes(blob, 0, 12);
+  if (head.byteLength < 12) return {};
+  const isIsoMedia = fourCC(head, 4) === 'ftyp';
+
+  let metadata: MediaMetadata = {};
+  if (head.getUint16(0) === 0xffd8) {
+    metadata = await parseJpeg(blob);
+  } else if (head.getUint16(0) === 0x4949 || head.getUint16(0) === 0x4d4d) {
+    metadata = parseTiff(await readBytes(blob, 0, TIFF_SCAN_BYTES), 0);
+  } else if (isIsoMedia && type === MediaType.IMAGE) {
+    metadata = await parseHeif(blob);
+  } else if (isIsoMedia || fourCC(head, 4) === 'moov' || fourCC(head, 4) === 'wide' || fourCC(head, 4) === 'mdat') {
+    metadata = await parseIsoVideo(blob);
+  }
+
+  if (type === MediaType.VIDEO && (!metadata.duration || !metadata.width)) {
+    metadata = { ...(await probeVideoElement(blob)), ...withoutEmpty(metadata) };
+  }
+  return withoutEmpty(metadata);
+};
+
+export const needsMediaInfo = (item: MediaItem) =>
+  !item.metadata && (item.type === MediaType.IMAGE || item.type === MediaType.VIDEO);
+
+// Parses stored items that predate metadata extraction. Items the parser finds nothing in still
+// get an empty object so they are not re-read on every start.
+export const backfillMediaInfo = async (
+  items: MediaItem[],
+  onParsed: (id: string, metadata: MediaMetadata) => void,
+  isCancelled: () => boolean
+): Promise<void> => {
+  for (const item of items.filter(needsMediaInfo)) {
+    if (isCancelled()) return;
+    try {
+      const blob = item.blobId ? await getMediaBlob(item.blobId) : undefined;
+      if (!blob) continue;
+      const metadata = await extractMediaInfo(blob, item.type);
+      await updateMediaItem(item.id, { metadata });
+      if (!isCancelled()) onParsed(item.id, metadata);
+    } catch (err) {
+      console.error("Metadata Backfill Error", err);
+    }
+  }
+};
+
+// The date the timeline files an item under: when it was taken if known, else when it was added.
+export const getCaptureDate = (item: MediaItem) => item.metadata?.capturedAt ?? item.createdAt;
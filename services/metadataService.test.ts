@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { applyRenamePattern } from './metadataService';
+import { MediaItem, MediaType } from '../types';
+
+const item = (title: string, overrides: Partial<MediaItem> = {}): MediaItem => ({
+  id: 'a',
+  url: '',
+  type: MediaType.IMAGE,
+  title,
+  tags: [],
+  isFavorite: false,
+  createdAt: new Date(2025, 5, 7).getTime(),
+  ...overrides
+});
+
+describe('applyRenamePattern', () => {
+  it('expands every token', () => {
+    const renamed = applyRenamePattern('{date}_{n:3}_{name}.{ext} ({title})', item('Beach', { originalFileName: 'IMG_1.jpg', extension: 'jpg' }), 4);
+    expect(renamed).toBe('2025-06-07_005_IMG_1.jpg (Beach)');
+  });
+
+  it('inserts titles literally, without replacement patterns', () => {
+    expect(applyRenamePattern('{title}!', item("Price $& tax $'"), 0)).toBe("Price $& tax $'!");
+  });
+
+  it('does not expand tokens that come from a value', () => {
+    expect(applyRenamePattern('{n} {title}', item('Shot {date} #{n}'), 1)).toBe('2 Shot {date} #{n}');
+  });
+});
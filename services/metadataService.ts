@@ -0,0 +1,67 @@
+import { MediaItem } from '../types';
+import { MediaPatch } from './db';
+
+// Every tag in the vault, most used first, for autocomplete.
+export const collectTags = (items: MediaItem[]): string[] => {
+  const counts = new Map<string, number>();
+  items.forEach(item => item.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+};
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#/, '').replace(/\s+/g, ' ');
+
+// Adds tags without creating case-insensitive duplicates.
+export const addTags = (tags: string[], additions: string[]): string[] => {
+  const result = [...tags];
+  additions.map(normalizeTag).filter(Boolean).forEach(tag => {
+    if (!result.some(t => t.toLowerCase() === tag.toLowerCase())) result.push(tag);
+  });
+  return result;
+};
+
+export const removeTags = (tags: string[], removals: string[]): string[] => {
+  const lowered = removals.map(tag => normalizeTag(tag).toLowerCase());
+  return tags.filter(tag => !lowered.includes(tag.toLowerCase()));
+};
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// Expands a rename pattern for one item. Supported tokens:
+//   {title}  current title        {name}  original file name without extension
+//   {ext}    file extension       {date}  creation date as YYYY-MM-DD
+//   {n}      1-based position in the selection, optionally zero-padded as {n:3}
+export const applyRenamePattern = (pattern: string, item: MediaItem, index: number): string => {
+  const created = new Date(item.createdAt);
+  const date = `${created.getFullYear()}-${String(created.getMonth() + 1).padStart(2, '0')}-${String(created.getDate()).padStart(2, '0')}`;
+
+  // One pass with function replacers, so values are inserted literally: a title containing
+  // "$&" or "{date}" is neither mangled nor expanded again.
+  return pattern
+    .replace(/\{(n(?::\d+)?|title|name|ext|date)\}/g, (_, token: string) => {
+      if (token === 'title') return item.title;
+      if (token === 'name') return stripExtension(item.originalFileName || item.title);
+      if (token === 'ext') return item.extension || '';
+      if (token === 'date') return date;
+      return String(index + 1).padStart(Number(token.slice(2)) || 0, '0');
+    })
+    .trim();
+};
+
+export interface BulkEditOperations {
+  addTags: string[];
+  removeTags: string[];
+  renamePattern: string;
+}
+
+// Builds the metadata patch a bulk edit makes to one item, or null when nothing changes.
+export const buildBulkPatch = (item: MediaItem, ops: BulkEditOperations, index: number): MediaPatch | null => {
+  const patch: MediaPatch = {};
+  const tags = addTags(removeTags(item.tags, ops.removeTags), ops.addTags);
+  if (tags.join('\u0000') !== item.tags.join('\u0000')) patch.tags = tags;
+
+  if (ops.renamePattern.trim()) {
+    const title = applyRenamePattern(ops.renamePattern, item, index);
+    if (title && title !== item.title) patch.title = title;
+  }
+  return Object.keys(patch).length > 0 ? patch : null;
+};
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { openAIProvider } from './openaiService';
+import { AnalysisConfig, AnalysisError, AnalysisInput } from './analysisProvider';
+
+// The provider only ever talks to `fetch`, so a stubbed one stands in for the server.
+
+const CONFIG: AnalysisConfig = { model: 'test-model', embeddingModel: 'test-embed', baseUrl: 'http://models.test/v1/', apiKey: 'secret' };
+
+// Text-only input, so nothing has to be base64-encoded through FileReader.
+const DOCUMENT: AnalysisInput = { data: new Blob(['%PDF']), mimeType: 'application/pdf', fileName: 'report.pdf', text: 'Quarterly report' };
+
+const json = (body: unknown, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' }, ...init });
+
+const stubFetch = (response: Response) => {
+  const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => response);
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const chatReply = (content: string, tokens = 42) => json({ choices: [{ message: { content } }], usage: { total_tokens: tokens } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('openAIProvider.analyze', () => {
+  it('posts to chat/completions and parses the reply', async () => {
+    const fetchMock = stubFetch(chatReply('{"title":" Report ","description":"Numbers","tags":["finance","q3","finance"]}'));
+
+    const result = await openAIProvider.analyze(DOCUMENT, CONFIG);
+
+    expect(result).toEqual({ analysis: { title: 'Report', description: 'Numbers', tags: ['finance', 'q3'] }, tokens: 42 });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://models.test/v1/chat/completions');
+    expect((init!.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init!.body as string).model).toBe('test-model');
+  });
+
+  it('reads an answer wrapped in a Markdown fence', async () => {
+    stubFetch(chatReply('Here you go:\n```json\n{"title":"Fenced","tags":["a"]}\n```'));
+
+    const result = await openAIProvider.analyze(DOCUMENT, CONFIG);
+
+    expect(result?.analysis).toEqual({ title: 'Fenced', description: '', tags: ['a'] });
+  });
+
+  it('turns a 429 into an AnalysisError with the server\'s Retry-After', async () => {
+    stubFetch(new Response('slow down', { status: 429, headers: { 'Retry-After': '7' } }));
+
+    const error = await openAIProvider.analyze(DOCUMENT, CONFIG).catch(err => err);
+
+    expect(error).toBeInstanceOf(AnalysisError);
+    expect(error.status).toBe(429);
+    expect(error.retryAfterMs).toBe(7000);
+  });
+
+  it('reports server errors with their status', async () => {
+    stubFetch(new Response('boom', { status: 503 }));
+
+    const error = await openAIProvider.analyze(DOCUMENT, CONFIG).catch(err => err);
+
+    expect(error).toBeInstanceOf(AnalysisError);
+    expect(error.status).toBe(503);
+    expect(error.retryAfterMs).toBeUndefined();
+  });
+});
+
+describe('openAIProvider.embed', () => {
+  it('orders vectors by their input index', async () => {
+    const fetchMock = stubFetch(json({
+      data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }],
+      usage: { total_tokens: 5 }
+    }));
+
+    const result = await openAIProvider.embed(['first', 'second'], 'document', CONFIG);
+
+    expect(result).toEqual({ vectors: [[1, 0], [0, 1]], tokens: 5 });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://models.test/v1/embeddings');
+    expect(JSON.parse(init!.body as string)).toEqual({ model: 'test-embed', input: ['first', 'second'] });
+  });
+
+  it('rejects a reply with the wrong number of vectors', async () => {
+    stubFetch(json({ data: [{ index: 0, embedding: [1, 0] }] }));
+
+    await expect(openAIProvider.embed(['first', 'second'], 'document', CONFIG)).rejects.toBeInstanceOf(AnalysisError);
+  });
+});
+
+describe('openAIProvider.write', () => {
+  it('returns the trimmed reply', async () => {
+    stubFetch(chatReply('  A sunny week by the sea.  ', 12));
+
+    expect(await openAIProvider.write('Caption this', CONFIG)).toEqual({ text: 'A sunny week by the sea.', tokens: 12 });
+  });
+
+  it('returns null text for an empty reply', async () => {
+    stubFetch(chatReply('   '));
+
+    expect((await openAIProvider.write('Caption this', CONFIG)).text).toBeNull();
+  });
+
+  it('throws on a failed request', async () => {
+    stubFetch(new Response('nope', { status: 401 }));
+
+    await expect(openAIProvider.write('Caption this', CONFIG)).rejects.toMatchObject({ status: 401 });
+  });
+});
@@ -0,0 +1,91 @@
+import { AnalysisError, analysisImages, analysisPrompt, AnalysisProvider, blobToBase64, hasAnalysisContent, parseAnalysis } from './analysisProvider';
+
+// Talks the OpenAI chat completions protocol, which OpenAI itself and most local model servers
+// (Ollama, llama.cpp, LM Studio, vLLM) all speak, so one provider covers them all.
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+const TIMEOUT_MS = 60000;
+
+const endpointUrl = (baseUrl: string, path: string) => `${baseUrl.trim().replace(/\/+$/, '')}/${path}`;
+
+const requestHeaders = (apiKey: string) => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  return headers;
+};
+
+const requestFailed = (response: Response) => {
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  return new AnalysisError(`Analysis server responded ${response.status}`, response.status, retryAfter > 0 ? retryAfter * 1000 : undefined);
+};
+
+export const openAIProvider: AnalysisProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModel: DEFAULT_MODEL,
+  defaultEmbeddingModel: DEFAULT_EMBEDDING_MODEL,
+  unavailableReason: config => config.baseUrl.trim() ? null : 'No server URL',
+  analyze: async (input, config) => {
+    if (!hasAnalysisContent(input)) return null;
+    const images = await Promise.all(analysisImages(input).map(async image =>
+      `data:${image === input.data ? input.mimeType : image.type || 'image/jpeg'};base64,${await blobToBase64(image)}`));
+
+    const response = await fetch(endpointUrl(config.baseUrl, 'chat/completions'), {
+      method: 'POST',
+      headers: requestHeaders(config.apiKey),
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+      body: JSON.stringify({
+        model: config.model || DEFAULT_MODEL,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: analysisPrompt(input) },
+              ...images.map(url => ({ type: 'image_url', image_url: { url } }))
+            ]
+          }
+        ],
+        response_format: { type: 'json_object' }
+      })
+    });
+    if (!response.ok) throw requestFailed(response);
+
+    const body = await response.json();
+    return { analysis: parseAnalysis(body?.choices?.[0]?.message?.content), tokens: Number(body?.usage?.total_tokens) || 0 };
+  },
+  embed: async (texts, _purpose, config) => {
+    const response = await fetch(endpointUrl(config.baseUrl, 'embeddings'), {
+      method: 'POST',
+      headers: requestHeaders(config.apiKey),
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+      body: JSON.stringify({ model: config.embeddingModel || DEFAULT_EMBEDDING_MODEL, input: texts })
+    });
+    if (!response.ok) throw requestFailed(response);
+
+    const body = await response.json();
+    const data: { index: number; embedding: number[] }[] = Array.isArray(body?.data) ? body.data : [];
+    if (data.length !== texts.length) throw new AnalysisError('Embedding server returned the wrong number of vectors');
+    // The spec has results carry their input's index; not every server returns them in order.
+    return {
+      vectors: [...data].sort((a, b) => a.index - b.index).map(entry => entry.embedding),
+      tokens: Number(body?.usage?.total_tokens) || 0
+    };
+  },
+  write: async (prompt, config) => {
+    const response = await fetch(endpointUrl(config.baseUrl, 'chat/completions'), {
+      method: 'POST',
+      headers: requestHeaders(config.apiKey),
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+      body: JSON.stringify({
+        model: config.model || DEFAULT_MODEL,
+        messages: [{ role: 'user', content: prompt }]
+      })
+    });
+    if (!response.ok) throw requestFailed(response);
+
+    const body = await response.json();
+    const text = body?.choices?.[0]?.message?.content;
+    return { text: typeof text === 'string' && text.trim() ? text.trim() : null, tokens: Number(body?.usage?.total_tokens) || 0 };
+  }
+};
@@ -0,0 +1,136 @@
+import { TabType } from '../types';
+
+// Maps what the app is showing to a URL and back, so views can be bookmarked, reloaded and
+// stepped through with the browser's Back and Forward. The host serves index.html for every
+// path, so any of these can be opened directly.
+//
+//   /                        library        /albums/:id            an album
+//   /videos, /favorites,     tabs           /smart-albums/:id      a smart album
+//   /map, /trash, /settings                 /for-you/:cardId       a For You card
+//   /search?q=…&mode=meaning                /search/similar/:id    items similar to one
+//   /item/:id                the viewer, over whichever view it was opened from
+//
+// A query typed into the search bar filters every tab, so `q` is carried on any of them.
+
+export type SearchMode = 'keyword' | 'semantic';
+
+export interface Route {
+  tab: TabType;
+  albumId: string | null;
+  smartAlbumId: string | null;
+  cardId: string | null;
+  query: string;
+  searchMode: SearchMode;
+  similarToId: string | null;
+  itemId: string | null;
+}
+
+export const EMPTY_ROUTE: Route = {
+  tab: 'library',
+  albumId: null,
+  smartAlbumId: null,
+  cardId: null,
+  query: '',
+  searchMode: 'keyword',
+  similarToId: null,
+  itemId: null
+};
+
+const TAB_PATHS: Partial<Record<TabType, string>> = {
+  library: '',
+  videos: 'videos',
+  favorites: 'favorites',
+  'for-you': 'for-you',
+  albums: 'albums',
+  'smart-album': 'smart-albums',
+  search: 'search',
+  map: 'map',
+  trash: 'trash',
+  settings: 'settings'
+};
+
+const TABS_BY_PATH = new Map(Object.entries(TAB_PATHS).map(([tab, path]) => [path, tab as TabType]));
+
+const segment = (value: string) => encodeURIComponent(value);
+
+export const parseRoute = (location: { pathname: string; search: string }): Route => {
+  const [first = '', second, third] = location.pathname.split('/').filter(Boolean).map(part => {
+    try {
+      return decodeURIComponent(part);
+    } catch {
+      return part;
+    }
+  });
+  const params = new URLSearchParams(location.search);
+  const route: Route = {
+    ...EMPTY_ROUTE,
+    query: params.get('q') || '',
+    searchMode: params.get('mode') === 'meaning' ? 'semantic' : 'keyword'
+  };
+
+  if (first === 'item' && second) return { ...route, itemId: second };
+  const tab = TABS_BY_PATH.get(first);
+  if (!tab) return route;
+  if (tab === 'smart-album') return second ? { ...route, tab, smartAlbumId: second } : route;
+  if (tab === 'albums') return { ...route, tab, albumId: second || null };
+  if (tab === 'for-you') return { ...route, tab, cardId: second || null };
+  if (tab === 'search' && second === 'similar' && third) return { ...route, tab, similarToId: third };
+  return { ...route, tab };
+};
+
+export const formatRoute = (route: Route): string => {
+  if (route.itemId) return `/item/${segment(route.itemId)}`;
+
+  let path = `/${TAB_PATHS[route.tab] || ''}`;
+  if (route.tab === 'albums' && route.albumId) path += `/${segment(route.albumId)}`;
+  if (route.tab === 'smart-album' && route.smartAlbumId) path += `/${segment(route.smartAlbumId)}`;
+  if (route.tab === 'for-you' && route.cardId) path += `/${segment(route.cardId)}`;
+  if (route.tab === 'search' && route.similarToId) path += `/similar/${segment(route.similarToId)}`;
+
+  const params = new URLSearchParams();
+  if (route.query.trim()) params.set('q', route.query);
+  if (route.tab === 'search' && route.searchMode === 'semantic' && !route.similarToId) params.set('mode', 'meaning');
+  // Colons are valid in a query string and keep filters such as tag:beach readable.
+  const search = params.toString().replace(/%3A/gi, ':');
+  return search ? `${path}?${search}` : path;
+};
+
+const isItemPath = (path: string) => path.startsWith('/item/');
+const pathname = (path: string) => path.split('?')[0];
+
+export interface HistoryLocation {
+  path: string;
+  // Whether a dialog was open over the view; it gets its own entry so Back closes it.
+  overlay: boolean;
+}
+
+// Kept in history.state: the entry's own location and, when the app pushed it, the one below,
+// so closing the viewer or a dialog can go Back instead of piling up entries.
+export interface HistoryEntry extends HistoryLocation {
+  previous: HistoryLocation | null;
+}
+
+export type HistoryAction = 'none' | 'back' | 'push' | 'replace';
+
+const sameLocation = (a: HistoryLocation, b: HistoryLocation) => a.path === b.path && a.overlay === b.overlay;
+
+// How to get the address bar from the current entry to what the app now shows. Opening the
+// viewer, a dialog or another view adds an entry; stepping between items in the viewer and
+// typing a query rewrite the current one; closing goes Back when that lands on the right place.
+export const historyAction = (current: HistoryEntry, wanted: HistoryLocation): HistoryAction => {
+  if (sameLocation(current, wanted)) return 'none';
+  const closing = current.overlay || isItemPath(current.path);
+  if (closing && current.previous && sameLocation(current.previous, wanted)) return 'back';
+  if (wanted.overlay && !current.overlay) return 'push';
+  if (current.overlay && !wanted.overlay) return 'replace';
+  if (isItemPath(wanted.path)) return isItemPath(current.path) ? 'replace' : 'push';
+  if (isItemPath(current.path)) return 'replace';
+  return pathname(current.path) === pathname(wanted.path) ? 'replace' : 'push';
+};
+
+export const readHistoryEntry = (state: unknown, path: string): HistoryEntry => {
+  const entry = state as Partial<HistoryEntry> | null;
+  return entry && typeof entry.path === 'string'
+    ? { path: entry.path, overlay: !!entry.overlay, previous: entry.previous || null }
+    : { path, overlay: false, previous: null };
+};
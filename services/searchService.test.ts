@@ -0,0 +1,108 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { indexItems, parseQuery, searchItems } from './searchService';
+import { MediaItem, MediaType } from '../types';
+
+// The index is mirrored in memory; only its writes to IndexedDB are stubbed out.
+vi.mock('./db', async importOriginal => ({
+  ...await importOriginal<typeof import('./db')>(),
+  saveSearchIndexChanges: async () => {}
+}));
+
+const item = (id: string, title: string, extra: Partial<MediaItem> = {}): MediaItem =>
+  ({ id, url: '', type: MediaType.IMAGE, title, tags: [], isFavorite: false, createdAt: 0, ...extra });
+
+const ids = (items: MediaItem[], query: string) => searchItems(items, query).map(result => result.item.id).sort();
+
+describe('searchItems phrases', () => {
+  const items = [item('match', 'A red car downtown'), item('substring', 'The scared cart'), item('split', 'Red paint, car wash')];
+
+  it('matches quoted phrases on whole tokens only', () => {
+    expect(searchItems(items, '"red car"').map(result => result.item.id)).toEqual(['match']);
+  });
+
+  it('matches a phrase at the start or end of the text', () => {
+    expect(searchItems(items, '"car downtown"').map(result => result.item.id)).toEqual(['match']);
+    expect(searchItems(items, '"the scared"').map(result => result.item.id)).toEqual(['substring']);
+  });
+});
+
+describe('searchItems terms', () => {
+  const items = [
+    item('sunset', 'Sunset at the beach', { tags: ['Holiday'] }),
+    item('sunflower', 'Sunflower field'),
+    item('invoice', 'Electricity invoice', { type: MediaType.DOCUMENT })
+  ];
+
+  beforeAll(() => indexItems(items));
+
+  it('matches whole words and their prefixes', () => {
+    const results = searchItems(items, 'sunset');
+
+    expect(results.map(result => result.item.id)).toEqual(['sunset']);
+    expect(ids(items, 'sun')).toEqual(['sunflower', 'sunset']);
+  });
+
+  it('forgives a typo in longer words only', () => {
+    expect(ids(items, 'beech')).toEqual(['sunset']);
+    expect(ids(items, 'invoise')).toEqual(['invoice']);
+    expect(ids(items, 'sum')).toEqual([]);
+  });
+
+  it('requires every term to match', () => {
+    expect(ids(items, 'sunset field')).toEqual([]);
+    expect(ids(items, 'sun field')).toEqual(['sunflower']);
+  });
+});
+
+describe('searchItems filters', () => {
+  const day = (year: number, month: number, date = 1) => new Date(year, month - 1, date).getTime();
+  const items = [
+    item('beach', 'Beach', { tags: ['Summer', 'Café'], extension: 'JPG', size: '4.2 MB', createdAt: day(2024, 1), metadata: { capturedAt: day(2019, 7, 14) } }),
+    item('clip', 'Clip', { type: MediaType.VIDEO, tags: ['Summer'], extension: 'mp4', size: '1.5 GB', createdAt: day(2023, 8, 2) }),
+    item('report', 'Report', { type: MediaType.DOCUMENT, extension: 'pdf', size: '300 KB', createdAt: day(2022, 3, 9), isFavorite: true })
+  ];
+
+  it('keeps items carrying every tag, ignoring case and accents', () => {
+    expect(ids(items, 'tag:summer')).toEqual(['beach', 'clip']);
+    expect(ids(items, 'tag:summer tag:cafe')).toEqual(['beach']);
+    expect(ids(items, 'tag:"summer"')).toEqual(['beach', 'clip']);
+  });
+
+  it('filters by type, accepting plurals and aliases', () => {
+    expect(ids(items, 'type:videos')).toEqual(['clip']);
+    expect(ids(items, 'type:photo')).toEqual(['beach']);
+    expect(ids(items, 'type:video type:doc')).toEqual(['clip', 'report']);
+  });
+
+  it('searches an unknown type as plain text', () => {
+    expect(parseQuery('type:spreadsheet')).toMatchObject({ types: [], terms: ['type', 'spreadsheet'] });
+  });
+
+  it('filters by extension with or without the dot', () => {
+    expect(ids(items, 'ext:jpg')).toEqual(['beach']);
+    expect(ids(items, 'ext:.PDF')).toEqual(['report']);
+  });
+
+  it('filters by size, defaulting to megabytes', () => {
+    expect(ids(items, 'size:>1gb')).toEqual(['clip']);
+    expect(ids(items, 'size:<1')).toEqual(['report']);
+    expect(ids(items, 'size:>1 size:<5')).toEqual(['beach']);
+  });
+
+  it('filters on the capture date, falling back to when the item was added', () => {
+    expect(ids(items, 'before:2020')).toEqual(['beach']);
+    expect(ids(items, 'after:2023-06')).toEqual(['clip']);
+    expect(ids(items, 'after:2019-07-13 before:2019-07-15')).toEqual(['beach']);
+  });
+
+  it('treats date bounds as exclusive of the named period', () => {
+    expect(ids(items, 'after:2023-08-02')).toEqual([]);
+    expect(ids(items, 'after:2023-08-01')).toEqual(['clip']);
+    expect(ids(items, 'before:2022-03-09')).toEqual(['beach']);
+    expect(ids(items, 'before:2022-03-10')).toEqual(['beach', 'report']);
+  });
+
+  it('keeps favorites only with is:favorite', () => {
+    expect(ids(items, 'is:fav')).toEqual(['report']);
+  });
+});
@@ -0,0 +1,396 @@
+import { MediaItem, MediaType, SearchDocRecord, SmartAlbum } from '../types';
+import { getSearchIndex, saveSearchIndexChanges, SearchIndexChanges } from './db';
+import { getCaptureDate } from './mediaInfoService';
+
+// How much a term found in each field counts towards an item's relevance.
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2.5,
+  originalFileName: 1.5,
+  extension: 1,
+  description: 1
+};
+
+const PREFIX_FACTOR = 0.7;
+const FUZZY_FACTOR = 0.4;
+const PHRASE_BONUS = 2;
+const MIN_FUZZY_LENGTH = 4;
+
+// In-memory mirror of the persisted index: term -> (item id -> weight), and item id -> its doc.
+const postings = new Map<string, Map<string, number>>();
+const docs = new Map<string, SearchDocRecord>();
+let sortedTerms: string[] | null = null;
+
+export const normalize = (text: string) =>
+  text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const tokenize = (text: string): string[] => normalize(text).match(/[\p{L}\p{N}]+/gu) || [];
+
+const signatureOf = (item: MediaItem) =>
+  JSON.stringify([item.title, item.description || '', item.tags, item.originalFileName || '', item.extension || '']);
+
+const termsOf = (item: MediaItem): Record<string, number> => {
+  const terms: Record<string, number> = {};
+  const add = (text: string | undefined, weight: number) => {
+    if (!text) return;
+    tokenize(text).forEach(term => {
+      terms[term] = (terms[term] || 0) + weight;
+    });
+  };
+  add(item.title, FIELD_WEIGHTS.title);
+  item.tags.forEach(tag => add(tag, FIELD_WEIGHTS.tags));
+  add(item.originalFileName, FIELD_WEIGHTS.originalFileName);
+  add(item.extension, FIELD_WEIGHTS.extension);
+  add(item.description, FIELD_WEIGHTS.description);
+  return terms;
+};
+
+const getSortedTerms = () => {
+  if (!sortedTerms) sortedTerms = [...postings.keys()].sort();
+  return sortedTerms;
+};
+
+// Unlinks a doc's postings in memory and records which terms were touched.
+const unlinkDoc = (doc: SearchDocRecord, touched: Set<string>) => {
+  Object.keys(doc.terms).forEach(term => {
+    postings.get(term)?.delete(doc.id);
+    touched.add(term);
+  });
+  docs.delete(doc.id);
+};
+
+const persistTouched = (touched: Set<string>, changes: Omit<SearchIndexChanges, 'putTerms' | 'deleteTerms'>) => {
+  const putTerms: SearchIndexChanges['putTerms'] = [];
+  const deleteTerms: string[] = [];
+  touched.forEach(term => {
+    const entries = postings.get(term);
+    if (entries && entries.size > 0) {
+      putTerms.push({ term, postings: Object.fromEntries(entries) });
+    } else {
+      postings.delete(term);
+      deleteTerms.push(term);
+    }
+  });
+  sortedTerms = null;
+  return saveSearchIndexChanges({ ...changes, putTerms, deleteTerms });
+};
+
+export const loadSearchIndex = async (): Promise<void> => {
+  const stored = await getSearchIndex();
+  postings.clear();
+  docs.clear();
+  stored.terms.forEach(record => postings.set(record.term, new Map(Object.entries(record.postings))));
+  stored.docs.forEach(doc => docs.set(doc.id, doc));
+  sortedTerms = null;
+};
+
+// (Re)indexes the given items. Items whose searchable text is unchanged are skipped, so this
+// is cheap to call after any edit.
+export const indexItems = async (items: MediaItem[]): Promise<void> => {
+  const touched = new Set<string>();
+  const putDocs: SearchDocRecord[] = [];
+
+  items.forEach(item => {
+    const signature = signatureOf(item);
+    const existing = docs.get(item.id);
+    if (existing?.signature === signature) return;
+    if (existing) unlinkDoc(existing, touched);
+
+    const doc: SearchDocRecord = { id: item.id, signature, terms: termsOf(item) };
+    Object.entries(doc.terms).forEach(([term, weight]) => {
+      if (!postings.has(term)) postings.set(term, new Map());
+      postings.get(term)!.set(item.id, weight);
+      touched.add(term);
+    });
+    docs.set(item.id, doc);
+    putDocs.push(doc);
+  });
+
+  if (putDocs.length === 0) return;
+  await persistTouched(touched, { putDocs, deleteDocs: [] });
+};
+
+export const removeFromIndex = async (ids: string[]): Promise<void> => {
+  const touched = new Set<string>();
+  const deleteDocs = ids.filter(id => docs.has(id));
+  deleteDocs.forEach(id => unlinkDoc(docs.get(id)!, touched));
+  if (deleteDocs.length === 0) return;
+  await persistTouched(touched, { putDocs: [], deleteDocs });
+};
+
+// Brings the index in line with the vault after startup: indexes new or edited items and
+// drops docs for items that no longer exist.
+export const syncSearchIndex = async (items: MediaItem[]): Promise<void> => {
+  const ids = new Set(items.map(item => item.id));
+  await removeFromIndex([...docs.keys()].filter(id => !ids.has(id)));
+  await indexItems(items);
+};
+
+export interface ParsedQuery {
+  terms: string[];
+  phrases: string[];
+  tags: string[];
+  types: MediaType[];
+  extensions: string[];
+  before?: number;
+  after?: number;
+  favoritesOnly: boolean;
+  minSize?: number;
+  maxSize?: number;
+}
+
+const TYPE_ALIASES: Record<string, MediaType> = {
+  image: MediaType.IMAGE,
+  images: MediaType.IMAGE,
+  photo: MediaType.IMAGE,
+  photos: MediaType.IMAGE,
+  video: MediaType.VIDEO,
+  videos: MediaType.VIDEO,
+  document: MediaType.DOCUMENT,
+  documents: MediaType.DOCUMENT,
+  doc: MediaType.DOCUMENT,
+  file: MediaType.DOCUMENT,
+  files: MediaType.DOCUMENT
+};
+
+// Accepts YYYY, YYYY-MM or YYYY-MM-DD and returns where that period starts or ends.
+const parseDateBound = (value: string, edge: 'start' | 'end'): number | undefined => {
+  const match = value.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/);
+  if (!match) return undefined;
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : undefined;
+  const day = match[3] ? Number(match[3]) : undefined;
+
+  if (edge === 'start') return new Date(year, month ?? 0, day ?? 1).getTime();
+  if (day !== undefined) return new Date(year, month!, day + 1).getTime();
+  if (month !== undefined) return new Date(year, month + 1, 1).getTime();
+  return new Date(year + 1, 0, 1).getTime();
+};
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+// Reads sizes written as "12.5 MB" (how items store them) or "12.5mb" (how queries do).
+export const parseSize = (value: string | undefined): number | undefined => {
+  const match = value?.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/);
+  if (!match) return undefined;
+  return Number(match[1]) * SIZE_UNITS[match[2] || 'mb'];
+};
+
+// Parses free text plus `tag:`, `type:`, `ext:`, `before:`, `after:`, `size:>10mb`, `size:<1gb`,
+// `is:favorite` and "quoted phrases". Unknown `key:value` pairs are searched as plain text.
+export const parseQuery = (query: string): ParsedQuery => {
+  const parsed: ParsedQuery = { terms: [], phrases: [], tags: [], types: [], extensions: [], favoritesOnly: false };
+  const pattern = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g;
+
+  for (const match of query.matchAll(pattern)) {
+    const key = (match[1] || match[3])?.toLowerCase();
+    const value = match[2] ?? match[4];
+
+    if (key !== undefined && value !== undefined) {
+      if (key === 'tag') {
+        parsed.tags.push(normalize(value.trim()));
+        continue;
+      }
+      if (key === 'type' && TYPE_ALIASES[value.toLowerCase()]) {
+        parsed.types.push(TYPE_ALIASES[value.toLowerCase()]);
+        continue;
+      }
+      if (key === 'ext') {
+        parsed.extensions.push(normalize(value.replace(/^\./, '')));
+        continue;
+      }
+      if (key === 'before' && parseDateBound(value, 'start') !== undefined) {
+        parsed.before = parseDateBound(value, 'start');
+        continue;
+      }
+      if (key === 'after' && parseDateBound(value, 'end') !== undefined) {
+        parsed.after = parseDateBound(value, 'end');
+        continue;
+      }
+      if (key === 'size' && /^[<>]/.test(value) && parseSize(value.slice(1)) !== undefined) {
+        if (value[0] === '>') parsed.minSize = parseSize(value.slice(1));
+        else parsed.maxSize = parseSize(value.slice(1));
+        continue;
+      }
+      if (key === 'is' && ['favorite', 'favourite', 'fav', 'liked'].includes(value.toLowerCase())) {
+        parsed.favoritesOnly = true;
+        continue;
+      }
+      parsed.terms.push(...tokenize(match[0]));
+      continue;
+    }
+
+    if (match[5] !== undefined) {
+      const phrase = tokenize(match[5]).join(' ');
+      if (phrase) parsed.phrases.push(phrase);
+      continue;
+    }
+    parsed.terms.push(...tokenize(match[6]));
+  }
+  return parsed;
+};
+
+// Optimal string alignment distance, abandoned as soon as it is certain to exceed `max`.
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+// Maps a query term to the index terms it matches and how strongly: exact, prefix, or a typo away.
+const expandTerm = (queryTerm: string): Map<string, number> => {
+  const matches = new Map<string, number>();
+  const terms = getSortedTerms();
+
+  if (postings.has(queryTerm)) matches.set(queryTerm, 1);
+
+  let lo = 0;
+  let hi = terms.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (terms[mid] < queryTerm) lo = mid + 1;
+    else hi = mid;
+  }
+  for (let i = lo; i < terms.length && terms[i].startsWith(queryTerm); i++) {
+    if (!matches.has(terms[i])) matches.set(terms[i], PREFIX_FACTOR);
+  }
+
+  if (queryTerm.length >= MIN_FUZZY_LENGTH) {
+    const maxDistance = queryTerm.length >= 8 ? 2 : 1;
+    terms.forEach(term => {
+      if (matches.has(term)) return;
+      if (editDistance(queryTerm, term, maxDistance) <= maxDistance) matches.set(term, FUZZY_FACTOR);
+    });
+  }
+  return matches;
+};
+
+// The item's tokens separated and surrounded by single spaces, so a phrase padded the same way
+// only matches whole tokens: " red car " is not found in " scared cart ".
+const searchableText = (item: MediaItem) =>
+  ` ${tokenize([item.title, item.description, ...item.tags, item.originalFileName].filter(Boolean).join(' ')).join(' ')} `;
+
+// Dates are compared with the one the timeline files the item under, so `after:2023` finds what
+// the grid shows in 2023 rather than what was uploaded then.
+export const matchesFilters = (item: MediaItem, query: ParsedQuery) => {
+  if (query.favoritesOnly && !item.isFavorite) return false;
+  if (query.types.length > 0 && !query.types.includes(item.type)) return false;
+  if (query.extensions.length > 0 && !query.extensions.includes(normalize(item.extension || ''))) return false;
+  if (query.before !== undefined && getCaptureDate(item) >= query.before) return false;
+  if (query.after !== undefined && getCaptureDate(item) < query.after) return false;
+  if (query.minSize !== undefined || query.maxSize !== undefined) {
+    const size = parseSize(item.size) ?? 0;
+    if (query.minSize !== undefined && size < query.minSize) return false;
+    if (query.maxSize !== undefined && size > query.maxSize) return false;
+  }
+  if (query.tags.length > 0) {
+    const itemTags = item.tags.map(tag => normalize(tag));
+    if (!query.tags.every(tag => itemTags.includes(tag))) return false;
+  }
+  return true;
+};
+
+export interface SearchResult {
+  item: MediaItem;
+  score: number;
+  matchedTerms: string[];
+}
+
+// Every free term and phrase must match (AND); filters narrow the set. Results are ordered
+// by relevance, newest first among equals.
+export const searchItems = (items: MediaItem[], query: string | ParsedQuery): SearchResult[] => {
+  const parsed = typeof query === 'string' ? parseQuery(query) : query;
+  const total = Math.max(1, docs.size);
+  const expansions = parsed.terms.map(expandTerm);
+  const results: SearchResult[] = [];
+
+  items.forEach(item => {
+    if (!matchesFilters(item, parsed)) return;
+
+    let score = 0;
+    const matchedTerms: string[] = [];
+    for (const expansion of expansions) {
+      let best = 0;
+      expansion.forEach((quality, term) => {
+        const entries = postings.get(term);
+        const weight = entries?.get(item.id);
+        if (!entries || !weight) return;
+        const idf = Math.log(1 + total / entries.size);
+        best = Math.max(best, weight * quality * idf);
+        matchedTerms.push(term);
+      });
+      if (best === 0) return;
+      score += best;
+    }
+
+    if (parsed.phrases.length > 0) {
+      const text = searchableText(item);
+      if (!parsed.phrases.every(phrase => text.includes(` ${phrase} `))) return;
+      score += PHRASE_BONUS * parsed.phrases.length;
+      parsed.phrases.forEach(phrase => matchedTerms.push(...phrase.split(' ')));
+    }
+
+    results.push({ item, score, matchedTerms });
+  });
+
+  return results.sort((a, b) => b.score - a.score || b.item.createdAt - a.item.createdAt);
+};
+
+// A smart album is its saved query narrowed further by its structured filters. Type and
+// extension lists are alternatives, so a non-empty filter list replaces the query's own.
+export const smartAlbumQuery = (album: SmartAlbum): ParsedQuery => {
+  const parsed = parseQuery(album.query);
+  const { filters } = album;
+  const extensions = filters.extensions.map(ext => normalize(ext.replace(/^\./, '')));
+  return {
+    ...parsed,
+    types: filters.types.length > 0 ? filters.types : parsed.types,
+    tags: [...parsed.tags, ...filters.tags.map(tag => normalize(tag))],
+    extensions: extensions.length > 0 ? extensions : parsed.extensions,
+    after: filters.after ?? parsed.after,
+    before: filters.before ?? parsed.before,
+    favoritesOnly: parsed.favoritesOnly || filters.favoritesOnly,
+    minSize: filters.minSize ?? parsed.minSize,
+    maxSize: filters.maxSize ?? parsed.maxSize
+  };
+};
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Splits text into plain and highlighted runs, marking every word that matched the query.
+export const highlightText = (text: string, matchedTerms: string[]): HighlightSegment[] => {
+  const terms = new Set(matchedTerms);
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(/[\p{L}\p{N}\u0300-\u036f]+/gu)) {
+    if (!terms.has(tokenize(match[0]).join(''))) continue;
+    const start = match.index!;
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: match[0], match: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+};
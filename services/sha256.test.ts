@@ -0,0 +1,30 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { createSha256, sha256Stream } from './sha256';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const reference = (bytes: Uint8Array) => createHash('sha256').update(bytes).digest('hex');
+
+const sample = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff);
+
+describe('sha256', () => {
+  it('matches the standard digest around block and padding boundaries', () => {
+    [0, 1, 55, 56, 63, 64, 65, 119, 120, 1000].forEach(length => {
+      const hash = createSha256();
+      hash.update(sample(length));
+      expect(hex(hash.digest())).toBe(reference(sample(length)));
+    });
+  });
+
+  it('gives the same digest however the input is split', () => {
+    const bytes = sample(5000);
+    const hash = createSha256();
+    for (let offset = 0; offset < bytes.length; offset += 37) hash.update(bytes.subarray(offset, offset + 37));
+    expect(hex(hash.digest())).toBe(reference(bytes));
+  });
+
+  it('hashes a blob stream', async () => {
+    const bytes = sample(200000);
+    expect(hex(await sha256Stream(new Blob([bytes])))).toBe(reference(bytes));
+  });
+});
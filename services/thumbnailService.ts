@@ -0,0 +1,102 @@
+import { ImageEdits, MediaItem, MediaType } from '../types';
+import { getMediaBlob, saveThumbnail } from './db';
+import { hasEdits, renderEdits } from './editService';
+
+const MAX_EDGE = 480;
+const QUALITY = 0.8;
+const VIDEO_TIMEOUT_MS = 15000;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string): Promise<Blob | null> =>
+  new Promise(resolve => canvas.toBlob(resolve, type, QUALITY));
+
+const drawScaled = async (source: CanvasImageSource, width: number, height: number): Promise<Blob | null> => {
+  const scale = Math.min(1, MAX_EDGE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  // Browsers without a WebP encoder silently hand back a PNG, which is larger than a JPEG.
+  const webp = await canvasToBlob(canvas, 'image/webp');
+  if (webp?.type === 'image/webp') return webp;
+  return canvasToBlob(canvas, 'image/jpeg');
+};
+
+const thumbnailFromImage = async (blob: Blob, edits?: ImageEdits): Promise<Blob | null> => {
+  const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  try {
+    if (hasEdits(edits)) {
+      const edited = renderEdits(bitmap, bitmap.width, bitmap.height, edits, MAX_EDGE);
+      return edited ? await drawScaled(edited, edited.width, edited.height) : null;
+    }
+    return await drawScaled(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Seeks a detached <video> to a frame a little way in (skipping black lead-in frames) and grabs it.
+const posterFromVideo = (blob: Blob): Promise<Blob | null> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(blob);
+    const timer = setTimeout(() => finish(() => reject('Timed out reading video frame')), VIDEO_TIMEOUT_MS);
+
+    const finish = (settle: () => void) => {
+      clearTimeout(timer);
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+      settle();
+    };
+
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => {
+      const duration = Number.isFinite(video.duration) ? video.duration : 0;
+      video.currentTime = Math.min(1, duration / 10);
+    };
+    video.onseeked = () => {
+      drawScaled(video, video.videoWidth, video.videoHeight)
+        .then(poster => finish(() => resolve(poster)))
+        .catch(err => finish(() => reject(err)));
+    };
+    video.onerror = () => finish(() => reject('Error decoding video'));
+    video.src = url;
+  });
+};
+
+// Thumbnails of edited images show the edits, like every other view of them.
+export const generateThumbnail = async (blob: Blob, type: MediaType, edits?: ImageEdits): Promise<Blob | null> => {
+  if (type === MediaType.IMAGE) return thumbnailFromImage(blob, edits);
+  if (type === MediaType.VIDEO) return posterFromVideo(blob);
+  return null;
+};
+
+export const needsThumbnail = (item: MediaItem) =>
+  !item.thumbnailUrl && !!item.blobId && (item.type === MediaType.IMAGE || item.type === MediaType.VIDEO);
+
+// Generates thumbnails for stored items that predate the pipeline. Runs one item at a time so
+// decoding large originals never piles up, and reports each result as soon as it is saved.
+export const backfillThumbnails = async (
+  items: MediaItem[],
+  onThumbnail: (id: string, thumbnail: Blob) => void,
+  isCancelled: () => boolean = () => false
+): Promise<void> => {
+  for (const item of items.filter(needsThumbnail)) {
+    if (isCancelled()) return;
+    try {
+      const original = await getMediaBlob(item.blobId!);
+      if (!original) continue;
+      const thumbnail = await generateThumbnail(original, item.type, item.edits);
+      if (!thumbnail) continue;
+      await saveThumbnail(item.id, thumbnail);
+      if (!isCancelled()) onThumbnail(item.id, thumbnail);
+    } catch (error) {
+      console.error("Thumbnail Backfill Error:", item.id, error);
+    }
+  }
+};
@@ -0,0 +1,439 @@
+import { Album, AppSettings, MediaItem, MediaType, UploadEntry } from '../types';
+import { addItemsToAlbum, addMediaItems, deleteMediaItems, deleteUpload, getAllUploads, getMediaItem, getMediaItemsByHash, getUploadParts, saveUploadPart, saveUploads } from './db';
+import { generateThumbnail } from './thumbnailService';
+import { hashFile } from './hashService';
+import { extractMediaInfo } from './mediaInfoService';
+import { queueAnalysis } from './analysisQueueService';
+import { addTags } from './metadataService';
+
+// The upload queue lives outside React so a batch survives the upload modal closing, and in
+// IndexedDB so it survives a reload. Each file is fingerprinted once, then copied into the
+// vault chunk by chunk; every chunk is persisted with the new offset, which is what makes a
+// paused, failed or interrupted transfer resumable. The file itself is only held in memory, so
+// the vault never stores it twice; after a reload, adding the same file again picks the transfer
+// up where it stopped.
+
+const MAX_CONCURRENT = 2;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 2000;
+const MIN_CHUNK_BYTES = 64 * 1024;
+const MAX_CHUNK_BYTES = 4 * 1024 * 1024;
+const THROUGHPUT_WINDOW_MS = 3000;
+const NOTIFY_INTERVAL_MS = 150;
+const NEEDS_FILE = 'Add this file again to resume';
+
+// Bytes per second for each speed limit; 0 means unthrottled.
+const SPEED_LIMITS: Record<AppSettings['uploadSpeedLimit'], number> = {
+  unlimited: 0,
+  '10mbps': 10 * 125000,
+  '5mbps': 5 * 125000,
+  '1mbps': 125000
+};
+
+export interface UploadSettings {
+  speedLimit: AppSettings['uploadSpeedLimit'];
+  wifiOnly: boolean;
+  autoTagging: boolean;
+}
+
+export interface UploadSnapshot {
+  entries: UploadEntry[];
+  // Measured over the last few seconds across all transfers.
+  bytesPerSecond: number;
+  // Why queued uploads are held back, e.g. waiting for Wi-Fi; null while they may run.
+  blockedReason: string | null;
+}
+
+export interface UploadSource {
+  file: File;
+  // Album to add the stored item to, and tags to give it on top of the usual ones.
+  albumId?: string;
+  tags?: string[];
+}
+
+// `replacedId` is the vault item the upload superseded; the new item reuses its id. `album` is
+// the album the item was added to, as saved.
+export type UploadCompleteHandler = (item: MediaItem, replacedId?: string, album?: Album) => void;
+
+let settings: UploadSettings = { speedLimit: 'unlimited', wifiOnly: false, autoTagging: false };
+const entries = new Map<string, UploadEntry>();
+// Entries with a transfer loop running, including one sleeping before a retry.
+const active = new Set<string>();
+const listeners = new Set<(snapshot: UploadSnapshot) => void>();
+const samples: { startedAt: number; bytes: number }[] = [];
+const bucket = { tokens: 0, updatedAt: 0 };
+let onComplete: UploadCompleteHandler | null = null;
+let started = false;
+let notifyTimer: number | null = null;
+// Duplicate checks in progress, by content hash. Checking and claiming a hash one file at a
+// time is what stops two identical files prepared together from both passing as originals.
+const hashChecks = new Map<string, Promise<void>>();
+
+export const getMediaType = (mimeType: string) =>
+  mimeType.startsWith('image/') ? MediaType.IMAGE : mimeType.startsWith('video/') ? MediaType.VIDEO : MediaType.DOCUMENT;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ---- Network ----
+
+// The Network Information API is Chromium-only; elsewhere the connection type is unknown and
+// "Wi-Fi only" cannot be enforced, so uploads simply proceed.
+type Connection = EventTarget & { type?: string };
+
+const getConnection = () => (navigator as Navigator & { connection?: Connection }).connection;
+
+export const canDetectNetworkType = () => !!getConnection()?.type;
+
+const getBlockedReason = () =>
+  settings.wifiOnly && getConnection()?.type === 'cellular' ? 'Waiting for Wi-Fi' : null;
+
+// ---- Throughput and throttling ----
+
+const measureThroughput = () => {
+  const now = performance.now();
+  while (samples.length && now - samples[0].startedAt > THROUGHPUT_WINDOW_MS) samples.shift();
+  if (!samples.length) return 0;
+  const bytes = samples.reduce((sum, sample) => sum + sample.bytes, 0);
+  return bytes / (Math.max(1000, now - samples[0].startedAt) / 1000);
+};
+
+// Token bucket shared by all transfers, holding at most one second of the allowed rate. Takers
+// may overdraw it and then wait out the debt, so chunks larger than the bucket still work.
+const throttle = async (bytes: number) => {
+  const rate = SPEED_LIMITS[settings.speedLimit];
+  if (!rate) return;
+  const now = performance.now();
+  bucket.tokens = Math.min(rate, bucket.tokens + ((now - bucket.updatedAt) / 1000) * rate);
+  bucket.updatedAt = now;
+  bucket.tokens -= bytes;
+  if (bucket.tokens < 0) await sleep((-bucket.tokens / rate) * 1000);
+};
+
+// Roughly four chunks a second when throttled keeps progress smooth; unthrottled transfers
+// use large chunks to keep the number of writes down.
+const chunkSize = () => {
+  const rate = SPEED_LIMITS[settings.speedLimit];
+  return rate ? Math.min(MAX_CHUNK_BYTES, Math.max(MIN_CHUNK_BYTES, Math.round(rate / 4))) : MAX_CHUNK_BYTES;
+};
+
+// ---- State ----
+
+const snapshot = (): UploadSnapshot => ({
+  entries: [...entries.values()].sort((a, b) => a.createdAt - b.createdAt),
+  bytesPerSecond: measureThroughput(),
+  blockedReason: getBlockedReason()
+});
+
+const notify = () => {
+  if (notifyTimer !== null) return;
+  notifyTimer = window.setTimeout(() => {
+    notifyTimer = null;
+    const current = snapshot();
+    listeners.forEach(listener => listener(current));
+  }, NOTIFY_INTERVAL_MS);
+};
+
+const update = (id: string, patch: Partial<UploadEntry>) => {
+  const entry = entries.get(id);
+  if (!entry) return undefined;
+  const next = { ...entry, ...patch };
+  entries.set(id, next);
+  notify();
+  return next;
+};
+
+const persist = (entry: UploadEntry | undefined) => {
+  if (entry) saveUploads([entry]).catch(console.error);
+};
+
+const isRunning = (id: string) => entries.get(id)?.status === 'uploading';
+
+export const subscribeUploads = (listener: (snapshot: UploadSnapshot) => void) => {
+  listeners.add(listener);
+  listener(snapshot());
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// ---- Pipeline ----
+
+const withHashCheck = async <T>(contentHash: string, task: () => Promise<T>): Promise<T> => {
+  const previous = hashChecks.get(contentHash) || Promise.resolve();
+  const result = previous.then(task);
+  const done = result.then(() => undefined, () => undefined);
+  hashChecks.set(contentHash, done);
+  try {
+    return await result;
+  } finally {
+    if (hashChecks.get(contentHash) === done) hashChecks.delete(contentHash);
+  }
+};
+
+// Thumbnail, fingerprints and capture metadata, computed once and saved with the entry. A
+// file whose content is already in the vault, or already claimed by another upload, stops as
+// 'duplicate'.
+const prepare = async (entry: UploadEntry & { file: Blob }) => {
+  const thumbnail = await generateThumbnail(entry.file, entry.type).catch((err) => {
+    console.error("Thumbnail Error:", err);
+    return null;
+  });
+  const hashes = await hashFile(entry.file, entry.type === MediaType.IMAGE ? thumbnail || entry.file : undefined).catch((err) => {
+    console.error("Hash Error:", err);
+    return null;
+  });
+  const metadata = await extractMediaInfo(entry.file, entry.type).catch((err) => {
+    console.error("Metadata Error:", err);
+    return {};
+  });
+
+  const save = async (duplicateOf?: string, isDuplicate = false) => {
+    const next = update(entry.id, {
+      prepared: true,
+      thumbnail: thumbnail || undefined,
+      contentHash: hashes?.contentHash,
+      perceptualHash: hashes?.perceptualHash,
+      metadata,
+      duplicateOf,
+      ...(isDuplicate ? { status: 'duplicate' as const } : {})
+    });
+    if (next) await saveUploads([next]);
+    return next;
+  };
+  if (!hashes || entry.duplicateChoice) return save();
+
+  const { contentHash } = hashes;
+  return withHashCheck(contentHash, async () => {
+    const [existing] = await getMediaItemsByHash(contentHash);
+    const claimed = [...entries.values()].some(other => other.id !== entry.id && other.contentHash === contentHash);
+    return save(existing?.id, !!existing || claimed);
+  });
+};
+
+const transfer = async (id: string) => {
+  let entry = entries.get(id);
+  while (entry?.file && entry.bytesDone < entry.size) {
+    const offset = entry.bytesDone;
+    const end = Math.min(entry.size, offset + chunkSize());
+    await throttle(end - offset);
+    if (!isRunning(id)) return;
+    if (getBlockedReason()) {
+      persist(update(id, { status: 'queued' }));
+      return;
+    }
+
+    const startedAt = performance.now();
+    const part = new Blob([await entry.file.slice(offset, end).arrayBuffer()]);
+    const current = entries.get(id);
+    if (!current) return;
+    await saveUploadPart({ ...current, bytesDone: end }, offset, part);
+    // A cancel that landed while the chunk was in flight was written first; undo the re-save.
+    if (!entries.has(id)) {
+      await deleteUpload(id);
+      return;
+    }
+    samples.push({ startedAt, bytes: end - offset });
+    entry = update(id, { bytesDone: end });
+  }
+};
+
+const finish = async (id: string) => {
+  const entry = entries.get(id)!;
+  const parts = await getUploadParts(id);
+  const data = new Blob(parts, { type: entry.mimeType });
+  if (data.size !== entry.size) {
+    // The saved chunks and offset disagree, e.g. after a write was cut short; copy it again.
+    await deleteUpload(id);
+    await saveUploads([update(id, { bytesDone: 0 })!]);
+    throw new Error('Transfer was incomplete and has been restarted');
+  }
+
+  const ext = entry.name.split('.').pop() || '';
+  const replaced = entry.duplicateChoice === 'replace' && entry.duplicateOf ? await getMediaItem(entry.duplicateOf) : undefined;
+  const replacedId = replaced?.id;
+  const content = {
+    url: data,
+    thumbnailUrl: entry.thumbnail,
+    type: entry.type,
+    size: `${(entry.size / (1024 * 1024)).toFixed(1)} MB`,
+    extension: ext,
+    originalFileName: entry.name,
+    metadata: entry.metadata,
+    contentHash: entry.contentHash,
+    perceptualHash: entry.perceptualHash
+  };
+  // A replacement only swaps the file: title, description, tags, favourite, counters and edits
+  // (for a file of the same kind) are the user's and carry over.
+  const item: MediaItem = replaced
+    ? {
+      ...replaced,
+      ...content,
+      blobId: undefined,
+      tags: addTags(replaced.tags, entry.tags || []),
+      edits: replaced.type === entry.type ? replaced.edits : undefined,
+      deletedAt: undefined
+    }
+    : {
+      ...content,
+      id: entry.id,
+      title: entry.name,
+      // No description until analysis writes one. Auto-tagging fills in the tags as well, from
+      // the analysis queue once the item is stored.
+      tags: addTags(settings.autoTagging ? [] : [ext.toUpperCase(), 'Creative'], entry.tags || []),
+      isFavorite: false,
+      createdAt: Date.now()
+    };
+
+  // The item keeps the entry's id (or the replaced one), so finishing again after a crash
+  // between these steps overwrites rather than duplicates.
+  if (replacedId) await deleteMediaItems([replacedId]);
+  const [stored] = await addMediaItems([item]);
+  const album = entry.albumId ? await addItemsToAlbum(entry.albumId, [stored.id]) : undefined;
+  await deleteUpload(id);
+  entries.delete(id);
+  notify();
+  onComplete?.(stored, replacedId, album);
+  // A replacement keeps the title and tags it already had.
+  if (settings.autoTagging && !replaced) queueAnalysis([stored.id]).catch(console.error);
+};
+
+const run = async (id: string) => {
+  const entry = update(id, { status: 'uploading', error: undefined });
+  if (!entry) return;
+  const { file } = entry;
+  if (!file && (!entry.prepared || entry.bytesDone < entry.size)) {
+    persist(update(id, { status: 'failed', error: NEEDS_FILE }));
+    return;
+  }
+  try {
+    if (!entry.prepared) {
+      const prepared = await prepare({ ...entry, file: file! });
+      if (prepared?.status !== 'uploading') return;
+    }
+    await transfer(id);
+    if (isRunning(id)) await finish(id);
+  } catch (err) {
+    console.error("Upload Error", err);
+    const current = entries.get(id);
+    if (!current) return;
+    const attempts = current.attempts + 1;
+    const message = err instanceof Error ? err.message : String(err);
+    if (attempts >= MAX_ATTEMPTS) {
+      persist(update(id, { status: 'failed', attempts, error: message }));
+      return;
+    }
+    update(id, { attempts, error: `Retrying: ${message}` });
+    await sleep(RETRY_BASE_MS * 2 ** (attempts - 1));
+    if (isRunning(id)) persist(update(id, { status: 'queued' }));
+  }
+};
+
+const pump = () => {
+  notify();
+  if (getBlockedReason()) return;
+  for (const entry of snapshot().entries) {
+    if (active.size >= MAX_CONCURRENT) break;
+    if (entry.status !== 'queued' || active.has(entry.id)) continue;
+    active.add(entry.id);
+    run(entry.id).finally(() => {
+      active.delete(entry.id);
+      pump();
+    });
+  }
+};
+
+// ---- Public controls ----
+
+// Loads the persisted queue once and starts working through it. Transfers that were running
+// when the page went away pick up again from their last saved chunk.
+export const startUploads = async (handler: UploadCompleteHandler) => {
+  onComplete = handler;
+  if (started) return;
+  started = true;
+  (await getAllUploads()).forEach(entry => {
+    // Entries added again before the stored queue finished loading already have their file.
+    if (!entries.has(entry.id)) entries.set(entry.id, entry.status === 'uploading' ? { ...entry, status: 'queued' } : entry);
+  });
+  getConnection()?.addEventListener('change', pump);
+  pump();
+};
+
+export const configureUploads = (next: UploadSettings) => {
+  settings = next;
+  pump();
+};
+
+// A file matching an upload that lost its file in a reload is handed back to that upload,
+// which resumes from its last saved chunk instead of starting over.
+export const enqueueFiles = async (sources: UploadSource[]) => {
+  const now = Date.now();
+  const resumed: UploadEntry[] = [];
+  const added: UploadEntry[] = [];
+  sources.forEach(({ file, albumId, tags }, i) => {
+    const waiting = [...entries.values()].find(entry =>
+      !entry.file && entry.name === file.name && entry.size === file.size && entry.lastModified === file.lastModified
+    );
+    if (waiting) {
+      // Paused entries and duplicates awaiting a choice get the file back but stay as they are.
+      resumed.push(update(waiting.id, { file, ...(waiting.status === 'failed' ? { status: 'queued', attempts: 0, error: undefined } : {}) })!);
+      return;
+    }
+    added.push({
+      id: Math.random().toString(36).substr(2, 9),
+      file,
+      name: file.name || 'Untitled',
+      mimeType: file.type,
+      type: getMediaType(file.type),
+      size: file.size,
+      lastModified: file.lastModified,
+      bytesDone: 0,
+      status: 'queued',
+      attempts: 0,
+      createdAt: now + i,
+      ...(albumId ? { albumId } : {}),
+      ...(tags?.length ? { tags } : {})
+    });
+  });
+  await saveUploads([...resumed, ...added]);
+  added.forEach(entry => entries.set(entry.id, entry));
+  pump();
+};
+
+export const pauseUpload = (id: string) => {
+  const entry = entries.get(id);
+  if (entry?.status === 'queued' || entry?.status === 'uploading') persist(update(id, { status: 'paused' }));
+};
+
+export const resumeUpload = (id: string) => {
+  if (entries.get(id)?.status !== 'paused') return;
+  persist(update(id, { status: 'queued' }));
+  pump();
+};
+
+export const retryUpload = (id: string) => {
+  if (entries.get(id)?.status !== 'failed') return;
+  persist(update(id, { status: 'queued', attempts: 0, error: undefined }));
+  pump();
+};
+
+export const cancelUpload = async (id: string) => {
+  if (!entries.delete(id)) return;
+  notify();
+  await deleteUpload(id);
+};
+
+// Skip drops the file; keep stores it as a separate copy; replace swaps the vault item's
+// content in place. Only one upload may replace a given item; later ones are skipped.
+export const resolveDuplicate = (id: string, choice: 'skip' | 'keep' | 'replace') => {
+  const entry = entries.get(id);
+  if (entry?.status !== 'duplicate') return;
+  const alreadyReplaced = [...entries.values()].some(other =>
+    other.id !== id && other.duplicateChoice === 'replace' && other.duplicateOf === entry.duplicateOf
+  );
+  if (choice === 'skip' || (choice === 'replace' && (!entry.duplicateOf || alreadyReplaced))) {
+    cancelUpload(id).catch(console.error);
+    return;
+  }
+  persist(update(id, { status: 'queued', duplicateChoice: choice }));
+  pump();
+};
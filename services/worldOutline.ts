@@ -0,0 +1,63 @@
+// Coarse land outlines as [longitude, latitude] rings, bundled so the map works offline. Detail is
+// roughly a few degrees: enough to recognise coastlines at world and continent zoom, not streets.
+
+export type Ring = [number, number][];
+
+export const LAND: Ring[] = [
+  // North America
+  [[-168, 66], [-162, 70], [-156, 71.3], [-141, 69.6], [-128, 70], [-115, 68.5], [-95, 68], [-85, 69.5], [-82, 66], [-87, 64], [-94, 59], [-92, 57], [-82, 55], [-79, 52], [-77, 56], [-78, 62], [-73, 62], [-65, 60], [-61, 56], [-56, 52], [-60, 48], [-65, 49], [-64, 45], [-70, 43.5], [-70, 41.7], [-74, 40.5], [-76, 37], [-75.5, 35.2], [-81, 31.5], [-80, 27], [-80.4, 25.2], [-82, 26.5], [-83, 29.5], [-85, 30], [-89, 30], [-90, 29], [-94, 29.5], [-97, 27.5], [-97.5, 22], [-96, 19], [-94.5, 18.5], [-91, 19], [-90.5, 21], [-87, 21.5], [-88, 16], [-84, 15.5], [-83.5, 11], [-81.5, 9], [-79, 9.5], [-77.5, 8.5], [-80, 7.5], [-83, 8.5], [-86, 11.5], [-88, 13.5], [-92, 14.5], [-95, 16], [-100, 17], [-105.5, 20], [-105.5, 23], [-109, 26], [-112.5, 30], [-114.7, 31.5], [-112, 28.5], [-110, 24], [-109.5, 23], [-112, 25], [-114, 28], [-115, 30], [-117, 32.5], [-120.5, 34.5], [-122.5, 37.5], [-124, 40.5], [-124, 46], [-124.7, 48.4], [-123, 49], [-127, 50.5], [-130, 54.5], [-134, 58], [-140, 59.8], [-146, 60.5], [-152, 59], [-157, 57], [-162, 55], [-164, 54.5], [-158, 58], [-162, 60], [-165, 62.5], [-164, 64.5]],
+  // Greenland
+  [[-73, 78], [-60, 82], [-30, 83.5], [-20, 82], [-18, 77], [-22, 70], [-32, 68], [-40, 65], [-43, 60], [-48, 61], [-53, 66], [-55, 71], [-60, 76]],
+  // Baffin, Ellesmere and Victoria islands
+  [[-80, 73.5], [-72, 71], [-68, 70], [-62, 66.5], [-65, 63], [-72, 62.5], [-75, 64.5], [-73, 67], [-80, 69.5], [-88, 70], [-90, 73]],
+  [[-90, 76.5], [-80, 76.2], [-74, 78.5], [-62, 82], [-80, 83], [-92, 81]],
+  [[-118, 71], [-105, 73], [-101, 70], [-108, 68.8], [-117, 69]],
+  // Cuba and Hispaniola
+  [[-85, 21.9], [-82, 23.2], [-77, 22.5], [-74.2, 20.2], [-77.5, 19.9], [-80, 21.8]],
+  [[-74.5, 18.4], [-72.8, 19.9], [-70, 19.7], [-68.4, 18.6], [-71, 18]],
+  // South America
+  [[-77.5, 8.5], [-72, 12], [-67, 10.7], [-62, 10.5], [-60, 8.5], [-57, 6], [-52, 5], [-50, 1], [-48, -1], [-44, -2.5], [-39, -3.5], [-35, -5.5], [-35, -9], [-39, -13], [-39, -17.5], [-41, -22], [-44, -23], [-48.5, -26], [-49, -29], [-53, -33.5], [-57, -35], [-57, -38], [-62, -39], [-65, -41], [-64, -43], [-67.5, -46], [-66, -48], [-69, -51], [-68.5, -53], [-71, -54], [-74, -52.5], [-75.5, -48], [-74, -44], [-73.5, -37], [-71.5, -30], [-70.5, -24], [-70, -18], [-76, -14], [-80, -7], [-81, -5], [-80, -1], [-80, 1], [-78.5, 2.5], [-77, 4]],
+  // Iceland, Great Britain and Ireland
+  [[-22.5, 64], [-24, 65.5], [-22, 66.4], [-16, 66.5], [-13.5, 65.2], [-15, 64.3], [-18.8, 63.4]],
+  [[-5.7, 50], [1.4, 51.2], [1.7, 52.7], [0.2, 53.5], [-1.5, 55], [-2, 56], [-1.8, 57.6], [-3, 58.6], [-5, 58.6], [-6.2, 57.5], [-5.6, 56], [-5, 54.8], [-3.2, 54], [-3, 53.3], [-4.6, 53.3], [-4.2, 52.3], [-5.2, 51.7], [-3.5, 51.4]],
+  [[-6, 52.2], [-6.2, 54], [-5.6, 54.6], [-7.3, 55.3], [-8.5, 54.5], [-10, 53.5], [-10, 51.6], [-8, 51.6]],
+  // Eurasia
+  [[-9.5, 37], [-9, 39], [-9, 43], [-2, 43.5], [-1.5, 46], [-4.5, 48], [-1.5, 49.5], [1.5, 50.5], [4, 51.5], [5, 53], [8.5, 53.8], [8.5, 57], [10.5, 57.5], [10.5, 54.5], [14, 54], [19, 54.5], [21, 56.5], [24, 57.5], [23.5, 59.3], [29, 60], [23.5, 60], [21.5, 61.5], [21.5, 63.5], [25, 65.5], [22, 65.7], [18, 62.5], [17, 60.5], [19, 59.7], [16.5, 57], [14, 55.5], [11, 59], [8, 58], [5.5, 59], [5, 62], [10, 64], [14, 67], [18, 69.5], [25, 71], [31, 70], [33, 69], [41, 67], [40, 66], [35, 64.5], [37, 63.8], [44, 66], [44, 68.5], [53, 68.5], [60, 69.5], [66, 69.5], [69, 73], [73, 72.5], [80, 72.5], [87, 75], [98, 76.5], [104, 77.7], [113, 74], [128, 72.5], [140, 72.5], [150, 71.5], [160, 70], [170, 70], [180, 68.5], [180, 65], [178, 64.5], [173, 61], [170, 60], [163, 59.5], [162, 57], [156.5, 51], [156, 57], [160, 61], [152, 59], [143, 59.5], [137, 54], [141, 52.5], [140, 48], [135, 43.5], [132, 43], [129.5, 41], [129.5, 37], [129, 35], [126.5, 34.5], [126, 37.5], [124.5, 40], [121.5, 39], [122, 40.5], [118, 39], [119, 37], [122.5, 37], [120, 34.5], [122, 31], [120, 26], [116.5, 23], [110.5, 21], [108.5, 21.5], [106.5, 19.5], [109, 15], [109, 11.5], [105, 8.6], [104.7, 10.5], [100.5, 13.5], [99.5, 10], [100.5, 7.2], [103.5, 1.3], [101, 2.8], [98.5, 8], [98.5, 12], [97.5, 17], [94.5, 16], [94, 19], [92, 21.5], [90.5, 22], [86.5, 20], [80.2, 15.5], [80, 10], [77.5, 8], [76, 10], [73, 17], [72.8, 21], [70, 21], [68.5, 23.5], [66.5, 25.5], [61.5, 25.2], [57, 26], [56.3, 27], [54, 26.8], [51.5, 27.9], [50, 30], [48, 30], [48.5, 28], [50.5, 26], [51.5, 24.3], [54, 24.2], [56.4, 26.3], [56.5, 24.5], [59.8, 22.5], [58.5, 20.5], [55, 17], [52, 15.5], [48, 14], [45, 12.8], [43.3, 12.7], [42.5, 15], [40, 20], [38.5, 23.5], [35, 28], [34.9, 29.5], [34.3, 31.3], [35, 33], [36, 34.6], [36, 36.5], [35, 36.7], [32, 36.2], [30, 36.2], [27, 37], [26.5, 39.5], [26, 40.8], [23, 40.5], [24, 38], [22.5, 36.5], [21, 38.5], [19.5, 40.5], [19.5, 42], [15.5, 44], [13.5, 45.5], [12.3, 45.3], [12.5, 44], [14, 42], [16, 41.4], [18.5, 40.1], [17, 39], [16, 38], [15.6, 40], [12, 41.9], [10.5, 43], [8.8, 44.4], [6, 43], [3, 43.3], [3.2, 41.9], [0.8, 41], [0, 39], [-0.7, 37.6], [-2, 36.7], [-5.5, 36], [-6.3, 36.8], [-7.5, 37.2]],
+  // Svalbard, Novaya Zemlya and Sakhalin
+  [[11, 78.5], [17, 80.2], [27, 80], [20, 77.5], [15, 77]],
+  [[52, 71.5], [56, 75.5], [68, 76.8], [60, 74], [55, 70.6]],
+  [[142, 46], [143.5, 49], [143, 54.2], [142.2, 53]],
+  // Japan
+  [[130.9, 34], [132.5, 35.4], [135.5, 35.6], [137, 37], [139.5, 38.5], [140, 40.5], [141.5, 41.3], [142, 39.5], [141, 37], [140.8, 35.7], [139.8, 35], [138.5, 34.6], [136.8, 34.3], [135.2, 33.8], [132.5, 34.1]],
+  [[129.8, 33.5], [131, 34], [132, 33], [131, 31.3], [130.2, 31.2]],
+  [[140, 41.5], [141.3, 43.3], [141.7, 45.4], [145.5, 43.3], [143.3, 42], [141, 41.8]],
+  // Taiwan, Sri Lanka and the Philippines
+  [[120.1, 23], [121.5, 25.3], [122, 25], [121, 22]],
+  [[79.8, 8], [80.2, 9.8], [81.8, 7.5], [81.3, 6.2], [80, 6]],
+  [[120, 18.5], [122.2, 18.5], [122, 16.5], [121.5, 15], [124, 13], [122, 13.5], [120.6, 14.2], [120, 16]],
+  [[122, 7], [123.5, 8], [125.5, 9.5], [126.5, 7.5], [125.5, 6], [124, 6.5]],
+  // Maritime Southeast Asia and New Guinea
+  [[109, 1.5], [111, 2.8], [113, 3.2], [115.5, 5.2], [117, 7], [119, 5.2], [117.8, 3.5], [118, 1], [116.8, -1], [116.5, -3.5], [114.5, -4], [111, -3], [110, -1.5], [109, 0]],
+  [[95.3, 5.5], [97.5, 5.2], [100.3, 2], [103.5, -1], [106, -3], [106, -5.8], [104.5, -5.8], [102, -4], [100.5, -1], [98.5, 1.8]],
+  [[105.2, -6.8], [108.5, -6.5], [112.5, -6.8], [114.5, -7.8], [111, -8.3], [106.5, -7.4]],
+  [[119.5, -5.5], [120.5, -2.5], [119, -1], [120, 0.8], [125, 1.5], [121.5, 0.5], [123, -1], [121.5, -2], [122.5, -4.5], [120.5, -5.5]],
+  [[131, -1.3], [134, -0.9], [136, -2.2], [138, -1.6], [141, -2.6], [145, -4.3], [148, -6], [150.5, -10.5], [147, -10], [144, -7.8], [141, -9.1], [138, -8.2], [137.5, -5], [134.5, -4], [132, -2.8]],
+  // Africa and Madagascar
+  [[32.3, 31.3], [30, 31.2], [25, 31.8], [20, 30.8], [19, 30.3], [15.5, 31.5], [11, 33.2], [10, 34.5], [11, 37], [9.5, 37.3], [3, 36.8], [-1, 35.5], [-5.5, 35.8], [-6, 35.5], [-9.5, 32], [-10, 29], [-13, 27.5], [-15, 24.5], [-17, 21], [-16, 19], [-16.5, 16], [-17.5, 14.7], [-16.7, 12.5], [-15, 11], [-13, 9], [-11, 7], [-7.5, 4.4], [-4, 5.2], [1, 6], [4.5, 6.3], [6, 4.3], [8.5, 4.5], [9.7, 3.5], [9.5, 1], [9, -1], [11.5, -3.5], [12.2, -6], [13, -9], [13.5, -12], [11.8, -17], [14.5, -22.5], [15, -27], [16.5, -28.6], [18, -32], [18.5, -34.2], [20, -34.8], [22.5, -34], [26, -33.8], [28.5, -32.5], [31, -29.5], [32.5, -26], [33, -25.5], [35.5, -24], [35.3, -22], [34.8, -20], [36.5, -18.8], [40, -16], [40.5, -11], [39.5, -7], [39, -5], [40.5, -2.5], [43, 0], [46, 2.5], [49, 6], [51, 10.5], [51.2, 11.8], [49, 11.3], [45, 10.4], [43.3, 11.5], [42.7, 12.7], [41, 14.5], [39, 16.5], [37.5, 18.5], [37, 21], [35.5, 23.5], [35, 26], [33.5, 28], [32.5, 29.9]],
+  [[49.5, -12], [50.5, -15.5], [49.7, -17], [48, -23], [47, -25], [45, -25.5], [43.7, -23], [43.3, -21.5], [44.5, -19], [44, -17], [46.5, -15.7], [48, -13.5]],
+  // Australia, Tasmania and New Zealand
+  [[113.5, -22], [114, -26], [115, -30], [115, -33.5], [117.5, -35], [121, -33.8], [124, -33], [126, -32.2], [131, -31.5], [134, -32.5], [136, -34.8], [138, -35.5], [138.5, -34.5], [140, -37.8], [143.5, -38.8], [146.5, -39], [150, -37.5], [151.3, -33.8], [153.5, -28], [153, -25], [150.8, -22.5], [148.8, -20], [146, -18], [145.4, -15], [143.5, -14], [142.5, -10.8], [141.5, -13], [141.5, -16.5], [140, -17.7], [137, -15.5], [135.5, -14.8], [136.8, -12.3], [135, -12], [131, -11.3], [129, -14.8], [126, -14], [123.5, -16.5], [122, -18.2], [119, -20], [116, -21]],
+  [[144.6, -40.7], [148.3, -40.9], [148, -43.2], [146, -43.6]],
+  [[172.7, -34.4], [174.5, -36], [175.8, -37], [178.5, -37.7], [177, -39.3], [176, -41.3], [174.7, -41.3], [175.2, -39.8], [173.8, -39.2], [174.6, -38]],
+  [[172.7, -40.5], [174.3, -41.8], [172.8, -43.8], [171, -45], [169, -46.6], [166.5, -46], [168.3, -44], [171, -42]],
+  // Antarctica
+  [[-180, -84], [-180, -78], [-160, -77], [-150, -76], [-130, -74], [-100, -73], [-80, -73], [-67, -68], [-58, -63.5], [-60, -66], [-62, -74], [-45, -78], [-30, -77], [-20, -73.5], [0, -70], [20, -70], [40, -69], [55, -66.5], [70, -68], [80, -66.5], [100, -66], [120, -66.5], [140, -66.5], [160, -70], [170, -71.5], [165, -78], [180, -78], [180, -84]]
+];
+
+// Inland seas cut out of the land above.
+export const WATER: Ring[] = [
+  // Caspian Sea
+  [[47, 45], [50, 46.8], [53, 47], [53, 44], [52.7, 41.5], [54, 40], [53.8, 37.3], [50.5, 37], [49, 38.5], [49.5, 40.5], [47.5, 42.5]],
+  // Black Sea
+  [[28, 41.5], [28.5, 44], [30.5, 46.5], [33.5, 46], [32.5, 45.3], [33.5, 44.5], [36.5, 45.2], [38, 47], [39.3, 47], [38, 45], [41.5, 41.5], [36, 41.3], [31, 41.1]]
+];
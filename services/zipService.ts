@@ -0,0 +1,343 @@
+// Minimal ZIP writer and reader. Media is already compressed, so entries are written
+// uncompressed, which lets the archive be assembled from Blob slices without holding every file
+// in memory. ZIP64 records are emitted as soon as a size or offset no longer fits in 32 bits.
+// The reader also accepts deflated entries so archives repacked by other tools still import.
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+  lastModified?: number;
+}
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+const UTF8_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = () => {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+};
+
+const CRC_CHUNK = 8 * 1024 * 1024;
+
+// Reads the blob in chunks so multi-gigabyte videos never need one giant ArrayBuffer.
+export const crc32 = async (blob: Blob): Promise<number> => {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < blob.size; offset += CRC_CHUNK) {
+    const bytes = new Uint8Array(await blob.slice(offset, offset + CRC_CHUNK).arrayBuffer());
+    for (let i = 0; i < bytes.length; i++) crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const year = Math.max(1980, d.getFullYear());
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+  };
+};
+
+class ByteWriter {
+  private view: DataView;
+  private offset = 0;
+  readonly bytes: Uint8Array<ArrayBuffer>;
+
+  constructor(length: number) {
+    this.bytes = new Uint8Array(length);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  u16(value: number) {
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  u32(value: number) {
+    this.view.setUint32(this.offset, value >>> 0, true);
+    this.offset += 4;
+  }
+
+  u64(value: number) {
+    this.view.setBigUint64(this.offset, BigInt(value), true);
+    this.offset += 8;
+  }
+
+  raw(bytes: Uint8Array) {
+    this.bytes.set(bytes, this.offset);
+    this.offset += bytes.length;
+  }
+}
+
+interface WrittenEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+const localHeader = (entry: WrittenEntry) => {
+  const zip64 = entry.size >= MAX_32;
+  const writer = new ByteWriter(30 + entry.name.length + (zip64 ? 20 : 0));
+  writer.u32(0x04034b50);
+  writer.u16(zip64 ? 45 : 20);
+  writer.u16(UTF8_FLAG);
+  writer.u16(0);
+  writer.u16(entry.time);
+  writer.u16(entry.date);
+  writer.u32(entry.crc);
+  writer.u32(zip64 ? MAX_32 : entry.size);
+  writer.u32(zip64 ? MAX_32 : entry.size);
+  writer.u16(entry.name.length);
+  writer.u16(zip64 ? 20 : 0);
+  writer.raw(entry.name);
+  if (zip64) {
+    writer.u16(0x0001);
+    writer.u16(16);
+    writer.u64(entry.size);
+    writer.u64(entry.size);
+  }
+  return writer.bytes;
+};
+
+const centralHeader = (entry: WrittenEntry) => {
+  const bigSize = entry.size >= MAX_32;
+  const bigOffset = entry.offset >= MAX_32;
+  const extraLength = (bigSize ? 16 : 0) + (bigOffset ? 8 : 0);
+  const writer = new ByteWriter(46 + entry.name.length + (extraLength ? 4 + extraLength : 0));
+  writer.u32(0x02014b50);
+  writer.u16(45);
+  writer.u16(bigSize || bigOffset ? 45 : 20);
+  writer.u16(UTF8_FLAG);
+  writer.u16(0);
+  writer.u16(entry.time);
+  writer.u16(entry.date);
+  writer.u32(entry.crc);
+  writer.u32(bigSize ? MAX_32 : entry.size);
+  writer.u32(bigSize ? MAX_32 : entry.size);
+  writer.u16(entry.name.length);
+  writer.u16(extraLength ? 4 + extraLength : 0);
+  writer.u16(0);
+  writer.u16(0);
+  writer.u16(0);
+  writer.u32(0);
+  writer.u32(bigOffset ? MAX_32 : entry.offset);
+  writer.raw(entry.name);
+  if (extraLength) {
+    writer.u16(0x0001);
+    writer.u16(extraLength);
+    if (bigSize) {
+      writer.u64(entry.size);
+      writer.u64(entry.size);
+    }
+    if (bigOffset) writer.u64(entry.offset);
+  }
+  return writer.bytes;
+};
+
+const endRecords = (count: number, directorySize: number, directoryOffset: number) => {
+  const zip64 = count >= MAX_16 || directorySize >= MAX_32 || directoryOffset >= MAX_32;
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+
+  if (zip64) {
+    const record = new ByteWriter(56);
+    record.u32(0x06064b50);
+    record.u64(44);
+    record.u16(45);
+    record.u16(45);
+    record.u32(0);
+    record.u32(0);
+    record.u64(count);
+    record.u64(count);
+    record.u64(directorySize);
+    record.u64(directoryOffset);
+    parts.push(record.bytes);
+
+    const locator = new ByteWriter(20);
+    locator.u32(0x07064b50);
+    locator.u32(0);
+    locator.u64(directoryOffset + directorySize);
+    locator.u32(1);
+    parts.push(locator.bytes);
+  }
+
+  const end = new ByteWriter(22);
+  end.u32(0x06054b50);
+  end.u16(0);
+  end.u16(0);
+  end.u16(zip64 ? MAX_16 : count);
+  end.u16(zip64 ? MAX_16 : count);
+  end.u32(zip64 ? MAX_32 : directorySize);
+  end.u32(zip64 ? MAX_32 : directoryOffset);
+  end.u16(0);
+  parts.push(end.bytes);
+  return parts;
+};
+
+// Makes every entry name unique by suffixing repeats: photo.jpg, photo (2).jpg, ...
+export const uniqueEntryNames = (names: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return names.map(name => {
+    const key = name.toLowerCase();
+    const count = (seen.get(key) || 0) + 1;
+    seen.set(key, count);
+    if (count === 1) return name;
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? `${name.slice(0, dot)} (${count})${name.slice(dot)}` : `${name} (${count})`;
+  });
+};
+
+export const createZip = async (entries: ZipEntry[], onProgress?: (done: number, total: number) => void): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const written: WrittenEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entries.length; i++) {
+    const { name, data, lastModified } = entries[i];
+    const entry: WrittenEntry = {
+      name: encoder.encode(name),
+      crc: await crc32(data),
+      size: data.size,
+      offset,
+      ...toDosDateTime(lastModified ?? Date.now())
+    };
+    const header = localHeader(entry);
+    parts.push(header, data);
+    offset += header.length + data.size;
+    written.push(entry);
+    onProgress?.(i + 1, entries.length);
+  }
+
+  const directoryOffset = offset;
+  let directorySize = 0;
+  written.forEach(entry => {
+    const header = centralHeader(entry);
+    parts.push(header);
+    directorySize += header.length;
+  });
+  parts.push(...endRecords(written.length, directorySize, directoryOffset));
+
+  return new Blob(parts, { type: 'application/zip' });
+};
+
+export interface ZipReaderEntry {
+  name: string;
+  size: number;
+  read: () => Promise<Blob>;
+}
+
+const EOCD_MIN = 22;
+const EOCD_SEARCH = EOCD_MIN + MAX_16;
+
+const readView = async (blob: Blob, start: number, length: number) =>
+  new DataView(await blob.slice(start, start + length).arrayBuffer());
+
+const u64 = (view: DataView, offset: number) => Number(view.getBigUint64(offset, true));
+
+// Pulls the 64-bit values out of a ZIP64 extra field, in the order the spec lists them, for
+// whichever 32-bit header fields were saturated.
+const readZip64Extra = (view: DataView, start: number, length: number, wanted: boolean[]) => {
+  const values: (number | undefined)[] = [];
+  for (let pos = start; pos + 4 <= start + length;) {
+    const id = view.getUint16(pos, true);
+    const size = view.getUint16(pos + 2, true);
+    if (id === 0x0001) {
+      let field = pos + 4;
+      wanted.forEach((want, i) => {
+        if (!want) return;
+        values[i] = u64(view, field);
+        field += 8;
+      });
+      break;
+    }
+    pos += 4 + size;
+  }
+  return values;
+};
+
+const inflateRaw = (blob: Blob): Promise<Blob> =>
+  new Response(blob.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+
+// Lists the entries of an archive from its central directory. Data is only read when an entry's
+// `read` is called, so large archives can be walked one file at a time.
+export const readZip = async (archive: Blob): Promise<ZipReaderEntry[]> => {
+  const tailStart = Math.max(0, archive.size - EOCD_SEARCH);
+  const tail = await readView(archive, tailStart, archive.size - tailStart);
+  let eocd = -1;
+  for (let i = tail.byteLength - EOCD_MIN; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP archive');
+
+  let count = tail.getUint16(eocd + 10, true);
+  let directorySize = tail.getUint32(eocd + 12, true);
+  let directoryOffset = tail.getUint32(eocd + 16, true);
+
+  if (count === MAX_16 || directorySize === MAX_32 || directoryOffset === MAX_32) {
+    const locator = eocd - 20;
+    if (locator < 0 || tail.getUint32(locator, true) !== 0x07064b50) throw new Error('Missing ZIP64 locator');
+    const record = await readView(archive, u64(tail, locator + 8), 56);
+    if (record.getUint32(0, true) !== 0x06064b50) throw new Error('Missing ZIP64 end record');
+    count = u64(record, 32);
+    directorySize = u64(record, 40);
+    directoryOffset = u64(record, 48);
+  }
+
+  const directory = await readView(archive, directoryOffset, directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipReaderEntry[] = [];
+  let pos = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (directory.getUint32(pos, true) !== 0x02014b50) throw new Error('Corrupt ZIP central directory');
+    const method = directory.getUint16(pos + 10, true);
+    let compressedSize = directory.getUint32(pos + 20, true);
+    let size = directory.getUint32(pos + 24, true);
+    const nameLength = directory.getUint16(pos + 28, true);
+    const extraLength = directory.getUint16(pos + 30, true);
+    const commentLength = directory.getUint16(pos + 32, true);
+    let headerOffset = directory.getUint32(pos + 42, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + pos + 46, nameLength));
+
+    const [bigSize, bigCompressed, bigOffset] = readZip64Extra(directory, pos + 46 + nameLength, extraLength, [
+      size === MAX_32, compressedSize === MAX_32, headerOffset === MAX_32
+    ]);
+    size = bigSize ?? size;
+    compressedSize = bigCompressed ?? compressedSize;
+    headerOffset = bigOffset ?? headerOffset;
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (method !== 0 && method !== 8) throw new Error(`Unsupported compression in ${name}`);
+
+    entries.push({
+      name,
+      size,
+      read: async () => {
+        // The local header repeats name and extra with lengths that may differ from the directory's.
+        const local = await readView(archive, headerOffset, 30);
+        if (local.getUint32(0, true) !== 0x04034b50) throw new Error(`Corrupt ZIP entry ${name}`);
+        const dataStart = headerOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const data = archive.slice(dataStart, dataStart + compressedSize);
+        return method === 8 ? inflateRaw(data) : data;
+      }
+    });
+  }
+  return entries;
+};
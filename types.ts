@@ -4,21 +4,192 @@ export enum MediaType {
   DOCUMENT = 'DOCUMENT'
 }
 
+// What the file itself says about how it was captured. Every field is optional since cameras,
+// phones and editors each record a different subset.
+export interface MediaMetadata {
+  capturedAt?: number;
+  camera?: string;
+  lens?: string;
+  // Seconds, e.g. 0.004 for 1/250.
+  exposureTime?: number;
+  fNumber?: number;
+  iso?: number;
+  // Millimetres.
+  focalLength?: number;
+  // EXIF orientation, 1 (upright) to 8.
+  orientation?: number;
+  gps?: { latitude: number; longitude: number; altitude?: number };
+  // As displayed, i.e. after the orientation is applied.
+  width?: number;
+  height?: number;
+  // Seconds.
+  duration?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+}
+
+export type ImageFilter = 'none' | 'mono' | 'sepia' | 'vivid' | 'fade' | 'noir';
+
+// An edit recipe for an image, applied on top of the untouched original whenever it is shown or
+// exported, so it can be changed or dropped at any time.
+export interface ImageEdits {
+  // Clockwise, applied before mirroring and cropping.
+  rotation: 0 | 90 | 180 | 270;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  // Fractions of the rotated and mirrored image; missing for the whole frame.
+  crop?: { x: number; y: number; width: number; height: number };
+  // -100 to 100, 0 leaving the image as it is.
+  exposure: number;
+  contrast: number;
+  saturation: number;
+  // Negative is cooler (bluer), positive warmer.
+  temperature: number;
+  filter: ImageFilter;
+}
+
 export interface MediaItem {
   id: string;
+  // Object URL while in memory; a Blob only on its way into storage, where it moves to the blobs store.
   url: string | Blob;
+  blobId?: string;
+  // Downscaled preview (poster frame for videos), held the same way as `url`.
+  thumbnailUrl?: string | Blob;
   type: MediaType;
   title: string;
   description?: string;
   tags: string[];
   isFavorite: boolean;
+  // When the item was last liked; missing for items liked before this was recorded.
+  favoritedAt?: number;
+  // How often the item has been opened, one of the signals For You ranks by.
+  viewCount?: number;
   createdAt: number;
   size?: string;
   extension?: string;
   originalFileName?: string;
+  // Hex SHA-256 of the original, used to catch re-uploads of the same file.
+  contentHash?: string;
+  // 64-bit difference hash of an image, hex; a small Hamming distance means a near-duplicate.
+  perceptualHash?: string;
+  metadata?: MediaMetadata;
+  // When the item's title, description and tags last came from analysis, and from which provider.
+  analyzedAt?: number;
+  analyzedBy?: AnalysisProviderId;
+  // Set while the item sits in the trash; purged for good once the retention period passes.
+  deletedAt?: number;
+  // Images only; the stored original is never changed.
+  edits?: ImageEdits;
+}
+
+export interface Album {
+  id: string;
+  name: string;
+  itemIds: string[];
+  coverItemId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Structured filters a smart album applies on top of its free-text query.
+export interface SmartAlbumFilters {
+  types: MediaType[];
+  tags: string[];
+  extensions: string[];
+  after?: number;
+  before?: number;
+  favoritesOnly: boolean;
+  minSize?: number;
+  maxSize?: number;
+}
+
+export interface SmartAlbum {
+  id: string;
+  name: string;
+  query: string;
+  filters: SmartAlbumFilters;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Persisted search index: postings per term, plus each item's own term weights so a
+// re-index can remove exactly the postings it previously added.
+export interface SearchTermRecord {
+  term: string;
+  postings: Record<string, number>;
+}
+
+export interface SearchDocRecord {
+  id: string;
+  signature: string;
+  terms: Record<string, number>;
+}
+
+// An item's text embedded for semantic search. Vectors are only comparable within one `model`,
+// and `signature` tells whether the item's text has changed since it was embedded.
+export interface EmbeddingRecord {
+  id: string;
+  model: string;
+  signature: string;
+  // Unit length, so cosine similarity is a plain dot product.
+  vector: Float32Array;
+}
+
+// A file on its way into the vault. The source file is persisted with the entry and transferred
+// in chunks, so a reload resumes from `bytesDone` instead of starting over.
+export type UploadStatus = 'queued' | 'uploading' | 'paused' | 'duplicate' | 'failed';
+
+export interface UploadEntry {
+  // Becomes the media item's id, unless the upload replaces an existing item.
+  id: string;
+  // Held in memory only; what is stored is the chunks copied so far. Missing after a reload
+  // until the same file is added again.
+  file?: Blob;
+  name: string;
+  mimeType: string;
+  type: MediaType;
+  size: number;
+  // With the name and size, recognises the file when it is added again to resume.
+  lastModified?: number;
+  bytesDone: number;
+  status: UploadStatus;
+  attempts: number;
+  error?: string;
+  createdAt: number;
+  // Filled in once before the transfer: preview, fingerprints and capture metadata.
+  prepared?: boolean;
+  thumbnail?: Blob;
+  contentHash?: string;
+  perceptualHash?: string;
+  metadata?: MediaMetadata;
+  // Vault item with the same content, if any; 'duplicate' entries wait for a choice.
+  duplicateOf?: string;
+  duplicateChoice?: 'keep' | 'replace';
+  // Where the file came from, e.g. the folder it was dropped in.
+  albumId?: string;
+  tags?: string[];
+}
+
+// Where auto-tagging sends media: Gemini, any OpenAI-compatible server (including one on this
+// machine), or the built-in heuristics, which need no network.
+export type AnalysisProviderId = 'gemini' | 'openai' | 'local';
+
+// A vault item waiting for background analysis. Jobs are removed once they succeed; the item's
+// `analyzedAt` records that instead.
+export type AnalysisJobStatus = 'pending' | 'running' | 'failed';
+
+export interface AnalysisJob {
+  // The media item's id.
+  id: string;
+  status: AnalysisJobStatus;
+  attempts: number;
+  error?: string;
+  createdAt: number;
+  // Earliest start of the next attempt, after a rate limit or server error.
+  retryAt?: number;
 }
 
-export type TabType = 'library' | 'videos' | 'for-you' | 'favorites' | 'search' | 'settings';
+export type TabType = 'library' | 'videos' | 'for-you' | 'favorites' | 'albums' | 'smart-album' | 'search' | 'map' | 'trash' | 'settings';
 
 export interface AppSettings {
   theme: 'light' | 'dark';
@@ -27,4 +198,21 @@ export interface AppSettings {
   storageUsage: number;
   uploadSpeedLimit: 'unlimited' | '10mbps' | '5mbps' | '1mbps';
   wifiOnly: boolean;
+  trashRetentionDays: number;
+  // Which date the timeline groups by: when items were taken, or when they were added.
+  timelineDate: 'captured' | 'uploaded';
+  analysisProvider: AnalysisProviderId;
+  // Empty means the provider's default model.
+  analysisModel: string;
+  // Only used by the OpenAI-compatible provider, e.g. http://localhost:11434/v1.
+  analysisBaseUrl: string;
+  // Overrides the build-time key for Gemini; sent as a bearer token to OpenAI-compatible servers.
+  analysisApiKey: string;
+  // Empty means the provider's default embedding model.
+  analysisEmbeddingModel: string;
+  // Analysis requests in flight at once, and started per minute (0 for no limit).
+  analysisConcurrency: number;
+  analysisRequestsPerMinute: number;
+  // Whether For You asks the analysis provider to caption its cards.
+  forYouCaptions: boolean;
 }
\ No newline at end of file